@@ -1,12 +1,28 @@
 #!/usr/bin/env node
 
-import { argv, env, stderr } from 'node:process';
+import { argv, env, stderr, stdout } from 'node:process';
+import { parseArgs } from 'node:util';
 
 import { AccountingRepository } from '@app/data/accounting-repository.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
 
-const [, , databaseUrlArg, databaseAuthTokenArg] = argv;
+const { values: options, positionals } = parseArgs({
+  args: argv.slice(2),
+  options: {
+    http: { type: 'string' },
+    host: { type: 'string', default: '127.0.0.1' },
+    'allowed-host': { type: 'string', multiple: true },
+    'access-tokens-file': { type: 'string' },
+    'allow-sql-writes': { type: 'boolean', default: false },
+    'dry-run': { type: 'boolean', default: false },
+  },
+  allowPositionals: true,
+});
+
+// `jurukasa-mcp migrate [databaseUrl] [authToken] [--dry-run]` applies pending schema migrations and exits.
+const isMigrateCommand = positionals[0] === 'migrate';
+const [databaseUrlArg, databaseAuthTokenArg] = isMigrateCommand ? positionals.slice(1) : positionals;
 
 const databaseUrlEnv = env.DATABASE_URL;
 const databaseUrl = databaseUrlArg ?? databaseUrlEnv ?? undefined;
@@ -41,8 +57,57 @@ if (databaseUrl === undefined) {
 }
 
 const accountingRepository = await interpretDatabaseUrl(databaseUrl, databaseAuthToken);
-await accountingRepository.connect();
 
-const server = createAccountingMcpServer(accountingRepository);
-const transport = new StdioServerTransport();
-await server.connect(transport);
+if (isMigrateCommand) {
+  const dryRun = options['dry-run'];
+  await accountingRepository.connect({ skipMigrations: true });
+  const migrations = await accountingRepository.migrate({ dryRun });
+  if (migrations.length === 0) {
+    stdout.write('Database schema is up to date.\n');
+  }
+  for (const migration of migrations) {
+    stdout.write(`${dryRun ? 'Would apply' : 'Applied'} migration ${migration.version} ${migration.name}\n`);
+  }
+  if (dryRun && migrations.length > 0) {
+    stdout.write('Dry run: all pending migrations succeeded and were rolled back.\n');
+  }
+  await accountingRepository.close();
+}
+else if (options.http !== undefined) {
+  await accountingRepository.connect();
+  const port = Number(options.http);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${options.http}`);
+  }
+  const { createAccountingHttpServer, MCP_HTTP_PATH } = await import('@app/mcp-server/http-server.js');
+  const { loadAccessTokensFile, parseAccessTokens } = await import('@app/mcp-server/access-control.js');
+
+  const accessTokensFile = options['access-tokens-file'] ?? env.ACCESS_TOKENS_FILE;
+  const accessTokens = accessTokensFile !== undefined
+    ? await loadAccessTokensFile(accessTokensFile)
+    : env.ACCESS_TOKENS !== undefined
+      ? parseAccessTokens(env.ACCESS_TOKENS)
+      : undefined;
+  if (accessTokens === undefined) {
+    stderr.write('Warning: No access tokens configured, every HTTP client has admin access.\n');
+  }
+
+  const httpServer = createAccountingHttpServer(accountingRepository, {
+    accessTokens,
+    allowSqlWrites: options['allow-sql-writes'],
+    allowedHosts: options['allowed-host'],
+  });
+  httpServer.listen(port, options.host, function () {
+    const address = httpServer.address();
+    const listeningPort = typeof address === 'object' && address !== null ? address.port : port;
+    stderr.write(`Jurukasa MCP server listening on http://${options.host}:${listeningPort}${MCP_HTTP_PATH}\n`);
+  });
+}
+else {
+  await accountingRepository.connect();
+  const server = createAccountingMcpServer(accountingRepository, {
+    allowSqlWrites: options['allow-sql-writes'],
+  });
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
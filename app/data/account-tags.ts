@@ -0,0 +1,109 @@
+// Predefined account tags extracted from migrations/0001-initial-schema.sql
+// These correspond to the CHECK constraint in the account_tags table
+export const ACCOUNT_TAGS = {
+  'Account Types': [
+    'Asset',
+    'Liability',
+    'Equity',
+    'Revenue',
+    'Expense',
+    'Contra Asset',
+    'Contra Liability',
+    'Contra Equity',
+    'Contra Revenue',
+    'Contra Expense',
+  ],
+  'Account Classifications': [
+    'Current Asset',
+    'Non-Current Asset',
+    'Current Liability',
+    'Non-Current Liability',
+  ],
+  'Fiscal Year Closing Tags': [
+    'Fiscal Year Closing - Retained Earning',
+    'Fiscal Year Closing - Revenue',
+    'Fiscal Year Closing - Expense',
+    'Fiscal Year Closing - Dividend',
+  ],
+  'Balance Sheet Classification': [
+    'Balance Sheet - Current Asset',
+    'Balance Sheet - Non-Current Asset',
+    'Balance Sheet - Current Liability',
+    'Balance Sheet - Non-Current Liability',
+    'Balance Sheet - Equity',
+  ],
+  'Income Statement Classification': [
+    'Income Statement - Revenue',
+    'Income Statement - Contra Revenue',
+    'Income Statement - Other Revenue',
+    'Income Statement - COGS',
+    'Income Statement - Expense',
+    'Income Statement - Other Expense',
+  ],
+  'Cash Flow Statement Tags': [
+    'Cash Flow - Cash Equivalents',
+    'Cash Flow - Revenue',
+    'Cash Flow - Expense',
+    'Cash Flow - Activity - Operating',
+    'Cash Flow - Activity - Investing',
+    'Cash Flow - Activity - Financing',
+    'Cash Flow - Non-Cash - Depreciation',
+    'Cash Flow - Non-Cash - Amortization',
+    'Cash Flow - Non-Cash - Impairment',
+    'Cash Flow - Non-Cash - Gain/Loss',
+    'Cash Flow - Non-Cash - Stock Compensation',
+    'Cash Flow - Working Capital - Current Asset',
+    'Cash Flow - Working Capital - Current Liability',
+  ],
+} as const;
+
+// Flatten all tags for validation and reference
+export const ALL_ACCOUNT_TAGS = Object.values(ACCOUNT_TAGS).flat();
+
+/** User-defined tags live in their own namespace, e.g. `Custom:Branch Jakarta`. */
+export const CUSTOM_ACCOUNT_TAG_PREFIX = 'Custom:';
+
+export function isCustomAccountTag(tag: string): boolean {
+  return tag.startsWith(CUSTOM_ACCOUNT_TAG_PREFIX) && tag.slice(CUSTOM_ACCOUNT_TAG_PREFIX.length).trim().length > 0;
+}
+
+function getEditDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow.push(Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + substitutionCost));
+    }
+    previousRow = currentRow;
+  }
+  return previousRow[b.length];
+}
+
+/**
+ * The predefined tags closest to an unknown tag by case-insensitive edit distance.
+ * A tag with the custom prefix in the wrong case is suggested in the right case.
+ */
+export function suggestAccountTags(tag: string, limit: number = 3): string[] {
+  const normalizedTag = tag.trim().toLowerCase();
+  if (normalizedTag.startsWith(CUSTOM_ACCOUNT_TAG_PREFIX.toLowerCase())) {
+    const customName = tag.trim().slice(CUSTOM_ACCOUNT_TAG_PREFIX.length).trim();
+    return customName.length > 0 ? [`${CUSTOM_ACCOUNT_TAG_PREFIX}${customName}`] : [];
+  }
+  return ALL_ACCOUNT_TAGS
+    .map(validTag => ({ validTag, distance: getEditDistance(normalizedTag, validTag.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(suggestion => suggestion.validTag);
+}
+
+/**
+ * Throws when the tag is neither predefined nor a custom tag, suggesting the closest valid tags.
+ */
+export function assertValidAccountTag(tag: string): void {
+  if (ALL_ACCOUNT_TAGS.includes(tag as typeof ALL_ACCOUNT_TAGS[number]) || isCustomAccountTag(tag)) {
+    return;
+  }
+  const suggestions = suggestAccountTags(tag).map(suggestion => `"${suggestion}"`);
+  throw new Error(`Unknown account tag "${tag}". Did you mean ${suggestions.join(', ')}? Custom tags must start with "${CUSTOM_ACCOUNT_TAG_PREFIX}", e.g. "${CUSTOM_ACCOUNT_TAG_PREFIX}Branch Jakarta".`);
+}
@@ -1,7 +1,9 @@
-import { equal, strictEqual } from 'node:assert/strict';
+import { deepEqual, equal, ok, rejects, strictEqual } from 'node:assert/strict';
 import { afterEach, beforeEach, describe, it, suite } from 'node:test';
 
 import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { getChartOfAccountsTemplate } from '@app/data/chart-of-accounts-templates.js';
+import { loadSchemaMigrations } from '@app/data/schema-migrations.js';
 import { assertDefined } from '@app/tools/assertion.js';
 
 export async function runAccountingRepositoryTestSuite(
@@ -62,6 +64,32 @@ export async function runAccountingRepositoryTestSuite(
         const afterUnset = await repo.getAccountsByTag('Asset', 0, 10);
         strictEqual(afterUnset.length, 0);
       });
+
+      it('should reject unknown tags with suggestions and leave other tags unset', async function () {
+        await repo.addAccount(1400, 'Suggested Account', 'debit');
+        await rejects(
+          repo.SetManyAccountTags([
+            { accountCode: 1400, tag: 'Asset' },
+            { accountCode: 1400, tag: 'Balance Sheet - Curent Asset' },
+          ]),
+          /Unknown account tag "Balance Sheet - Curent Asset"\. Did you mean "Balance Sheet - Current Asset"/,
+        );
+        strictEqual((await repo.getAccountsByTag('Asset', 0, 10)).length, 0);
+        await rejects(repo.setAccountTag(1400, 'custom:Branch Jakarta'), /Did you mean "Custom:Branch Jakarta"/);
+        await rejects(repo.setAccountTag(1400, 'Custom: '), /Unknown account tag "Custom: "/);
+      });
+
+      it('should set custom tags and list the ones in use', async function () {
+        await repo.addAccount(1500, 'Cash Jakarta', 'debit');
+        await repo.addAccount(1600, 'Cash Bandung', 'debit');
+        await repo.SetManyAccountTags([
+          { accountCode: 1500, tag: 'Custom:Branch Jakarta' },
+          { accountCode: 1600, tag: 'Custom:Branch Bandung' },
+          { accountCode: 1600, tag: 'Asset' },
+        ]);
+        deepEqual((await repo.getAccountsByTag('Custom:Branch Jakarta', 0, 10)).map(account => account.accountCode), [1500]);
+        deepEqual(await repo.getManyCustomAccountTags(), ['Custom:Branch Bandung', 'Custom:Branch Jakarta']);
+      });
     });
 
     describe('journal entries, posting and reporting', function () {
@@ -96,6 +124,40 @@ export async function runAccountingRepositoryTestSuite(
         strictEqual(b?.balance, 100);
       });
 
+      it('should notify posted listeners after posting only', async function () {
+        await repo.addAccount(2100, 'Cash Listener', 'debit');
+        await repo.addAccount(3100, 'Revenue Listener', 'credit');
+        const postedRefs: number[][] = [];
+        const removeListener = repo.onJournalEntriesPosted(function (journalEntryRefs) {
+          postedRefs.push(journalEntryRefs);
+        });
+
+        const now = Date.now();
+        const entryId = await repo.draftJournalEntry({
+          entryTime: now,
+          lines: [
+            { accountCode: 2100, debit: 100, credit: 0 },
+            { accountCode: 3100, debit: 0, credit: 100 },
+          ],
+        });
+        strictEqual(postedRefs.length, 0);
+
+        await repo.postJournalEntry(entryId, now);
+        deepEqual(postedRefs, [[entryId]]);
+
+        await rejects(repo.postJournalEntry(entryId, now), /already posted/);
+        removeListener();
+        const secondEntryId = await repo.draftJournalEntry({
+          entryTime: now,
+          lines: [
+            { accountCode: 2100, debit: 50, credit: 0 },
+            { accountCode: 3100, debit: 0, credit: 50 },
+          ],
+        });
+        await repo.postJournalEntry(secondEntryId, now);
+        deepEqual(postedRefs, [[entryId]]);
+      });
+
       it('should update journal entry before posting', async function () {
         // create accounts
         await repo.addAccount(2100, 'Cash C', 'debit');
@@ -378,6 +440,134 @@ export async function runAccountingRepositoryTestSuite(
       });
     });
 
+    describe('schema migrations', function () {
+      const addAccountNoteMigration = {
+        version: 9001,
+        name: 'add-account-note',
+        script: 'ALTER TABLE accounts ADD COLUMN test_note TEXT; -- EOS',
+      };
+
+      async function hasAccountNoteColumn() {
+        const columns = await repo.sql<{ name: string }>`SELECT name FROM pragma_table_info('accounts')`;
+        return columns.some(column => column.name === 'test_note');
+      }
+
+      it('should record bundled migrations on connect and not reapply them', async function () {
+        const rows = await repo.sql<{ version: number; name: string }>`SELECT version, name FROM schema_migrations ORDER BY version`;
+        strictEqual(rows[0].version, 1);
+        strictEqual(rows[0].name, 'initial-schema');
+        deepEqual(await repo.migrate(), []);
+      });
+
+      it('should apply pending migrations once', async function () {
+        const migrations = [...await loadSchemaMigrations(), addAccountNoteMigration];
+        const applied = await repo.migrate({ migrations });
+        deepEqual(applied.map(migration => migration.version), [9001]);
+        strictEqual(await hasAccountNoteColumn(), true);
+        deepEqual(await repo.migrate({ migrations }), []);
+      });
+
+      it('should roll back a dry run', async function () {
+        await repo.addAccount(1000, 'Cash', 'debit');
+        const migrations = [...await loadSchemaMigrations(), addAccountNoteMigration];
+        const pending = await repo.migrate({ migrations, dryRun: true });
+        deepEqual(pending.map(migration => migration.version), [9001]);
+        strictEqual(await hasAccountNoteColumn(), false);
+        const recorded = await repo.sql`SELECT version FROM schema_migrations WHERE version = 9001`;
+        strictEqual(recorded.length, 0);
+        strictEqual((await repo.getAccountByCode(1000))?.name, 'Cash');
+      });
+
+      it('should roll back a failing migration entirely', async function () {
+        const failingMigration = {
+          version: 9002,
+          name: 'broken',
+          script: 'ALTER TABLE accounts ADD COLUMN test_note TEXT; -- EOS\nINSERT INTO missing_table VALUES (1); -- EOS',
+        };
+        await rejects(repo.migrate({ migrations: [failingMigration] }), /missing_table/);
+        strictEqual(await hasAccountNoteColumn(), false);
+        await rejects(repo.migrate({ migrations: [failingMigration], dryRun: true }), /missing_table/);
+      });
+
+      it('should upgrade a database created before schema_migrations existed', async function () {
+        await repo.addAccount(1000, 'Cash', 'debit');
+        await repo.setAccountTag(1000, 'Balance Sheet - Current Asset');
+        await repo.sql`DROP TABLE schema_migrations`;
+        const applied = await repo.migrate();
+        deepEqual(applied.map(migration => migration.version), (await loadSchemaMigrations()).map(migration => migration.version));
+        strictEqual((await repo.getAccountByCode(1000))?.name, 'Cash');
+        deepEqual((await repo.getAccountsByTag('Balance Sheet - Current Asset', 0, 10)).map(account => account.accountCode), [1000]);
+      });
+    });
+
+    describe('readOnlySql', function () {
+      it('should run read statements with parameters', async function () {
+        await repo.addAccount(1000, 'Cash', 'debit');
+        const rows = await repo.readOnlySql<{ name: string }>(`
+          -- Look up an account
+          SELECT name FROM accounts WHERE account_code = ?
+        `, [1000]);
+        strictEqual(rows.length, 1);
+        strictEqual(rows[0].name, 'Cash');
+      });
+
+      it('should reject statements that modify the database', async function () {
+        await repo.addAccount(1000, 'Cash', 'debit');
+        await rejects(repo.readOnlySql('UPDATE accounts SET balance = 100'), /read-only mode/);
+        await rejects(repo.readOnlySql('DELETE FROM accounts'), /read-only mode/);
+        await rejects(repo.readOnlySql('WITH target AS (SELECT 1000 AS code) DELETE FROM accounts WHERE account_code IN (SELECT code FROM target)'), /readonly/i);
+
+        const account = await repo.getAccountByCode(1000);
+        assertDefined(account);
+        strictEqual(account.balance, 0);
+
+        await repo.addAccount(2000, 'Bank', 'debit');
+        const bank = await repo.getAccountByCode(2000);
+        assertDefined(bank, 'writes should work again after a read-only statement');
+      });
+
+      it('should stop statements that exceed the time budget', async function () {
+        await rejects(repo.readOnlySql(
+          'WITH RECURSIVE series(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM series WHERE n < 200000) SELECT n FROM series',
+          [],
+          { timeoutMs: 1 },
+        ), /time budget/);
+
+        const rows = await repo.readOnlySql<{ v: number }>('SELECT 1 AS v', [], { timeoutMs: 1000 });
+        strictEqual(rows[0].v, 1);
+      });
+
+      it('should stop long-running statements that never yield a row', async function () {
+        let ticks = 0;
+        const ticker = setInterval(function () { ticks++; }, 50);
+        const startTime = Date.now();
+        try {
+          await rejects(repo.readOnlySql(
+            'SELECT count(*) FROM (WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c) SELECT x FROM c)',
+            [],
+            { timeoutMs: 1000 },
+          ), /time budget of 1000 ms/);
+        }
+        finally {
+          clearInterval(ticker);
+        }
+        ok(Date.now() - startTime < 5000, 'should stop the statement soon after the time budget');
+        ok(ticks >= 5, 'should not block the event loop while the statement runs');
+      });
+
+      it('should run timed statements on committed data and still reject writes', async function () {
+        await repo.addAccount(1000, 'Cash', 'debit');
+        const rows = await repo.readOnlySql<{ name: string }>('SELECT name FROM accounts WHERE account_code = ?', [1000], { timeoutMs: 5000 });
+        deepEqual(rows.map(row => row.name), ['Cash']);
+        await rejects(repo.readOnlySql(
+          'WITH target AS (SELECT 1000 AS code) DELETE FROM accounts WHERE account_code IN (SELECT code FROM target)',
+          [],
+          { timeoutMs: 5000 },
+        ), /readonly/i);
+        strictEqual((await repo.getAccountByCode(1000))?.name, 'Cash');
+      });
+    });
+
     describe('getManyAccounts (inclusive OR filters)', function () {
       it('returns accounts matching codes, names, tags, or controlAccountCodes', async function () {
         // create accounts
@@ -423,6 +613,1032 @@ export async function runAccountingRepositoryTestSuite(
       });
     });
 
+    describe('journal entry drafts listing', function () {
+      it('should list drafts with lines and exclude posted entries', async function () {
+        await repo.addAccount(7100, 'Cash Listing', 'debit');
+        await repo.addAccount(8100, 'Revenue Listing', 'credit');
+
+        const draftRef = await repo.draftJournalEntry({
+          entryTime: 2000,
+          description: 'Draft to review',
+          lines: [
+            { accountCode: 7100, debit: 40, credit: 0 },
+            { accountCode: 8100, debit: 0, credit: 40 },
+          ],
+          idempotentKey: 'draft-listing-key',
+        });
+        const postedRef = await repo.draftJournalEntry({
+          entryTime: 1000,
+          description: 'Posted entry',
+          lines: [
+            { accountCode: 7100, debit: 10, credit: 0 },
+            { accountCode: 8100, debit: 0, credit: 10 },
+          ],
+        });
+        await repo.postJournalEntry(postedRef, 1000);
+
+        const drafts = await repo.getManyJournalEntryDrafts(0, 10);
+        strictEqual(drafts.length, 1);
+        strictEqual(drafts[0].ref, draftRef);
+        strictEqual(drafts[0].description, 'Draft to review');
+        strictEqual(drafts[0].postTime, null);
+        strictEqual(drafts[0].idempotentKey, 'draft-listing-key');
+        strictEqual(drafts[0].lines.length, 2);
+        strictEqual(drafts[0].lines[0].accountName, 'Cash Listing');
+        strictEqual(drafts[0].lines[1].credit, 40);
+
+        const entries = await repo.getManyJournalEntriesByRefs([postedRef, draftRef]);
+        strictEqual(entries.length, 2);
+        strictEqual(entries[0].ref, draftRef);
+        strictEqual(entries.find(e => e.ref === postedRef)?.postTime, 1000);
+      });
+
+      it('should not delete posted entries when deleting drafts', async function () {
+        await repo.addAccount(7200, 'Cash Mixed', 'debit');
+        await repo.addAccount(8200, 'Revenue Mixed', 'credit');
+
+        const draftRef = await repo.draftJournalEntry({
+          entryTime: Date.now(),
+          lines: [
+            { accountCode: 7200, debit: 5, credit: 0 },
+            { accountCode: 8200, debit: 0, credit: 5 },
+          ],
+        });
+        const postedRef = await repo.draftJournalEntry({
+          entryTime: Date.now(),
+          lines: [
+            { accountCode: 7200, debit: 5, credit: 0 },
+            { accountCode: 8200, debit: 0, credit: 5 },
+          ],
+        });
+        await repo.postJournalEntry(postedRef, Date.now());
+
+        await repo.deleteManyJournalEntryDrafts([draftRef, postedRef]);
+
+        const remaining = await repo.getManyJournalEntriesByRefs([draftRef, postedRef]);
+        strictEqual(remaining.length, 1);
+        strictEqual(remaining[0].ref, postedRef);
+        strictEqual(remaining[0].lines.length, 2);
+      });
+    });
+
+    describe('point-in-time balances', function () {
+      it('should compute trial balance and balance sheet as of any time from the ledger', async function () {
+        await repo.addAccount(17100, 'Cash PIT', 'debit');
+        await repo.addAccount(17200, 'Capital PIT', 'credit');
+        await repo.SetManyAccountTags([
+          { accountCode: 17100, tag: 'Balance Sheet - Current Asset' },
+          { accountCode: 17200, tag: 'Balance Sheet - Equity' },
+        ]);
+        const entries = [
+          { entryTime: 1000, amount: 100 },
+          { entryTime: 2000, amount: 50 },
+        ];
+        for (const entry of entries) {
+          const ref = await repo.draftJournalEntry({
+            entryTime: entry.entryTime,
+            lines: [
+              { accountCode: 17100, debit: entry.amount, credit: 0 },
+              { accountCode: 17200, debit: 0, credit: entry.amount },
+            ],
+          });
+          await repo.postJournalEntry(ref, 3000);
+        }
+        await repo.draftJournalEntry({
+          entryTime: 1500,
+          lines: [
+            { accountCode: 17100, debit: 7, credit: 0 },
+            { accountCode: 17200, debit: 0, credit: 7 },
+          ],
+        });
+
+        const trialBalance = await repo.getTrialBalanceAsOf(1000);
+        strictEqual(trialBalance.lines.find(l => l.accountCode === 17100)?.debit, 100);
+        strictEqual(trialBalance.lines.find(l => l.accountCode === 17200)?.credit, 100);
+
+        const balanceSheet = await repo.getBalanceSheetAsOf(1999);
+        strictEqual(balanceSheet.lines.find(l => l.accountCode === 17100)?.amount, 100);
+        strictEqual(balanceSheet.lines.find(l => l.accountCode === 17200)?.classification, 'Equity');
+
+        const latestBalanceSheet = await repo.getBalanceSheetAsOf(2000);
+        strictEqual(latestBalanceSheet.lines.find(l => l.accountCode === 17100)?.amount, 150);
+      });
+
+      it('should only include accounts with the requested tag', async function () {
+        await repo.addAccount(17300, 'Cash Branch A', 'debit');
+        await repo.addAccount(17400, 'Cash Branch B', 'debit');
+        await repo.addAccount(17500, 'Capital Branches', 'credit');
+        await repo.SetManyAccountTags([
+          { accountCode: 17300, tag: 'Balance Sheet - Current Asset' },
+          { accountCode: 17400, tag: 'Balance Sheet - Current Asset' },
+          { accountCode: 17300, tag: 'Custom:Branch A' },
+        ]);
+        const ref = await repo.draftJournalEntry({
+          entryTime: 1000,
+          lines: [
+            { accountCode: 17300, debit: 40, credit: 0 },
+            { accountCode: 17400, debit: 60, credit: 0 },
+            { accountCode: 17500, debit: 0, credit: 100 },
+          ],
+        });
+        await repo.postJournalEntry(ref, 1000);
+
+        const trialBalance = await repo.getTrialBalanceAsOf(1000, 'Custom:Branch A');
+        deepEqual(trialBalance.lines.map(line => [line.accountCode, line.debit]), [[17300, 40]]);
+
+        const balanceSheet = await repo.getBalanceSheetAsOf(1000, 'Custom:Branch A');
+        deepEqual(balanceSheet.lines.map(line => [line.accountCode, line.amount]), [[17300, 40]]);
+      });
+
+      it('should include accounts deactivated after the as-of time', async function () {
+        await repo.addAccount(17600, 'Old Bank PIT', 'debit');
+        await repo.addAccount(17700, 'New Bank PIT', 'debit');
+        await repo.addAccount(17800, 'Capital Closed PIT', 'credit');
+        await repo.addAccount(17900, 'Sales Closed PIT', 'credit');
+        await repo.SetManyAccountTags([
+          { accountCode: 17600, tag: 'Balance Sheet - Current Asset' },
+          { accountCode: 17700, tag: 'Balance Sheet - Current Asset' },
+          { accountCode: 17800, tag: 'Balance Sheet - Equity' },
+          { accountCode: 17900, tag: 'Income Statement - Revenue' },
+        ]);
+        const capitalRef = await repo.draftJournalEntry({
+          entryTime: 1000,
+          lines: [
+            { accountCode: 17600, debit: 80, credit: 0 },
+            { accountCode: 17800, debit: 0, credit: 80 },
+          ],
+        });
+        await repo.postJournalEntry(capitalRef, 1000);
+        const salesRef = await repo.draftJournalEntry({
+          entryTime: 1500,
+          lines: [
+            { accountCode: 17600, debit: 20, credit: 0 },
+            { accountCode: 17900, debit: 0, credit: 20 },
+          ],
+        });
+        await repo.postJournalEntry(salesRef, 1500);
+        await repo.deactivateAccount(17600, { transferBalanceToAccountCode: 17700, transferTime: 3000 });
+        await repo.deactivateAccount(17900, { transferBalanceToAccountCode: 17800, transferTime: 3000 });
+
+        const trialBalance = await repo.getTrialBalanceAsOf(2000);
+        strictEqual(trialBalance.lines.find(line => line.accountCode === 17600)?.debit, 100);
+        strictEqual(trialBalance.lines.find(line => line.accountCode === 17900)?.credit, 20);
+
+        const balanceSheet = await repo.getBalanceSheetAsOf(2000);
+        strictEqual(balanceSheet.lines.find(line => line.accountCode === 17600)?.amount, 100);
+
+        const incomeStatement = await repo.getIncomeStatement({ beginTime: 1000, endTime: 2000 });
+        strictEqual(incomeStatement.revenue, 20);
+
+        const currentTrialBalance = await repo.getTrialBalanceAsOf(3000);
+        strictEqual(currentTrialBalance.lines.find(line => line.accountCode === 17600)?.debit, 0);
+        strictEqual(currentTrialBalance.lines.find(line => line.accountCode === 17700)?.debit, 100);
+      });
+    });
+
+    describe('getAccountLedger', function () {
+      it('should list postings with opening, running and closing balance', async function () {
+        await repo.addAccount(18100, 'Bank Ledger', 'debit');
+        await repo.addAccount(18200, 'Loan Ledger', 'credit');
+        const entries = [
+          { entryTime: 1000, description: 'Borrow', amount: 500 },
+          { entryTime: 2000, description: 'Borrow more', amount: 200 },
+          { entryTime: 3000, description: 'Borrow again', amount: 100 },
+        ];
+        for (const entry of entries) {
+          const ref = await repo.draftJournalEntry({
+            entryTime: entry.entryTime,
+            description: entry.description,
+            lines: [
+              { accountCode: 18100, debit: entry.amount, credit: 0 },
+              { accountCode: 18200, debit: 0, credit: entry.amount },
+            ],
+          });
+          await repo.postJournalEntry(ref, entry.entryTime);
+        }
+
+        const ledger = await repo.getAccountLedger({ accountCode: 18200, beginTime: 2000, endTime: 3000 });
+        strictEqual(ledger.normalBalance, 'credit');
+        strictEqual(ledger.openingBalance, 500);
+        strictEqual(ledger.lines.length, 1);
+        strictEqual(ledger.lines[0].note, 'Borrow more');
+        strictEqual(ledger.lines[0].credit, 200);
+        strictEqual(ledger.lines[0].runningBalance, 700);
+        strictEqual(ledger.closingBalance, 700);
+
+        await rejects(repo.getAccountLedger({ accountCode: 18999 }), /Account 18999 does not exist/);
+      });
+
+      it('should roll up descendants of a control account', async function () {
+        await repo.addAccount(19000, 'Cash Control Ledger', 'debit');
+        await repo.addAccount(19100, 'Petty Cash Ledger', 'debit');
+        await repo.addAccount(19200, 'Bank Child Ledger', 'debit');
+        await repo.addAccount(19300, 'Capital Ledger', 'credit');
+        await repo.setControlAccount(19100, 19000);
+        await repo.setControlAccount(19200, 19000);
+        const ref = await repo.draftJournalEntry({
+          entryTime: 1000,
+          lines: [
+            { accountCode: 19100, debit: 30, credit: 0 },
+            { accountCode: 19200, debit: 70, credit: 0 },
+            { accountCode: 19300, debit: 0, credit: 100 },
+          ],
+        });
+        await repo.postJournalEntry(ref, 1000);
+
+        const ledger = await repo.getAccountLedger({ accountCode: 19000 });
+        strictEqual(ledger.accountCodes.length, 3);
+        strictEqual(ledger.lines.length, 2);
+        strictEqual(ledger.lines[1].runningBalance, 100);
+        strictEqual(ledger.totalDebit, 100);
+        strictEqual(ledger.closingBalance, 100);
+      });
+
+      it('should only roll up descendants with the requested tag', async function () {
+        await repo.addAccount(19500, 'Cash Control Tagged', 'debit');
+        await repo.addAccount(19600, 'Cash Jakarta Tagged', 'debit');
+        await repo.addAccount(19700, 'Cash Bandung Tagged', 'debit');
+        await repo.addAccount(19800, 'Capital Tagged', 'credit');
+        await repo.setControlAccount(19600, 19500);
+        await repo.setControlAccount(19700, 19500);
+        await repo.setAccountTag(19600, 'Custom:Branch Jakarta');
+        const ref = await repo.draftJournalEntry({
+          entryTime: 1000,
+          lines: [
+            { accountCode: 19600, debit: 30, credit: 0 },
+            { accountCode: 19700, debit: 70, credit: 0 },
+            { accountCode: 19800, debit: 0, credit: 100 },
+          ],
+        });
+        await repo.postJournalEntry(ref, 1000);
+
+        const ledger = await repo.getAccountLedger({ accountCode: 19500, accountTag: 'Custom:Branch Jakarta' });
+        deepEqual(ledger.accountCodes, [19600]);
+        strictEqual(ledger.accountTag, 'Custom:Branch Jakarta');
+        strictEqual(ledger.lines.length, 1);
+        strictEqual(ledger.closingBalance, 30);
+      });
+    });
+
+    describe('getIncomeStatement', function () {
+      it('should compute totals for an arbitrary period', async function () {
+        await repo.addAccount(13100, 'Cash IS', 'debit');
+        await repo.addAccount(13200, 'Sales IS', 'credit');
+        await repo.addAccount(13300, 'Sales Returns IS', 'debit');
+        await repo.addAccount(13400, 'COGS IS', 'debit');
+        await repo.addAccount(13500, 'Salary IS', 'debit');
+        await repo.addAccount(13600, 'Interest Expense IS', 'debit');
+        await repo.SetManyAccountTags([
+          { accountCode: 13200, tag: 'Income Statement - Revenue' },
+          { accountCode: 13300, tag: 'Income Statement - Contra Revenue' },
+          { accountCode: 13400, tag: 'Income Statement - COGS' },
+          { accountCode: 13500, tag: 'Income Statement - Expense' },
+          { accountCode: 13600, tag: 'Income Statement - Other Expense' },
+        ]);
+
+        const inPeriodRef = await repo.draftJournalEntry({
+          entryTime: 1000,
+          lines: [
+            { accountCode: 13100, debit: 1000, credit: 0 },
+            { accountCode: 13300, debit: 100, credit: 0 },
+            { accountCode: 13400, debit: 300, credit: 0 },
+            { accountCode: 13500, debit: 200, credit: 0 },
+            { accountCode: 13600, debit: 50, credit: 0 },
+            { accountCode: 13200, debit: 0, credit: 1650 },
+          ],
+        });
+        await repo.postJournalEntry(inPeriodRef, 1000);
+        const outOfPeriodRef = await repo.draftJournalEntry({
+          entryTime: 2000,
+          lines: [
+            { accountCode: 13100, debit: 70, credit: 0 },
+            { accountCode: 13200, debit: 0, credit: 70 },
+          ],
+        });
+        await repo.postJournalEntry(outOfPeriodRef, 2000);
+
+        const statement = await repo.getIncomeStatement({ beginTime: 1000, endTime: 2000 });
+        strictEqual(statement.name, null);
+        strictEqual(statement.lines.length, 5);
+        strictEqual(statement.revenue, 1650);
+        strictEqual(statement.contraRevenue, 100);
+        strictEqual(statement.netRevenue, 1550);
+        strictEqual(statement.costOfGoodsSold, 300);
+        strictEqual(statement.grossProfit, 1250);
+        strictEqual(statement.operatingExpenses, 200);
+        strictEqual(statement.operatingIncome, 1050);
+        strictEqual(statement.otherExpenses, 50);
+        strictEqual(statement.netIncome, 1000);
+      });
+
+      it('should reject unknown fiscal years and missing periods', async function () {
+        await rejects(repo.getIncomeStatement({ fiscalYearName: 'FY1999' }), /Fiscal year FY1999 does not exist/);
+        await rejects(repo.getIncomeStatement({ beginTime: 1000 }), /Either fiscalYearName or both beginTime and endTime must be provided/);
+      });
+    });
+
+    describe('generateCashFlowStatement', function () {
+      it('should build an indirect-method statement that reconciles to the change in cash', async function () {
+        await repo.addAccount(14100, 'Cash CF', 'debit');
+        await repo.addAccount(14200, 'Receivable CF', 'debit');
+        await repo.addAccount(14300, 'Equipment CF', 'debit');
+        await repo.addAccount(14400, 'Accumulated Depreciation CF', 'credit');
+        await repo.addAccount(14500, 'Loan CF', 'credit');
+        await repo.addAccount(14600, 'Sales CF', 'credit');
+        await repo.addAccount(14700, 'Depreciation Expense CF', 'debit');
+        await repo.SetManyAccountTags([
+          { accountCode: 14100, tag: 'Cash Flow - Cash Equivalents' },
+          { accountCode: 14200, tag: 'Cash Flow - Working Capital - Current Asset' },
+          { accountCode: 14300, tag: 'Cash Flow - Activity - Investing' },
+          { accountCode: 14400, tag: 'Cash Flow - Non-Cash - Depreciation' },
+          { accountCode: 14500, tag: 'Cash Flow - Activity - Financing' },
+          { accountCode: 14600, tag: 'Cash Flow - Revenue' },
+          { accountCode: 14700, tag: 'Cash Flow - Expense' },
+        ]);
+
+        const entries = [
+          { entryTime: 500, lines: [{ accountCode: 14100, debit: 1000, credit: 0 }, { accountCode: 14500, debit: 0, credit: 1000 }] },
+          { entryTime: 1000, lines: [{ accountCode: 14100, debit: 300, credit: 0 }, { accountCode: 14200, debit: 200, credit: 0 }, { accountCode: 14600, debit: 0, credit: 500 }] },
+          { entryTime: 1100, lines: [{ accountCode: 14700, debit: 50, credit: 0 }, { accountCode: 14400, debit: 0, credit: 50 }] },
+          { entryTime: 1200, lines: [{ accountCode: 14300, debit: 400, credit: 0 }, { accountCode: 14100, debit: 0, credit: 400 }] },
+          { entryTime: 1300, lines: [{ accountCode: 14100, debit: 250, credit: 0 }, { accountCode: 14500, debit: 0, credit: 250 }] },
+        ];
+        for (const entry of entries) {
+          const ref = await repo.draftJournalEntry(entry);
+          await repo.postJournalEntry(ref, entry.entryTime);
+        }
+
+        const statement = await repo.generateCashFlowStatement({ beginTime: 1000, endTime: 2000, reportTime: 2000, name: 'Test CF' });
+        strictEqual(statement.lines[0].description, 'Net Income');
+        strictEqual(statement.lines[0].amount, 450);
+        strictEqual(statement.lines.find(l => l.description === 'Depreciation: Accumulated Depreciation CF')?.amount, 50);
+        strictEqual(statement.lines.find(l => l.description === 'Change in Receivable CF')?.amount, -200);
+        strictEqual(statement.netCashFromOperating, 300);
+        strictEqual(statement.netCashFromInvesting, -400);
+        strictEqual(statement.netCashFromFinancing, 250);
+        strictEqual(statement.netCashChange, 150);
+        strictEqual(statement.beginningCash, 1000);
+        strictEqual(statement.endingCash, 1150);
+        strictEqual(statement.unclassifiedAccounts.length, 0);
+
+        const storedLines = await repo.sql<{ amount: number }>`
+          SELECT amount FROM cashflow_statement WHERE cashflow_report_id = ${statement.id}
+        `;
+        strictEqual(storedLines.length, statement.lines.length);
+      });
+
+      it('should report accounts without cash flow tags as unclassified', async function () {
+        await repo.addAccount(15100, 'Cash Unclassified', 'debit');
+        await repo.addAccount(15200, 'Mystery Unclassified', 'credit');
+        await repo.SetManyAccountTags([{ accountCode: 15100, tag: 'Cash Flow - Cash Equivalents' }]);
+        const ref = await repo.draftJournalEntry({
+          entryTime: 1000,
+          lines: [{ accountCode: 15100, debit: 80, credit: 0 }, { accountCode: 15200, debit: 0, credit: 80 }],
+        });
+        await repo.postJournalEntry(ref, 1000);
+
+        const statement = await repo.generateCashFlowStatement({ beginTime: 1000, endTime: 2000, reportTime: 2000 });
+        strictEqual(statement.netCashChange, 0);
+        strictEqual(statement.endingCash - statement.beginningCash, 80);
+        strictEqual(statement.unclassifiedAccounts.length, 1);
+        strictEqual(statement.unclassifiedAccounts[0].accountCode, 15200);
+        strictEqual(statement.unclassifiedAccounts[0].amount, 80);
+      });
+    });
+
+    describe('fiscal years', function () {
+      const beginTime = Date.UTC(2024, 0, 1) - 1;
+      const endTime = Date.UTC(2025, 0, 1) - 1;
+
+      async function setupClosingAccounts() {
+        await repo.addAccount(16100, 'Cash FY', 'debit');
+        await repo.addAccount(16200, 'Sales FY', 'credit');
+        await repo.addAccount(16300, 'Rent FY', 'debit');
+        await repo.addAccount(16400, 'Retained Earning FY', 'credit');
+        await repo.SetManyAccountTags([
+          { accountCode: 16200, tag: 'Fiscal Year Closing - Revenue' },
+          { accountCode: 16200, tag: 'Income Statement - Revenue' },
+          { accountCode: 16300, tag: 'Fiscal Year Closing - Expense' },
+          { accountCode: 16300, tag: 'Income Statement - Expense' },
+        ]);
+        const entries = [
+          { entryTime: Date.UTC(2024, 0, 1), lines: [{ accountCode: 16100, debit: 900, credit: 0 }, { accountCode: 16200, debit: 0, credit: 900 }] },
+          { entryTime: Date.UTC(2024, 5, 1), lines: [{ accountCode: 16300, debit: 300, credit: 0 }, { accountCode: 16100, debit: 0, credit: 300 }] },
+          { entryTime: Date.UTC(2025, 0, 1), lines: [{ accountCode: 16100, debit: 40, credit: 0 }, { accountCode: 16200, debit: 0, credit: 40 }] },
+        ];
+        for (const entry of entries) {
+          const ref = await repo.draftJournalEntry(entry);
+          await repo.postJournalEntry(ref, entry.entryTime);
+        }
+      }
+
+      it('should define and list fiscal years with millisecond times', async function () {
+        await repo.defineFiscalYear({ beginTime, endTime, name: 'FY2024' });
+        await rejects(repo.defineFiscalYear({ beginTime: endTime, endTime: Date.UTC(2026, 0, 1) - 1, name: 'FY2024' }), /already exists/);
+        await rejects(repo.defineFiscalYear({ beginTime: endTime, endTime: endTime + 1000, name: 'Short' }), /at least 30 days/);
+
+        const fiscalYears = await repo.getManyFiscalYears();
+        strictEqual(fiscalYears.length, 1);
+        strictEqual(fiscalYears[0].name, 'FY2024');
+        strictEqual(fiscalYears[0].beginTime, beginTime);
+        strictEqual(fiscalYears[0].isClosed, false);
+      });
+
+      it('should report closing pre-check issues', async function () {
+        await setupClosingAccounts();
+        await repo.defineFiscalYear({ beginTime, endTime, name: 'FY2024' });
+        const draftRef = await repo.draftJournalEntry({
+          entryTime: Date.UTC(2024, 11, 31),
+          lines: [{ accountCode: 16300, debit: 10, credit: 0 }, { accountCode: 16100, debit: 0, credit: 10 }],
+        });
+
+        const preCheck = await repo.getFiscalYearClosingPreCheck('FY2024');
+        strictEqual(preCheck.unpostedJournalEntryRefs.length, 1);
+        strictEqual(preCheck.unpostedJournalEntryRefs[0], draftRef);
+        strictEqual(preCheck.retainedEarningAccountCode, null);
+        strictEqual(preCheck.netIncome, 600);
+      });
+
+      it('should close the fiscal year with balances as of its end', async function () {
+        await setupClosingAccounts();
+        await repo.SetManyAccountTags([{ accountCode: 16400, tag: 'Fiscal Year Closing - Retained Earning' }]);
+        await repo.defineFiscalYear({ beginTime, endTime, name: 'FY2024' });
+
+        const postedRefs: number[][] = [];
+        repo.onJournalEntriesPosted(function (journalEntryRefs) {
+          postedRefs.push(journalEntryRefs);
+        });
+        const fiscalYear = await repo.closeFiscalYear('FY2024', Date.UTC(2025, 0, 15));
+        strictEqual(fiscalYear.isClosed, true);
+        assertDefined(fiscalYear.closingJournalEntryRef);
+        deepEqual(postedRefs, [[fiscalYear.closingJournalEntryRef]]);
+        await rejects(repo.closeFiscalYear('FY2024', Date.UTC(2025, 0, 16)), /already closed/);
+
+        const [closingEntry] = await repo.getManyJournalEntriesByRefs([fiscalYear.closingJournalEntryRef]);
+        strictEqual(closingEntry.entryTime, endTime);
+        strictEqual(closingEntry.description, 'FY2024 Closing Entry');
+
+        const sales = await repo.getAccountByCode(16200);
+        const retainedEarning = await repo.getAccountByCode(16400);
+        strictEqual(sales?.balance, 40, 'sales after the fiscal year end stay open');
+        strictEqual(retainedEarning?.balance, 600);
+
+        const incomeStatement = await repo.getIncomeStatement({ fiscalYearName: 'FY2024' });
+        strictEqual(incomeStatement.revenue, 900);
+        strictEqual(incomeStatement.operatingExpenses, 300);
+        strictEqual(incomeStatement.netIncome, 600);
+      });
+    });
+
+    describe('searchJournalEntries', function () {
+      it('should combine filters and report the total', async function () {
+        await repo.addAccount(20100, 'Cash Search', 'debit');
+        await repo.addAccount(20200, 'Sales Search', 'credit');
+        const rentRef = await repo.draftJournalEntry({
+          entryTime: 1000,
+          description: 'Office 100% rent',
+          lines: [
+            { accountCode: 20100, debit: 50, credit: 0 },
+            { accountCode: 20200, debit: 0, credit: 50 },
+          ],
+          idempotentKey: 'search-rent',
+        });
+        await repo.postJournalEntry(rentRef, 1000);
+        const reversalRef = await repo.reverseJournalEntry(rentRef, 2000);
+        await repo.postJournalEntry(reversalRef, 2000);
+        await repo.draftJournalEntry({
+          entryTime: 3000,
+          description: 'Office rent draft',
+          lines: [
+            { accountCode: 20100, debit: 500, credit: 0 },
+            { accountCode: 20200, debit: 0, credit: 500 },
+          ],
+        });
+
+        let result = await repo.searchJournalEntries({ noteContains: '100%' }, 0, 10);
+        strictEqual(result.total, 1);
+        strictEqual(result.entries[0].ref, rentRef);
+        strictEqual(result.entries[0].reversedByRef, reversalRef);
+        strictEqual(result.entries[0].sourceType, 'Manual');
+        strictEqual(result.entries[0].lines.length, 2);
+
+        result = await repo.searchJournalEntries({ status: 'reversed' }, 0, 10);
+        strictEqual(result.total, 1);
+        strictEqual(result.entries[0].ref, rentRef);
+
+        result = await repo.searchJournalEntries({ accountCodes: [20100], maxAmount: 100, beginTime: 1500 }, 0, 10);
+        strictEqual(result.total, 1);
+        strictEqual(result.entries[0].reversalOfRef, rentRef);
+
+        result = await repo.searchJournalEntries({ accountCodes: [20100] }, 0, 2);
+        strictEqual(result.total, 3);
+        strictEqual(result.entries.length, 2);
+        strictEqual(result.entries[0].description, 'Office rent draft');
+
+        result = await repo.searchJournalEntries({ idempotentKey: 'search-rent', status: 'draft' }, 0, 10);
+        strictEqual(result.total, 0);
+      });
+    });
+
+    describe('journal line description and reference', function () {
+      it('should keep line memo and reference through drafts, reversals, search and ledger', async function () {
+        await repo.addAccount(21100, 'Cash Line Detail', 'debit');
+        await repo.addAccount(21200, 'Sales Line Detail', 'credit');
+        const ref = await repo.draftJournalEntry({
+          entryTime: 1000,
+          lines: [
+            { accountCode: 21100, debit: 75, credit: 0, description: 'Card payment', reference: 'RCPT-99' },
+            { accountCode: 21200, debit: 0, credit: 75 },
+          ],
+        });
+        await repo.postJournalEntry(ref, 1000);
+        const reversalRef = await repo.reverseJournalEntry(ref, 2000);
+
+        const [entry, reversal] = await repo.getManyJournalEntriesByRefs([ref, reversalRef]);
+        strictEqual(entry.lines[0].description, 'Card payment');
+        strictEqual(entry.lines[0].reference, 'RCPT-99');
+        strictEqual(entry.lines[1].reference, null);
+        strictEqual(reversal.lines[0].reference, 'RCPT-99');
+        strictEqual(reversal.lines[0].credit, 75);
+
+        const result = await repo.searchJournalEntries({ referenceContains: 'RCPT' }, 0, 10);
+        strictEqual(result.total, 2);
+
+        const ledger = await repo.getAccountLedger({ accountCode: 21100 });
+        strictEqual(ledger.lines[0].description, 'Card payment');
+        strictEqual(ledger.lines[0].reference, 'RCPT-99');
+      });
+    });
+
+    describe('journal entry provenance', function () {
+      it('should default to manual entries and store the given source', async function () {
+        await repo.addAccount(22100, 'Cash Provenance', 'debit');
+        await repo.addAccount(22200, 'Sales Provenance', 'credit');
+        const lines = [
+          { accountCode: 22100, debit: 10, credit: 0 },
+          { accountCode: 22200, debit: 0, credit: 10 },
+        ];
+        const manualRef = await repo.draftJournalEntry({ entryTime: 1000, lines });
+        const generatedRef = await repo.draftJournalEntry({
+          entryTime: 2000,
+          lines,
+          sourceType: 'LLM Generated',
+          sourceReference: 'doc-1',
+        });
+
+        const [manual, generated] = await repo.getManyJournalEntriesByRefs([manualRef, generatedRef]);
+        strictEqual(manual.sourceType, 'Manual');
+        strictEqual(manual.sourceReference, null);
+        strictEqual(manual.createdBy, 'User');
+        strictEqual(generated.sourceType, 'LLM Generated');
+        strictEqual(generated.sourceReference, 'doc-1');
+
+        await repo.postJournalEntry(manualRef, 1000);
+        await repo.postJournalEntry(generatedRef, 2000);
+        const ledger = await repo.getAccountLedger({ accountCode: 22100, sourceTypes: ['LLM Generated'] });
+        strictEqual(ledger.lines.length, 1);
+        strictEqual(ledger.lines[0].ref, generatedRef);
+        strictEqual(ledger.closingBalance, 10);
+      });
+    });
+
+    describe('importOpeningBalances', function () {
+      it('should post one system generated entry balanced against opening balance equity', async function () {
+        await repo.addAccount(23100, 'Cash Opening', 'debit');
+        await repo.addAccount(23200, 'Accumulated Depreciation Opening', 'credit');
+        await repo.addAccount(23300, 'Payables Opening', 'credit');
+        await repo.addAccount(23400, 'Inventory Opening', 'debit');
+        await repo.addAccount(23900, 'Opening Balance Equity', 'credit');
+        await repo.setAccountTag(23900, 'Balance Sheet - Equity');
+        const postedRefs: number[][] = [];
+        repo.onJournalEntriesPosted(function (refs) { postedRefs.push(refs); });
+
+        const asOfTime = new Date('2024-01-01').getTime();
+        const ref = await repo.importOpeningBalances({
+          asOfTime,
+          openingBalanceEquityAccountCode: 23900,
+          balances: [
+            { accountCode: 23100, balance: 1000 },
+            { accountCode: 23300, balance: 400 },
+            { accountCode: 23200, balance: -50 },
+            { accountCode: 23400, balance: 0 },
+          ],
+        });
+
+        const [entry] = await repo.getManyJournalEntriesByRefs([ref]);
+        strictEqual(entry.postTime, asOfTime);
+        strictEqual(entry.sourceType, 'System Generated');
+        strictEqual(entry.createdBy, 'System');
+        deepEqual(entry.lines.map(line => [line.accountCode, line.debit, line.credit]), [
+          [23100, 1000, 0],
+          [23300, 0, 400],
+          [23200, 50, 0],
+          [23900, 0, 650],
+        ]);
+        deepEqual(postedRefs, [[ref]]);
+
+        await rejects(repo.importOpeningBalances({
+          asOfTime,
+          openingBalanceEquityAccountCode: 23900,
+          balances: [{ accountCode: 23100, balance: 1 }],
+        }), new RegExp(`Opening balances were already imported in journal entry ${ref}`));
+      });
+
+      it('should reject unknown accounts and balances on the equity account', async function () {
+        await repo.addAccount(23100, 'Cash Opening', 'debit');
+        await repo.addAccount(23900, 'Opening Balance Equity', 'credit');
+        await repo.setAccountTag(23900, 'Balance Sheet - Equity');
+        await rejects(repo.importOpeningBalances({
+          asOfTime: 1000,
+          openingBalanceEquityAccountCode: 23900,
+          balances: [{ accountCode: 23100, balance: 10 }, { accountCode: 23999, balance: 10 }],
+        }), /Account codes do not exist: 23999/);
+        await rejects(repo.importOpeningBalances({
+          asOfTime: 1000,
+          openingBalanceEquityAccountCode: 23900,
+          balances: [{ accountCode: 23900, balance: 10 }],
+        }), /cannot have an opening balance itself/);
+        strictEqual(await repo.getExistingJournalEntryByIdempotentKey('opening-balances'), null);
+      });
+
+      it('should reject an offset account that is not an equity account', async function () {
+        await repo.addAccount(23100, 'Cash Opening', 'debit');
+        await repo.addAccount(23500, 'Suspense Opening', 'credit');
+        await repo.setAccountTag(23500, 'Balance Sheet - Current Liability');
+        await rejects(repo.importOpeningBalances({
+          asOfTime: 1000,
+          openingBalanceEquityAccountCode: 23500,
+          balances: [{ accountCode: 23100, balance: 10 }],
+        }), /Account 23500 "Suspense Opening" is not an equity account/);
+        strictEqual(await repo.getExistingJournalEntryByIdempotentKey('opening-balances'), null);
+
+        await repo.setAccountTag(23500, 'Equity');
+        const ref = await repo.importOpeningBalances({
+          asOfTime: 1000,
+          openingBalanceEquityAccountCode: 23500,
+          balances: [{ accountCode: 23100, balance: 10 }],
+        });
+        strictEqual(await repo.getExistingJournalEntryByIdempotentKey('opening-balances'), ref);
+      });
+    });
+
+    describe('renumberAccount and mergeAccounts', function () {
+      beforeEach(async function () {
+        await repo.addAccount(24100, 'Bank Group', 'debit');
+        await repo.addAccount(24110, 'Bank BCA', 'debit');
+        await repo.addAccount(24130, 'Bank BCA Duplicate', 'debit');
+        await repo.addAccount(24200, 'Sales Renumber', 'credit');
+        await repo.setControlAccount(24110, 24100);
+        await repo.setControlAccount(24130, 24100);
+        await repo.SetManyAccountTags([
+          { accountCode: 24110, tag: 'Balance Sheet - Current Asset' },
+          { accountCode: 24130, tag: 'Balance Sheet - Current Asset' },
+          { accountCode: 24130, tag: 'Custom:Branch Jakarta' },
+        ]);
+        for (const [accountCode, amount] of [[24110, 100], [24130, 40]]) {
+          const ref = await repo.draftJournalEntry({
+            entryTime: 1000,
+            lines: [
+              { accountCode, debit: amount, credit: 0 },
+              { accountCode: 24200, debit: 0, credit: amount },
+            ],
+          });
+          await repo.postJournalEntry(ref, 1000);
+        }
+        await repo.GenerateFinancialReport(2000);
+      });
+
+      it('should move posted lines, tags, report lines and control links to the new code', async function () {
+        const change = await repo.renumberAccount(24110, 24120);
+        strictEqual(change.changeType, 'Renumber');
+        strictEqual(change.oldAccountName, 'Bank BCA');
+
+        strictEqual((await repo.getManyAccounts({ accountCodes: [24110] })).length, 0);
+        const [account] = await repo.getManyAccounts({ accountCodes: [24120] });
+        strictEqual(account.name, 'Bank BCA');
+        strictEqual(account.controlAccountCode, 24100);
+        strictEqual(account.balance, 100);
+        deepEqual((await repo.getAccountsByTag('Balance Sheet - Current Asset', 0, 10)).map(account => account.accountCode), [24120, 24130]);
+        const ledger = await repo.getAccountLedger({ accountCode: 24120 });
+        strictEqual(ledger.closingBalance, 100);
+        deepEqual((await repo.sql<{ debit: number; credit: number }>`SELECT debit, credit FROM trial_balance_lines WHERE account_code = ${24120}`).map(row => [row.debit, row.credit]), [[100, 0]]);
+        deepEqual((await repo.sql<{ amount: number }>`SELECT amount FROM balance_sheet_lines WHERE account_code = ${24120}`).map(row => row.amount), [100]);
+        deepEqual(await repo.getManyAccountCodeChanges(24110), [change]);
+      });
+
+      it('should still refuse other changes to posted lines', async function () {
+        await repo.renumberAccount(24110, 24120);
+        await rejects(repo.sql`UPDATE journal_entry_lines SET account_code = ${24110} WHERE account_code = ${24120}`, /Cannot modify lines of posted journal entry/);
+        await rejects(repo.sql`UPDATE journal_entry_lines SET debit = debit + 1 WHERE account_code = ${24120} AND debit > 0`, /Cannot modify lines of posted journal entry/);
+      });
+
+      it('should not renumber to an existing account', async function () {
+        await rejects(repo.renumberAccount(24110, 24130), /Account 24130 "Bank BCA Duplicate" already exists/);
+        deepEqual(await repo.getManyAccountCodeChanges(), []);
+      });
+
+      it('should merge duplicate accounts into the target', async function () {
+        const [change] = await repo.mergeAccounts([24130], 24110);
+        strictEqual(change.changeType, 'Merge');
+        strictEqual(change.oldAccountCode, 24130);
+        strictEqual(change.newAccountCode, 24110);
+
+        strictEqual((await repo.getManyAccounts({ accountCodes: [24130] })).length, 0);
+        const [account] = await repo.getManyAccounts({ accountCodes: [24110] });
+        strictEqual(account.name, 'Bank BCA');
+        strictEqual(account.balance, 140);
+        strictEqual((await repo.getAccountLedger({ accountCode: 24110 })).lines.length, 2);
+        deepEqual((await repo.getAccountsByTag('Custom:Branch Jakarta', 0, 10)).map(account => account.accountCode), [24110]);
+        deepEqual((await repo.sql<{ debit: number; credit: number }>`SELECT debit, credit FROM trial_balance_lines WHERE account_code IN (${24110}, ${24130})`).map(row => [row.debit, row.credit]), [[140, 0]]);
+        deepEqual((await repo.sql<{ amount: number }>`SELECT amount FROM balance_sheet_lines WHERE account_code IN (${24110}, ${24130})`).map(row => row.amount), [140]);
+      });
+
+      it('should not merge accounts with different normal balances', async function () {
+        await rejects(repo.mergeAccounts([24200], 24110), /Account 24200 "Sales Renumber" has a credit normal balance/);
+        strictEqual((await repo.getManyAccounts({ accountCodes: [24200] })).length, 1);
+        deepEqual(await repo.getManyAccountCodeChanges(), []);
+      });
+
+      it('should not merge an account into its own sub-account', async function () {
+        await repo.addAccount(24300, 'Cash Group', 'debit');
+        await repo.addAccount(24310, 'Cash Registers', 'debit');
+        await repo.addAccount(24311, 'Cash Register 1', 'debit');
+        await repo.setControlAccount(24310, 24300);
+        await repo.setControlAccount(24311, 24310);
+        await rejects(repo.mergeAccounts([24100], 24110), /Account 24100 "Bank Group" cannot be merged into its sub-account 24110 "Bank BCA"/);
+        await rejects(repo.mergeAccounts([24130, 24300], 24311), /Account 24300 "Cash Group" cannot be merged into its sub-account 24311 "Cash Register 1"/);
+        strictEqual((await repo.getManyAccounts({ accountCodes: [24100, 24130, 24300] })).length, 3);
+        const [subAccount] = await repo.getManyAccounts({ accountCodes: [24311] });
+        strictEqual(subAccount.controlAccountCode, 24310);
+        deepEqual(await repo.getManyAccountCodeChanges(), []);
+      });
+    });
+
+    describe('deactivateAccount', function () {
+      beforeEach(async function () {
+        await repo.addAccount(25100, 'Petty Cash Group', 'debit');
+        await repo.addAccount(25110, 'Petty Cash Old', 'debit');
+        await repo.addAccount(25120, 'Petty Cash New', 'debit');
+        await repo.addAccount(25200, 'Owner Capital Close', 'credit');
+        await repo.setControlAccount(25110, 25100);
+        await repo.setControlAccount(25120, 25100);
+        const ref = await repo.draftJournalEntry({
+          entryTime: 1000,
+          lines: [
+            { accountCode: 25110, debit: 75, credit: 0 },
+            { accountCode: 25200, debit: 0, credit: 75 },
+          ],
+        });
+        await repo.postJournalEntry(ref, 1000);
+      });
+
+      it('should refuse a non-zero balance, active sub-accounts and drafts', async function () {
+        await rejects(repo.deactivateAccount(25110), /Account 25110 "Petty Cash Old" has a non-zero balance of 75/);
+        await rejects(repo.updateAccount(25110, { name: 'Petty Cash Closed', deactivate: true }), /non-zero balance/);
+        strictEqual((await repo.getAccountByCode(25110))?.name, 'Petty Cash Old');
+
+        await rejects(repo.deactivateAccount(25100), /Account 25100 "Petty Cash Group" has active sub-accounts: 25110, 25120/);
+
+        const draftRef = await repo.draftJournalEntry({
+          entryTime: 2000,
+          lines: [
+            { accountCode: 25120, debit: 5, credit: 0 },
+            { accountCode: 25200, debit: 0, credit: 5 },
+          ],
+        });
+        await rejects(repo.deactivateAccount(25120), new RegExp(`is used by journal entry drafts: ${draftRef}`));
+      });
+
+      it('should transfer the remaining balance as part of closing', async function () {
+        const { balanceTransferJournalEntryRef } = await repo.deactivateAccount(25110, { transferBalanceToAccountCode: 25120, transferTime: 3000 });
+        assertDefined(balanceTransferJournalEntryRef);
+        const [entry] = await repo.getManyJournalEntriesByRefs([balanceTransferJournalEntryRef]);
+        strictEqual(entry.postTime, 3000);
+        strictEqual(entry.sourceType, 'System Generated');
+        deepEqual(entry.lines.map(line => [line.accountCode, line.debit, line.credit]), [[25110, 0, 75], [25120, 75, 0]]);
+
+        strictEqual(await repo.getAccountByCode(25110), null);
+        const [closed] = await repo.getManyAccounts({ accountCodes: [25110] });
+        strictEqual(closed.isActive, false);
+        strictEqual(closed.balance, 0);
+        strictEqual((await repo.getAccountByCode(25120))?.balance, 75);
+      });
+
+      it('should not transfer the balance to an inactive account', async function () {
+        await repo.deactivateAccount(25120);
+        await rejects(
+          repo.deactivateAccount(25110, { transferBalanceToAccountCode: 25120, transferTime: 3000 }),
+          /Account 25120 cannot receive the balance of account 25110, it must be another active account/,
+        );
+        const source = await repo.getAccountByCode(25110);
+        strictEqual(source?.isActive, true);
+        strictEqual(source?.balance, 75);
+        const [target] = await repo.getManyAccounts({ accountCodes: [25120] });
+        strictEqual(target.balance, 0);
+      });
+
+      it('should enforce the rules for direct updates too', async function () {
+        await rejects(repo.sql`UPDATE accounts SET is_active = 0 WHERE account_code = ${25110}`, /Cannot deactivate account with a non-zero balance/);
+        await rejects(repo.sql`UPDATE accounts SET is_active = 0 WHERE account_code = ${25100}`, /Cannot deactivate account with active child accounts/);
+        await repo.deactivateAccount(25120);
+        deepEqual(await repo.deactivateAccount(25120), { balanceTransferJournalEntryRef: null });
+      });
+    });
+
+    describe('control account roll-up', function () {
+      beforeEach(async function () {
+        await repo.addAccount(26000, 'Assets Roll-up', 'debit');
+        await repo.addAccount(26100, 'Current Assets Roll-up', 'debit');
+        await repo.addAccount(26110, 'Cash Roll-up', 'debit');
+        await repo.addAccount(26120, 'Bank Roll-up', 'debit');
+        await repo.addAccount(26200, 'Fixed Assets Roll-up', 'debit');
+        await repo.addAccount(26210, 'Equipment Roll-up', 'debit');
+        await repo.addAccount(26220, 'Accumulated Depreciation Roll-up', 'credit');
+        await repo.addAccount(26900, 'Capital Roll-up', 'credit');
+        await repo.setControlAccount(26100, 26000);
+        await repo.setControlAccount(26200, 26000);
+        await repo.setControlAccount(26110, 26100);
+        await repo.setControlAccount(26120, 26100);
+        await repo.setControlAccount(26210, 26200);
+        await repo.setControlAccount(26220, 26200);
+        await repo.SetManyAccountTags([
+          { accountCode: 26110, tag: 'Balance Sheet - Current Asset' },
+          { accountCode: 26120, tag: 'Balance Sheet - Current Asset' },
+          { accountCode: 26210, tag: 'Balance Sheet - Non-Current Asset' },
+          { accountCode: 26220, tag: 'Balance Sheet - Non-Current Asset' },
+          { accountCode: 26900, tag: 'Balance Sheet - Equity' },
+        ]);
+        const ref = await repo.draftJournalEntry({
+          entryTime: 1000,
+          lines: [
+            { accountCode: 26110, debit: 100, credit: 0 },
+            { accountCode: 26120, debit: 50, credit: 0 },
+            { accountCode: 26210, debit: 300, credit: 0 },
+            { accountCode: 26220, debit: 0, credit: 30 },
+            { accountCode: 26900, debit: 0, credit: 420 },
+          ],
+        });
+        await repo.postJournalEntry(ref, 1000);
+      });
+
+      it('should roll balances up the chart of accounts and cut it at a depth', async function () {
+        const [assets] = await repo.ViewChartOfAccounts();
+        strictEqual(assets.balance, 0);
+        strictEqual(assets.rollUpBalance, 420);
+        deepEqual(assets.children.map(child => [child.accountCode, child.rollUpBalance]), [[26100, 150], [26200, 270]]);
+
+        const [summary] = await repo.ViewChartOfAccounts({ depth: 1 });
+        strictEqual(summary.rollUpBalance, 420);
+        deepEqual(summary.children, []);
+        const [twoLevels] = await repo.ViewChartOfAccounts({ depth: 2 });
+        deepEqual(twoLevels.children.map(child => child.children.length), [0, 0]);
+      });
+
+      it('should show subtotals in the trial balance', async function () {
+        const report = await repo.getTrialBalanceAsOf(2000);
+        deepEqual(report.lines.map(line => [line.accountCode, line.depth, line.isSubtotal, line.debit, line.credit]), [
+          [26000, 0, true, 420, 0],
+          [26100, 1, true, 150, 0],
+          [26110, 2, false, 100, 0],
+          [26120, 2, false, 50, 0],
+          [26200, 1, true, 270, 0],
+          [26210, 2, false, 300, 0],
+          [26220, 2, false, 0, 30],
+          [26900, 0, false, 0, 420],
+        ]);
+
+        const summary = await repo.getTrialBalanceAsOf(2000, undefined, 1);
+        deepEqual(summary.lines.map(line => [line.accountCode, line.isSubtotal, line.debit, line.credit]), [
+          [26000, false, 420, 0],
+          [26900, false, 0, 420],
+        ]);
+      });
+
+      it('should show subtotals per balance sheet category', async function () {
+        const report = await repo.getBalanceSheetAsOf(2000);
+        deepEqual(report.lines.map(line => [line.category, line.accountCode, line.isSubtotal, line.amount]), [
+          ['Current Assets', 26000, true, 150],
+          ['Current Assets', 26100, true, 150],
+          ['Current Assets', 26110, false, 100],
+          ['Current Assets', 26120, false, 50],
+          ['Non-Current Assets', 26000, true, 270],
+          ['Non-Current Assets', 26200, true, 270],
+          ['Non-Current Assets', 26210, false, 300],
+          ['Non-Current Assets', 26220, false, 30],
+          ['Equity', 26900, false, 420],
+        ]);
+
+        const summary = await repo.getBalanceSheetAsOf(2000, undefined, 1);
+        deepEqual(summary.lines.map(line => [line.category, line.accountCode, line.amount]), [
+          ['Current Assets', 26000, 150],
+          ['Non-Current Assets', 26000, 270],
+          ['Equity', 26900, 420],
+        ]);
+      });
+    });
+
+    describe('applyChartOfAccountsTemplate', function () {
+      it('should create accounts with hierarchy and tags in one call', async function () {
+        const template = getChartOfAccountsTemplate('retail');
+        assertDefined(template);
+        const result = await repo.applyChartOfAccountsTemplate(template);
+        strictEqual(result.createdAccountCodes.length, template.accounts.length);
+        deepEqual(result.existingAccountCodes, []);
+
+        const [cash] = await repo.getManyAccountsByCodes([1110]);
+        strictEqual(cash.name, 'Cash on Hand');
+        strictEqual(cash.controlAccountCode, 1100);
+        deepEqual((await repo.getAccountsByTag('Cash Flow - Cash Equivalents', 0, 10)).map(account => account.accountCode), [1110, 1120, 1130]);
+        deepEqual((await repo.getAccountsByTag('Fiscal Year Closing - Retained Earning', 0, 10)).map(account => account.accountCode), [3200]);
+      });
+
+      it('should leave existing accounts unchanged', async function () {
+        const template = getChartOfAccountsTemplate('services');
+        assertDefined(template);
+        await repo.addAccount(1110, 'Petty Cash', 'debit');
+        const result = await repo.applyChartOfAccountsTemplate(template);
+        deepEqual(result.existingAccountCodes, [1110]);
+        strictEqual((await repo.getAccountByCode(1110))?.name, 'Petty Cash');
+        deepEqual(await repo.applyChartOfAccountsTemplate(template), {
+          createdAccountCodes: [],
+          existingAccountCodes: template.accounts.map(account => account.accountCode),
+        });
+      });
+
+      it('should create nothing when an existing account has another normal balance', async function () {
+        const template = getChartOfAccountsTemplate('sak-emkm');
+        assertDefined(template);
+        await repo.addAccount(3300, 'Owner Drawing', 'credit');
+        await rejects(repo.applyChartOfAccountsTemplate(template), /Account 3300 "Owner Drawing" already exists with a credit normal balance/);
+        deepEqual((await repo.getManyAccounts()).map(account => account.accountCode), [3300]);
+      });
+    });
+
+    describe('transaction', function () {
+      it('should commit all statements when fn resolves', async function () {
+        const result = await repo.transaction(async function () {
+          await repo.addAccount(11000, 'Cash Tx', 'debit');
+          await repo.addAccount(12000, 'Revenue Tx', 'credit');
+          return 'done';
+        });
+        strictEqual(result, 'done');
+        strictEqual((await repo.getAccountByCode(11000))?.name, 'Cash Tx');
+        strictEqual((await repo.getAccountByCode(12000))?.name, 'Revenue Tx');
+      });
+
+      it('should roll back all statements when fn throws', async function () {
+        await rejects(repo.transaction(async function () {
+          await repo.addAccount(11100, 'Cash Rollback', 'debit');
+          throw new Error('Abort transaction');
+        }), /Abort transaction/);
+        strictEqual(await repo.getAccountByCode(11100), null);
+      });
+
+      it('should roll back only the nested transaction when it throws', async function () {
+        await repo.transaction(async function () {
+          await repo.addAccount(11200, 'Outer Account', 'debit');
+          await rejects(repo.transaction(async function () {
+            await repo.addAccount(11300, 'Inner Account', 'debit');
+            throw new Error('Abort nested transaction');
+          }), /Abort nested transaction/);
+        });
+        strictEqual((await repo.getAccountByCode(11200))?.name, 'Outer Account');
+        strictEqual(await repo.getAccountByCode(11300), null);
+      });
+
+      it('should not leave a journal entry header behind when a line fails', async function () {
+        await repo.addAccount(11400, 'Cash Atomic', 'debit');
+
+        await rejects(repo.draftJournalEntry({
+          entryTime: Date.now(),
+          description: 'Entry with missing account',
+          lines: [
+            { accountCode: 11400, debit: 100, credit: 0 },
+            { accountCode: 99999, debit: 0, credit: 100 },
+          ],
+        }));
+
+        const rows = await repo.sqlQuery('SELECT COUNT(*) AS count FROM journal_entries WHERE note = ?', ['Entry with missing account']);
+        strictEqual((rows[0] as any).count, 0);
+      });
+
+      it('should isolate concurrent transactions from each other', async function () {
+        await Promise.all([
+          repo.transaction(async function () {
+            await repo.addAccount(11500, 'Concurrent Committed', 'debit');
+          }),
+          rejects(repo.transaction(async function () {
+            await repo.addAccount(11600, 'Concurrent Rolled Back', 'debit');
+            throw new Error('Abort concurrent transaction');
+          })),
+          repo.addAccount(11700, 'Outside Transaction', 'debit'),
+        ]);
+        strictEqual((await repo.getAccountByCode(11500))?.name, 'Concurrent Committed');
+        strictEqual(await repo.getAccountByCode(11600), null);
+        strictEqual((await repo.getAccountByCode(11700))?.name, 'Outside Transaction');
+      });
+    });
+
     describe('deleteManyJournalEntryDrafts and ReverseJournalEntry', function () {
       it('should delete multiple draft journal entries', async function () {
         // Create accounts
@@ -1,4 +1,7 @@
-import { assertPropNullableNumber, assertPropNumber, assertPropString } from '@app/tools/assertion.js';
+import { assertValidAccountTag, CUSTOM_ACCOUNT_TAG_PREFIX } from '@app/data/account-tags.js';
+import type { ChartOfAccountsTemplate } from '@app/data/chart-of-accounts-templates.js';
+import { loadSchemaMigrations, type SchemaMigration, splitMigrationStatements } from '@app/data/schema-migrations.js';
+import { assertDefined, assertPropNullableNumber, assertPropNumber, assertPropString } from '@app/tools/assertion.js';
 
 export type UserConfig = {
   businessName: string | null;
@@ -27,6 +30,8 @@ type AccountInput = {
 
 type ChartOfAccountQuery = {
   includeInactive?: boolean;
+  /** Levels of the hierarchy to return, e.g. 1 for top-level accounts only. Roll-up balances still cover all descendants. */
+  depth?: number;
 };
 
 export type ChartOfAccount = {
@@ -34,6 +39,8 @@ export type ChartOfAccount = {
   name: string;
   normalBalance: 'debit' | 'credit';
   balance: number;
+  /** Balance plus the roll-up balances of all descendants, in this account's normal balance. */
+  rollUpBalance: number;
   children: ChartOfAccount[];
 }
 
@@ -42,34 +49,131 @@ type AccountTagInput = {
   tag: string;
 }
 
+export type ChartOfAccountsTemplateResult = {
+  createdAccountCodes: number[];
+  /** Accounts that already existed with the template's normal balance and were left unchanged. */
+  existingAccountCodes: number[];
+}
+
+export type AccountCodeChange = {
+  id: number;
+  changeType: 'Renumber' | 'Merge';
+  oldAccountCode: number;
+  oldAccountName: string;
+  newAccountCode: number;
+  changedAt: number;
+}
+
 type AccountUpdateParams = {
   name?: string;
   controlCode?: number | null;
   deactivate?: boolean;
+} & AccountDeactivationOptions;
+
+type AccountDeactivationOptions = {
+  /** Post the remaining balance to this account before deactivating, instead of refusing a non-zero balance. */
+  transferBalanceToAccountCode?: number;
+  /** Entry and post time of the balance transfer. Default is now. */
+  transferTime?: number;
+}
+
+export type AccountDeactivationResult = {
+  /** Journal entry that transferred the remaining balance, null when there was nothing to transfer. */
+  balanceTransferJournalEntryRef: number | null;
 }
 
 type JournalEntryLine = {
   accountCode: number;
   debit: number;
   credit: number;
+  description?: string | null;
+  reference?: string | null;
 }
 
-type DraftJournalEntryParams = {
+export type JournalEntrySourceType = 'Manual' | 'LLM Generated' | 'System Generated';
+
+/**
+ * Provenance of a journal entry. When undefined, the schema defaults apply ('Manual' created by 'User').
+ */
+type JournalEntrySource = {
+  sourceType?: JournalEntrySourceType;
+  sourceReference?: string | null;
+  createdBy?: 'User' | 'System' | 'Migration';
+}
+
+type DraftJournalEntryParams = JournalEntrySource & {
   entryTime: number;
   description?: string | null;
   lines: JournalEntryLine[];
   idempotentKey?: string | null;
 }
 
+export type OpeningBalancesInput = {
+  asOfTime: number;
+  /** Equity account, tagged 'Equity' or 'Balance Sheet - Equity', that receives the difference between the imported debit and credit balances. */
+  openingBalanceEquityAccountCode: number;
+  /** Balances are on the account's normal balance side, a negative balance is on the opposite side. */
+  balances: Array<{ accountCode: number; balance: number }>;
+}
+
+/** Idempotent key of the single opening balances journal entry. */
+export const OPENING_BALANCES_IDEMPOTENT_KEY = 'opening-balances';
+
+type JournalEntryDetailLine = {
+  lineNumber: number;
+  accountCode: number;
+  accountName: string;
+  debit: number;
+  credit: number;
+  description: string | null;
+  reference: string | null;
+}
+
+export type JournalEntry = {
+  ref: number;
+  entryTime: number;
+  description: string | null;
+  postTime: number | null;
+  idempotentKey: string | null;
+  sourceType: string | null;
+  sourceReference: string | null;
+  createdBy: string | null;
+  reversalOfRef: number | null;
+  reversedByRef: number | null;
+  lines: JournalEntryDetailLine[];
+}
+
+type JournalEntrySearchFilters = {
+  beginTime?: number;
+  endTime?: number;
+  accountCodes?: number[];
+  minAmount?: number;
+  maxAmount?: number;
+  noteContains?: string;
+  referenceContains?: string;
+  sourceTypes?: string[];
+  sourceReference?: string;
+  status?: 'posted' | 'draft' | 'reversed';
+  idempotentKey?: string;
+}
+
 type TrialBalanceReportLine = {
   accountCode: number;
   accountName: string;
   normalBalance: 'debit' | 'credit';
   debit: number;
   credit: number;
+} & AccountHierarchyLine;
+
+/** Hierarchy of report lines computed from the ledger. Stored report snapshots leave these undefined. */
+type AccountHierarchyLine = {
+  /** Level in the control account hierarchy, 0 for top-level accounts. */
+  depth?: number;
+  /** The line rolls up the lines of sub-accounts shown below it, so it is not added to totals. */
+  isSubtotal?: boolean;
 }
 
-type TrialBalanceReport = {
+export type TrialBalanceReport = {
   reportTime: number;
   reportType: string;
   name: string;
@@ -82,20 +186,417 @@ type BalanceSheetReportLine = {
   accountCode: number;
   accountName: string;
   amount: number;
-}
+} & AccountHierarchyLine;
 
-type BalanceSheetReport = {
+export type BalanceSheetReport = {
   reportTime: number;
   reportType: string;
   name: string;
   lines: BalanceSheetReportLine[];
 }
 
+type IncomeStatementQuery = {
+  fiscalYearName?: string;
+  beginTime?: number;
+  endTime?: number;
+  /** Only include accounts with this tag, e.g. a `Custom:` tag. */
+  accountTag?: string;
+};
+
+type IncomeStatementLine = {
+  classification: string;
+  category: string;
+  accountCode: number;
+  accountName: string;
+  amount: number;
+}
+
+export type IncomeStatement = {
+  name: string | null;
+  beginTime: number;
+  endTime: number;
+  lines: IncomeStatementLine[];
+  revenue: number;
+  contraRevenue: number;
+  netRevenue: number;
+  costOfGoodsSold: number;
+  grossProfit: number;
+  operatingExpenses: number;
+  operatingIncome: number;
+  otherRevenue: number;
+  otherExpenses: number;
+  netIncome: number;
+}
+
+type CashFlowStatementParams = {
+  beginTime: number;
+  endTime: number;
+  reportTime: number;
+  name?: string | null;
+}
+
+type CashFlowActivityType = 'Operating' | 'Investing' | 'Financing';
+
+type CashFlowStatementLine = {
+  activityType: CashFlowActivityType;
+  description: string;
+  amount: number;
+}
+
+type CashFlowUnclassifiedAccount = {
+  accountCode: number;
+  accountName: string;
+  amount: number;
+}
+
+export type CashFlowStatement = {
+  id: number;
+  reportTime: number;
+  beginTime: number;
+  endTime: number;
+  name: string | null;
+  lines: CashFlowStatementLine[];
+  netCashFromOperating: number;
+  netCashFromInvesting: number;
+  netCashFromFinancing: number;
+  netCashChange: number;
+  beginningCash: number;
+  endingCash: number;
+  unclassifiedAccounts: CashFlowUnclassifiedAccount[];
+}
+
+type AccountLedgerQuery = {
+  accountCode: number;
+  beginTime?: number;
+  endTime?: number;
+  sourceTypes?: JournalEntrySourceType[];
+  /** Only include the account and descendants with this tag, e.g. a `Custom:` tag. */
+  accountTag?: string;
+}
+
+type AccountLedgerLine = {
+  ref: number;
+  entryTime: number;
+  note: string | null;
+  lineNumber: number;
+  accountCode: number;
+  accountName: string;
+  debit: number;
+  credit: number;
+  description: string | null;
+  reference: string | null;
+  runningBalance: number;
+}
+
+export type AccountLedger = {
+  accountCode: number;
+  accountName: string;
+  normalBalance: 'debit' | 'credit';
+  accountCodes: number[];
+  sourceTypes: JournalEntrySourceType[] | null;
+  accountTag: string | null;
+  beginTime: number | null;
+  endTime: number | null;
+  openingBalance: number;
+  lines: AccountLedgerLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+type FiscalYearInput = {
+  beginTime: number;
+  endTime: number;
+  name: string;
+}
+
+export type FiscalYear = {
+  beginTime: number;
+  endTime: number;
+  name: string | null;
+  postTime: number | null;
+  closingJournalEntryRef: number | null;
+  isClosed: boolean;
+}
+
+export type FiscalYearClosingPreCheck = {
+  fiscalYear: FiscalYear;
+  unpostedJournalEntryRefs: number[];
+  retainedEarningAccountCode: number | null;
+  netIncome: number;
+}
+
+const CASH_FLOW_NON_CASH_TAG_DESCRIPTIONS: Record<string, string> = {
+  'Cash Flow - Non-Cash - Depreciation': 'Depreciation',
+  'Cash Flow - Non-Cash - Amortization': 'Amortization',
+  'Cash Flow - Non-Cash - Impairment': 'Impairment',
+  'Cash Flow - Non-Cash - Gain/Loss': 'Gain/Loss',
+  'Cash Flow - Non-Cash - Stock Compensation': 'Stock Compensation',
+};
+
+const CASH_FLOW_ACTIVITY_TAGS: Record<string, CashFlowActivityType> = {
+  'Cash Flow - Activity - Operating': 'Operating',
+  'Cash Flow - Activity - Investing': 'Investing',
+  'Cash Flow - Activity - Financing': 'Financing',
+};
+
+export type ReadOnlySqlOptions = {
+  /** Time budget for the statement in milliseconds. */
+  timeoutMs?: number;
+};
+
+const READ_ONLY_STATEMENT_PATTERN = /^\s*(?:(?:--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)\s*)*(?:SELECT|WITH|VALUES|EXPLAIN)\b/i;
+
+/** Called with the refs of journal entries after they are posted. */
+export type JournalEntriesPostedListener = (journalEntryRefs: number[]) => void;
+
+/** Called with the codes of accounts after they are created, changed, tagged, renumbered, merged or deactivated. */
+export type AccountsChangedListener = (accountCodes: number[]) => void;
+
+/** Called with the refs of journal entry drafts after they are created, updated or deleted. */
+export type JournalEntryDraftsChangedListener = (journalEntryRefs: number[]) => void;
+
+export type ConnectOptions = {
+  /** Leave the schema as it is, e.g. to inspect pending migrations first. Default is false. */
+  skipMigrations?: boolean;
+};
+
+export type MigrateOptions = {
+  /** Run pending migrations in one transaction and roll it back. Default is false. */
+  dryRun?: boolean;
+  /** Migrations to apply instead of the bundled migration files. */
+  migrations?: SchemaMigration[];
+};
+
+class DryRunRollback extends Error {}
+
+type AccountHierarchyNode = {
+  accountCode: number;
+  name: string;
+  normalBalance: 'debit' | 'credit';
+  controlAccountCode: number | null;
+}
+
+type AccountRollUpLine = {
+  accountCode: number;
+  depth: number;
+  /** Own amount plus the amounts of all descendants, in the account's normal balance. */
+  amount: number;
+  isSubtotal: boolean;
+}
+
+/**
+ * Roll amounts up the control account hierarchy in depth-first order. Amounts are in each account's own normal balance,
+ * ancestors of the given accounts are added as subtotal lines, and accounts below maxDepth levels fold into their ancestor.
+ */
+function rollUpAccountAmounts(accounts: Map<number, AccountHierarchyNode>, amounts: Map<number, number>, maxDepth?: number): AccountRollUpLine[] {
+  const includedAccountCodes = new Set<number>();
+  for (const accountCode of amounts.keys()) {
+    let current: number | null = accountCode;
+    while (current !== null && !includedAccountCodes.has(current)) {
+      includedAccountCodes.add(current);
+      current = accounts.get(current)?.controlAccountCode ?? null;
+    }
+  }
+
+  const childAccountCodes = new Map<number | null, number[]>();
+  for (const accountCode of [...includedAccountCodes].sort((a, b) => a - b)) {
+    const controlAccountCode = accounts.get(accountCode)?.controlAccountCode ?? null;
+    const siblings = childAccountCodes.get(controlAccountCode) ?? [];
+    siblings.push(accountCode);
+    childAccountCodes.set(controlAccountCode, siblings);
+  }
+
+  const isShown = function (depth: number) {
+    return maxDepth === undefined || depth < maxDepth;
+  };
+  const lines: AccountRollUpLine[] = [];
+  const visit = function (accountCode: number, depth: number): number {
+    const children = childAccountCodes.get(accountCode) ?? [];
+    const line: AccountRollUpLine = { accountCode, depth, amount: 0, isSubtotal: children.length > 0 && isShown(depth + 1) };
+    if (isShown(depth)) {
+      lines.push(line);
+    }
+    const normalBalance = accounts.get(accountCode)?.normalBalance;
+    line.amount = amounts.get(accountCode) ?? 0;
+    for (const childAccountCode of children) {
+      const childAmount = visit(childAccountCode, depth + 1);
+      // A contra account below its control account, e.g. accumulated depreciation, reduces the subtotal
+      line.amount += accounts.get(childAccountCode)?.normalBalance === normalBalance ? childAmount : -childAmount;
+    }
+    return line.amount;
+  };
+  for (const accountCode of childAccountCodes.get(null) ?? []) {
+    visit(accountCode, 0);
+  }
+  return lines;
+}
+
+function toAccountCodeChange(row: unknown): AccountCodeChange {
+  assertPropNumber(row, 'id', 'Account code change id is not a number');
+  assertPropString(row, 'change_type', 'Account code change type is not a string');
+  assertPropNumber(row, 'old_account_code', 'Account code change old_account_code is not a number');
+  assertPropString(row, 'old_account_name', 'Account code change old_account_name is not a string');
+  assertPropNumber(row, 'new_account_code', 'Account code change new_account_code is not a number');
+  assertPropNumber(row, 'changed_at', 'Account code change changed_at is not a number');
+  return {
+    id: row.id,
+    changeType: row.change_type === 'Merge' ? 'Merge' : 'Renumber',
+    oldAccountCode: row.old_account_code,
+    oldAccountName: row.old_account_name,
+    newAccountCode: row.new_account_code,
+    changedAt: row.changed_at,
+  };
+}
+
 export abstract class AccountingRepository {
-  abstract connect(): Promise<void>;
+  #journalEntriesPostedListeners = new Set<JournalEntriesPostedListener>();
+  #accountsChangedListeners = new Set<AccountsChangedListener>();
+  #journalEntryDraftsChangedListeners = new Set<JournalEntryDraftsChangedListener>();
+
+  /**
+   * Open the database and, unless skipMigrations is set, apply pending schema migrations.
+   */
+  abstract connect(options?: ConnectOptions): Promise<void>;
   abstract close(): Promise<void>;
   abstract sql<T extends unknown>(query: TemplateStringsArray, ...params: unknown[]): Promise<Array<T>>;
   abstract rawSql<T extends unknown>(query: string, params?: unknown[]): Promise<Array<T>>;
+  /**
+   * Run a single statement on a connection the database itself keeps from writing.
+   * When timeoutMs is given, the statement should be stopped once it runs longer than that.
+   */
+  protected abstract rawReadOnlySql<T extends unknown>(query: string, params?: unknown[], timeoutMs?: number): Promise<Array<T>>;
+  /**
+   * Run fn atomically. All statements issued while fn runs are committed together or rolled back when fn throws.
+   * Nested calls are allowed and roll back only their own statements.
+   */
+  abstract transaction<T>(fn: () => Promise<T>): Promise<T>;
+
+  /**
+   * Apply pending schema migrations in version order, each in its own transaction, and record them in schema_migrations.
+   * A migration that leaves foreign key violations is rolled back. Returns the migrations that were (or with dryRun, would be) applied.
+   */
+  async migrate(options: MigrateOptions = {}): Promise<SchemaMigration[]> {
+    const migrations = options.migrations ?? await loadSchemaMigrations();
+    const applyPendingMigrations = async () => {
+      await this.sql`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at INTEGER NOT NULL
+        ) STRICT
+      `;
+      const appliedMigrations: SchemaMigration[] = [];
+      for (const migration of migrations) {
+        const applied = await this.transaction(async () => {
+          const existing = await this.sql`SELECT version FROM schema_migrations WHERE version = ${migration.version}`;
+          if (existing.length > 0) {
+            return false;
+          }
+          for (const statement of splitMigrationStatements(migration.script)) {
+            await this.rawSql(statement);
+          }
+          const violations = await this.sql`PRAGMA foreign_key_check`;
+          if (violations.length > 0) {
+            throw new Error(`Migration ${migration.version} ${migration.name} leaves ${violations.length} foreign key violations`);
+          }
+          await this.sql`
+            INSERT INTO schema_migrations (version, name, applied_at)
+            VALUES (${migration.version}, ${migration.name}, ${Date.now()})
+          `;
+          return true;
+        });
+        if (applied) {
+          appliedMigrations.push(migration);
+        }
+      }
+      return appliedMigrations;
+    };
+
+    if (options.dryRun !== true) {
+      return await applyPendingMigrations();
+    }
+    let pendingMigrations: SchemaMigration[] = [];
+    try {
+      await this.transaction(async function () {
+        pendingMigrations = await applyPendingMigrations();
+        throw new DryRunRollback();
+      });
+    }
+    catch (error) {
+      if (!(error instanceof DryRunRollback)) {
+        throw error;
+      }
+    }
+    return pendingMigrations;
+  }
+
+  /**
+   * Run a SELECT, WITH, VALUES or EXPLAIN statement that is rejected by the database when it tries to write.
+   */
+  async readOnlySql<T extends unknown>(query: string, params?: unknown[], options: ReadOnlySqlOptions = {}): Promise<Array<T>> {
+    if (!READ_ONLY_STATEMENT_PATTERN.test(query)) {
+      throw new Error('Only SELECT, WITH, VALUES and EXPLAIN statements are allowed in read-only mode');
+    }
+    return this.rawReadOnlySql<T>(query, params, options.timeoutMs);
+  }
+
+  /**
+   * Listen for journal entries posted through this repository, including fiscal year closing entries.
+   * Returns a function that removes the listener.
+   */
+  onJournalEntriesPosted(listener: JournalEntriesPostedListener): () => void {
+    this.#journalEntriesPostedListeners.add(listener);
+    return () => {
+      this.#journalEntriesPostedListeners.delete(listener);
+    };
+  }
+
+  #notifyJournalEntriesPosted(journalEntryRefs: number[]) {
+    for (const listener of this.#journalEntriesPostedListeners) {
+      listener(journalEntryRefs);
+    }
+  }
+
+  /**
+   * Listen for accounts changed through this repository. Balance changes are reported by onJournalEntriesPosted.
+   * Returns a function that removes the listener.
+   */
+  onAccountsChanged(listener: AccountsChangedListener): () => void {
+    this.#accountsChangedListeners.add(listener);
+    return () => {
+      this.#accountsChangedListeners.delete(listener);
+    };
+  }
+
+  #notifyAccountsChanged(accountCodes: number[]) {
+    if (accountCodes.length === 0) {
+      return;
+    }
+    for (const listener of this.#accountsChangedListeners) {
+      listener(accountCodes);
+    }
+  }
+
+  /**
+   * Listen for journal entry drafts created, updated or deleted through this repository. Posting is reported by onJournalEntriesPosted.
+   * Returns a function that removes the listener.
+   */
+  onJournalEntryDraftsChanged(listener: JournalEntryDraftsChangedListener): () => void {
+    this.#journalEntryDraftsChangedListeners.add(listener);
+    return () => {
+      this.#journalEntryDraftsChangedListeners.delete(listener);
+    };
+  }
+
+  #notifyJournalEntryDraftsChanged(journalEntryRefs: number[]) {
+    if (journalEntryRefs.length === 0) {
+      return;
+    }
+    for (const listener of this.#journalEntryDraftsChangedListeners) {
+      listener(journalEntryRefs);
+    }
+  }
 
   async getUserConfig() {
     const result = await this.sql`
@@ -149,25 +650,27 @@ export abstract class AccountingRepository {
   }
 
   async setUserConfig(config: UserConfig): Promise<void> {
-    const now = Date.now();
-    if (config.businessName !== undefined) {
-      await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Business Name', ${config.businessName}, ${now}, ${now})`;
-    }
-    if (config.businessType !== undefined) {
-      await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Business Type', ${config.businessType}, ${now}, ${now})`;
-    }
-    if (config.currencyCode !== undefined) {
-      await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Currency Code', ${config.currencyCode}, ${now}, ${now})`;
-    }
-    if (config.currencyDecimalPlaces !== undefined) {
-      await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Currency Decimals', ${config.currencyDecimalPlaces}, ${now}, ${now})`;
-    }
-    if (config.locale !== undefined) {
-      await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Locale', ${config.locale}, ${now}, ${now})`;
-    }
-    if (config.fiscalYearStartMonth !== undefined) {
-      await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Fiscal Year Start Month', ${config.fiscalYearStartMonth}, ${now}, ${now})`;
-    }
+    await this.transaction(async () => {
+      const now = Date.now();
+      if (config.businessName !== undefined) {
+        await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Business Name', ${config.businessName}, ${now}, ${now})`;
+      }
+      if (config.businessType !== undefined) {
+        await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Business Type', ${config.businessType}, ${now}, ${now})`;
+      }
+      if (config.currencyCode !== undefined) {
+        await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Currency Code', ${config.currencyCode}, ${now}, ${now})`;
+      }
+      if (config.currencyDecimalPlaces !== undefined) {
+        await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Currency Decimals', ${config.currencyDecimalPlaces}, ${now}, ${now})`;
+      }
+      if (config.locale !== undefined) {
+        await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Locale', ${config.locale}, ${now}, ${now})`;
+      }
+      if (config.fiscalYearStartMonth !== undefined) {
+        await this.sql`INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at) VALUES ('Fiscal Year Start Month', ${config.fiscalYearStartMonth}, ${now}, ${now})`;
+      }
+    });
   }
 
   /**
@@ -175,46 +678,129 @@ export abstract class AccountingRepository {
    * The normalBalance and controlAccountCode are optional and nullable. When undefined then ignored, when null then set to null.
    */
   async ensureManyAccounts(accounts: AccountInput[]): Promise<void> {
-    for (const account of accounts) {
-      if (account.normalBalance !== undefined && account.controlAccountCode !== undefined) {
-        await this.sql`INSERT INTO accounts (account_code, name, normal_balance, control_account_code, is_active, created_at, updated_at) VALUES (${account.accountCode}, ${account.name}, ${account.normalBalance === 'debit' ? 0 : 1}, ${account.controlAccountCode ? account.controlAccountCode.accountCode : null}, ${1}, ${0}, ${0}) ON CONFLICT(account_code) DO NOTHING`;
-      } else if (account.normalBalance !== undefined) {
-        await this.sql`INSERT INTO accounts (account_code, name, normal_balance, is_active, created_at, updated_at) VALUES (${account.accountCode}, ${account.name}, ${account.normalBalance === 'debit' ? 0 : 1}, ${1}, ${0}, ${0}) ON CONFLICT(account_code) DO NOTHING`;
-      } else if (account.controlAccountCode !== undefined) {
-        await this.sql`INSERT INTO accounts (account_code, name, control_account_code, is_active, created_at, updated_at) VALUES (${account.accountCode}, ${account.name}, ${account.controlAccountCode ? account.controlAccountCode.accountCode : null}, ${1}, ${0}, ${0}) ON CONFLICT(account_code) DO NOTHING`;
-      } else {
-        await this.sql`INSERT INTO accounts (account_code, name, is_active, created_at, updated_at) VALUES (${account.accountCode}, ${account.name}, ${1}, ${0}, ${0}) ON CONFLICT(account_code) DO NOTHING`;
+    await this.transaction(async () => {
+      for (const account of accounts) {
+        if (account.normalBalance !== undefined && account.controlAccountCode !== undefined) {
+          await this.sql`INSERT INTO accounts (account_code, name, normal_balance, control_account_code, is_active, created_at, updated_at) VALUES (${account.accountCode}, ${account.name}, ${account.normalBalance === 'debit' ? 0 : 1}, ${account.controlAccountCode ? account.controlAccountCode.accountCode : null}, ${1}, ${0}, ${0}) ON CONFLICT(account_code) DO NOTHING`;
+        } else if (account.normalBalance !== undefined) {
+          await this.sql`INSERT INTO accounts (account_code, name, normal_balance, is_active, created_at, updated_at) VALUES (${account.accountCode}, ${account.name}, ${account.normalBalance === 'debit' ? 0 : 1}, ${1}, ${0}, ${0}) ON CONFLICT(account_code) DO NOTHING`;
+        } else if (account.controlAccountCode !== undefined) {
+          await this.sql`INSERT INTO accounts (account_code, name, control_account_code, is_active, created_at, updated_at) VALUES (${account.accountCode}, ${account.name}, ${account.controlAccountCode ? account.controlAccountCode.accountCode : null}, ${1}, ${0}, ${0}) ON CONFLICT(account_code) DO NOTHING`;
+        } else {
+          await this.sql`INSERT INTO accounts (account_code, name, is_active, created_at, updated_at) VALUES (${account.accountCode}, ${account.name}, ${1}, ${0}, ${0}) ON CONFLICT(account_code) DO NOTHING`;
+        }
       }
-    }
+    });
+    this.#notifyAccountsChanged(accounts.map(account => account.accountCode));
   }
 
   async addAccount(accountCode: number, name: string, normalBalance: 'debit' | 'credit'): Promise<void> {
     await this.sql`INSERT INTO accounts (account_code, name, normal_balance, is_active, created_at, updated_at) VALUES (${accountCode}, ${name}, ${normalBalance === 'debit' ? 0 : 1}, ${1}, ${0}, ${0})`;
+    this.#notifyAccountsChanged([accountCode]);
   }
 
   async setAccountName(accountCode: number, name: string): Promise<void> {
     await this.sql`UPDATE accounts SET name = ${name} WHERE account_code = ${accountCode}`;
+    this.#notifyAccountsChanged([accountCode]);
   }
 
   async setControlAccount(accountCode: number, controlAccountCode: number): Promise<void> {
     await this.sql`UPDATE accounts SET control_account_code = ${controlAccountCode} WHERE account_code = ${accountCode}`;
+    this.#notifyAccountsChanged([accountCode]);
   }
 
-  async updateAccount(accountCode: number, updates?: AccountUpdateParams): Promise<void> {
-    await this.sql`
-      UPDATE accounts SET
-        name = COALESCE(${updates?.name}, name),
-        control_account_code = CASE
-          WHEN ${updates?.controlCode} IS NOT NULL THEN ${updates?.controlCode}
-          ELSE control_account_code
-        END,
-        is_active = CASE
-          WHEN ${updates?.deactivate} = TRUE THEN 0
-          WHEN ${updates?.deactivate} = FALSE THEN 1
-          ELSE is_active
-        END
-      WHERE account_code = ${accountCode}
-    `;
+  async updateAccount(accountCode: number, updates?: AccountUpdateParams): Promise<AccountDeactivationResult> {
+    const result = await this.transaction(async () => {
+      await this.sql`
+        UPDATE accounts SET
+          name = COALESCE(${updates?.name}, name),
+          control_account_code = CASE
+            WHEN ${updates?.controlCode} IS NOT NULL THEN ${updates?.controlCode}
+            ELSE control_account_code
+          END,
+          is_active = CASE
+            WHEN ${updates?.deactivate} = FALSE THEN 1
+            ELSE is_active
+          END
+        WHERE account_code = ${accountCode}
+      `;
+      if (updates?.deactivate === true) {
+        return await this.deactivateAccount(accountCode, updates);
+      }
+      return { balanceTransferJournalEntryRef: null };
+    });
+    // deactivateAccount reports its own change
+    if (updates?.deactivate !== true) {
+      this.#notifyAccountsChanged([accountCode]);
+    }
+    return result;
+  }
+
+  /**
+   * Close an account. Refuses while the account has a non-zero balance, active sub-accounts or journal entry drafts,
+   * unless the remaining balance is transferred to another account as part of closing.
+   */
+  async deactivateAccount(accountCode: number, options: AccountDeactivationOptions = {}): Promise<AccountDeactivationResult> {
+    const balanceTransferJournalEntryRef = await this.transaction(async () => {
+      const [account] = await this.getManyAccounts({ accountCodes: [accountCode] });
+      if (account === undefined) {
+        throw new Error(`Account ${accountCode} does not exist`);
+      }
+      if (!account.isActive) {
+        return null;
+      }
+
+      const activeChildren = await this.sql<{ account_code: number }>`
+        SELECT account_code FROM accounts WHERE control_account_code = ${accountCode} AND is_active = 1 ORDER BY account_code
+      `;
+      if (activeChildren.length > 0) {
+        throw new Error(`Account ${accountCode} "${account.name}" has active sub-accounts: ${activeChildren.map(row => row.account_code).join(', ')}. Deactivate or move them first`);
+      }
+      const drafts = await this.sql<{ ref: number }>`
+        SELECT DISTINCT je.ref
+        FROM journal_entry_lines jel
+        JOIN journal_entries je ON je.ref = jel.journal_entry_ref
+        WHERE jel.account_code = ${accountCode} AND je.post_time IS NULL
+        ORDER BY je.ref
+      `;
+      if (drafts.length > 0) {
+        throw new Error(`Account ${accountCode} "${account.name}" is used by journal entry drafts: ${drafts.map(row => row.ref).join(', ')}. Post or delete them first`);
+      }
+
+      let transferRef: number | null = null;
+      if (account.balance !== 0) {
+        if (options.transferBalanceToAccountCode === undefined) {
+          throw new Error(`Account ${accountCode} "${account.name}" has a non-zero balance of ${account.balance}. Transfer it to another account to close the account`);
+        }
+        const [target] = await this.getManyAccounts({ accountCodes: [options.transferBalanceToAccountCode] });
+        if (target === undefined || target.accountCode === accountCode || !target.isActive) {
+          throw new Error(`Account ${options.transferBalanceToAccountCode} cannot receive the balance of account ${accountCode}, it must be another active account`);
+        }
+        // A positive balance is on the normal balance side, the closing line takes the opposite side
+        const closesWithCredit = (account.normalBalance === 'debit') === (account.balance > 0);
+        const amount = Math.abs(account.balance);
+        const transferTime = options.transferTime ?? Date.now();
+        transferRef = await this.insertJournalEntryDraft({
+          entryTime: transferTime,
+          description: `Balance transfer to close account ${accountCode} "${account.name}"`,
+          lines: [
+            { accountCode, debit: closesWithCredit ? 0 : amount, credit: closesWithCredit ? amount : 0 },
+            { accountCode: target.accountCode, debit: closesWithCredit ? amount : 0, credit: closesWithCredit ? 0 : amount },
+          ],
+          sourceType: 'System Generated',
+          createdBy: 'System',
+        });
+        await this.sql`UPDATE journal_entries SET post_time = ${transferTime} WHERE ref = ${transferRef}`;
+      }
+
+      await this.sql`UPDATE accounts SET is_active = 0 WHERE account_code = ${accountCode}`;
+      return transferRef;
+    });
+    this.#notifyAccountsChanged([accountCode]);
+    if (balanceTransferJournalEntryRef !== null) {
+      this.#notifyJournalEntriesPosted([balanceTransferJournalEntryRef]);
+    }
+    return { balanceTransferJournalEntryRef };
   }
 
   async ViewChartOfAccounts(query?: ChartOfAccountQuery): Promise<ChartOfAccount[]> {
@@ -249,6 +835,7 @@ export abstract class AccountingRepository {
         name: row.name,
         normalBalance: row.normal_balance === 0 ? 'debit' : 'credit',
         balance: row.balance,
+        rollUpBalance: row.balance,
         children: [],
       };
       nodeMap.set(row.account_code, node);
@@ -276,9 +863,42 @@ export abstract class AccountingRepository {
       }
     }
 
+    // Roll balances up from the deepest accounts, then cut the tree at the requested depth
+    const rollUp = function (node: ChartOfAccount, depth: number): number {
+      for (const child of node.children) {
+        const childRollUpBalance = rollUp(child, depth + 1);
+        node.rollUpBalance += child.normalBalance === node.normalBalance ? childRollUpBalance : -childRollUpBalance;
+      }
+      if (query?.depth !== undefined && depth + 1 >= query.depth) {
+        node.children = [];
+      }
+      return node.rollUpBalance;
+    };
+    for (const root of roots) {
+      rollUp(root, 0);
+    }
+
     return roots;
   }
 
+  private async getAccountHierarchy(): Promise<Map<number, AccountHierarchyNode>> {
+    const rows = await this.sql`SELECT account_code, name, normal_balance, control_account_code FROM accounts`;
+    const accounts = new Map<number, AccountHierarchyNode>();
+    for (const row of rows) {
+      assertPropNumber(row, 'account_code', 'Account account_code is not a number');
+      assertPropString(row, 'name', 'Account name is not a string');
+      assertPropNumber(row, 'normal_balance', 'Account normal_balance is not a number');
+      assertPropNullableNumber(row, 'control_account_code', 'Account control_account_code is not a number');
+      accounts.set(row.account_code, {
+        accountCode: row.account_code,
+        name: row.name,
+        normalBalance: row.normal_balance === 0 ? 'debit' : 'credit',
+        controlAccountCode: row.control_account_code,
+      });
+    }
+    return accounts;
+  }
+
   private async getManyAccountsByCodesOrNames(codesOrNames: Array<number | string>): Promise<Account[]> {
     if (codesOrNames.length === 0) {
       return [];
@@ -460,11 +1080,14 @@ export abstract class AccountingRepository {
   }
 
   async setAccountTag(accountCode: number, tag: string): Promise<void> {
+    assertValidAccountTag(tag);
     await this.sql`INSERT OR REPLACE INTO account_tags (account_code, tag) VALUES (${accountCode}, ${tag})`;
+    this.#notifyAccountsChanged([accountCode]);
   }
 
   async unsetAccountTag(accountCode: number, tag: string): Promise<void> {
     await this.sql`DELETE FROM account_tags WHERE account_code = ${accountCode} AND tag = ${tag}`;
+    this.#notifyAccountsChanged([accountCode]);
   }
 
   async getManyAccountsByOneOfManyTags(tags: string[], offset: number, limit: number): Promise<Account[]> {
@@ -505,131 +1128,560 @@ export abstract class AccountingRepository {
   }
 
   async SetManyAccountTags(input: Array<AccountTagInput>): Promise<void> {
-    for (const item of input) {
-      try {
-        await this.sql`INSERT OR REPLACE INTO account_tags (account_code, tag) VALUES (${item.accountCode}, ${item.tag})`;
-      } catch (error) {
-        throw new Error(`Failed to set tag '${item.tag}' for account ${item.accountCode}: ${error}`);
+    await this.transaction(async () => {
+      for (const item of input) {
+        assertValidAccountTag(item.tag);
+        try {
+          await this.sql`INSERT OR REPLACE INTO account_tags (account_code, tag) VALUES (${item.accountCode}, ${item.tag})`;
+        } catch (error) {
+          throw new Error(`Failed to set tag '${item.tag}' for account ${item.accountCode}: ${error}`);
+        }
       }
-    }
-  }
-
-  async UnsetManyAccountTags(input: Array<AccountTagInput>): Promise<void> {
-    for (const item of input) {
-      await this.sql`DELETE FROM account_tags WHERE account_code = ${item.accountCode} AND tag = ${item.tag}`;
-    }
+    });
+    this.#notifyAccountsChanged([...new Set(input.map(item => item.accountCode))]);
   }
 
-  async getExistingJournalEntryByIdempotentKey(idempotentKey: string): Promise<number | null> {
-    const result = await this.sql<{ ref: number }>`
-      SELECT ref FROM journal_entries WHERE idempotent_key = ${idempotentKey}
+  /** Distinct custom tags in use, e.g. `Custom:Branch Jakarta`. */
+  async getManyCustomAccountTags(): Promise<string[]> {
+    const result = await this.sql`
+      SELECT DISTINCT tag FROM account_tags
+      WHERE substr(tag, 1, ${CUSTOM_ACCOUNT_TAG_PREFIX.length}) = ${CUSTOM_ACCOUNT_TAG_PREFIX}
+      ORDER BY tag
     `;
-    if (result.length === 0) {
-      return null;
-    }
-    assertPropNumber(result[0], 'ref', 'Journal entry ref is not a number');
-    return result[0].ref;
+    return result.map(function (row) {
+      assertPropString(row, 'tag', 'Account tag is not a string');
+      return row.tag;
+    });
   }
 
-  async draftJournalEntry(params: DraftJournalEntryParams): Promise<number> {
-    // Check if an entry with the same idempotent key already exists
-    if (params.idempotentKey) {
-      const existingEntry = await this.sql<{ ref: number }>`
-        SELECT ref FROM journal_entries WHERE idempotent_key = ${params.idempotentKey}
-      `;
-      if (existingEntry.length > 0) {
-        assertPropNumber(existingEntry[0], 'ref', 'Journal entry ref is not a number');
-        return existingEntry[0].ref;
+  async UnsetManyAccountTags(input: Array<AccountTagInput>): Promise<void> {
+    await this.transaction(async () => {
+      for (const item of input) {
+        await this.sql`DELETE FROM account_tags WHERE account_code = ${item.accountCode} AND tag = ${item.tag}`;
       }
-    }
+    });
+    this.#notifyAccountsChanged([...new Set(input.map(item => item.accountCode))]);
+  }
 
-    const result = await this.sql<{ ref: number }>`
-      INSERT INTO journal_entries (entry_time, note, post_time, idempotent_key)
-      VALUES (${params.entryTime}, ${params.description || null}, NULL, ${params.idempotentKey || null})
-      RETURNING ref
-    `;
-    if (result.length === 0) {
-      throw new Error('Failed to create journal entry');
-    }
-    const journalEntryId = result[0].ref;
-    for (const line of params.lines) {
-      // use the auto-numbering view to insert lines and let the DB assign line_number
-      await this.sql`
-        INSERT INTO journal_entry_lines_auto_number (journal_entry_ref, account_code, debit, credit)
-        VALUES (${journalEntryId}, ${line.accountCode}, ${line.debit}, ${line.credit})
-      `;
+  /**
+   * Create the accounts of a chart of accounts template with their control accounts and tags in one transaction.
+   * Accounts that already exist with the same normal balance are left unchanged; a different normal balance aborts.
+   */
+  async applyChartOfAccountsTemplate(template: ChartOfAccountsTemplate): Promise<ChartOfAccountsTemplateResult> {
+    const result = await this.transaction(async () => {
+      const existingAccounts = await this.getManyAccounts({ accountCodes: template.accounts.map(account => account.accountCode) });
+      const createdAccountCodes: number[] = [];
+      const existingAccountCodes: number[] = [];
+      for (const account of template.accounts) {
+        const existingAccount = existingAccounts.find(existing => existing.accountCode === account.accountCode);
+        if (existingAccount !== undefined) {
+          if (existingAccount.normalBalance !== account.normalBalance) {
+            throw new Error(`Account ${account.accountCode} "${existingAccount.name}" already exists with a ${existingAccount.normalBalance} normal balance, but template ${template.id} expects ${account.normalBalance}`);
+          }
+          existingAccountCodes.push(account.accountCode);
+          continue;
+        }
+        try {
+          await this.sql`
+            INSERT INTO accounts (account_code, name, normal_balance, control_account_code, is_active, created_at, updated_at)
+            VALUES (${account.accountCode}, ${account.name}, ${account.normalBalance === 'debit' ? 0 : 1}, ${account.controlAccountCode ?? null}, ${1}, ${0}, ${0})
+          `;
+        } catch (error) {
+          throw new Error(`Failed to create account ${account.accountCode} "${account.name}": ${error}`);
+        }
+        for (const tag of account.tags) {
+          assertValidAccountTag(tag);
+          await this.sql`INSERT OR REPLACE INTO account_tags (account_code, tag) VALUES (${account.accountCode}, ${tag})`;
+        }
+        createdAccountCodes.push(account.accountCode);
+      }
+      return { createdAccountCodes, existingAccountCodes };
+    });
+    this.#notifyAccountsChanged(result.createdAccountCodes);
+    return result;
+  }
+
+  /**
+   * Move an account to a new, unused account code. Journal entry lines (posted ones included), tags,
+   * report lines and sub-accounts follow the account. The mapping is kept in account_code_changes.
+   */
+  async renumberAccount(accountCode: number, newAccountCode: number): Promise<AccountCodeChange> {
+    const change = await this.transaction(async () => {
+      const accounts = await this.getManyAccounts({ accountCodes: [accountCode, newAccountCode] });
+      const account = accounts.find(account => account.accountCode === accountCode);
+      if (account === undefined) {
+        throw new Error(`Account ${accountCode} does not exist`);
+      }
+      const existingAccount = accounts.find(account => account.accountCode === newAccountCode);
+      if (existingAccount !== undefined) {
+        throw new Error(`Account ${newAccountCode} "${existingAccount.name}" already exists. Merge the accounts instead`);
+      }
+
+      const change = await this.recordAccountCodeChange('Renumber', account, newAccountCode);
+      // Account names are unique, so the old account gives up its name before the new account takes it
+      await this.sql`UPDATE accounts SET name = ${`${account.name} (renumbered to ${newAccountCode})`} WHERE account_code = ${accountCode}`;
+      await this.sql`
+        INSERT INTO accounts (account_code, name, normal_balance, balance, is_active, control_account_code, created_at, updated_at)
+        SELECT ${newAccountCode}, ${account.name}, normal_balance, balance, is_active, control_account_code, created_at, ${change.changedAt}
+        FROM accounts
+        WHERE account_code = ${accountCode}
+      `;
+      await this.moveAccountReferences(accountCode, newAccountCode);
+      await this.sql`DELETE FROM accounts WHERE account_code = ${accountCode}`;
+      return change;
+    });
+    this.#notifyAccountsChanged([accountCode, newAccountCode]);
+    return change;
+  }
+
+  /**
+   * Merge the source accounts into the target account, which keeps its code and name. The accounts must share a normal balance.
+   * Journal entry lines (posted ones included), tags, report lines and sub-accounts move to the target and the sources are deleted.
+   */
+  async mergeAccounts(sourceAccountCodes: number[], targetAccountCode: number): Promise<AccountCodeChange[]> {
+    const changes = await this.transaction(async () => {
+      const uniqueSourceAccountCodes = [...new Set(sourceAccountCodes)];
+      if (uniqueSourceAccountCodes.includes(targetAccountCode)) {
+        throw new Error(`Account ${targetAccountCode} cannot be merged into itself`);
+      }
+      const accounts = await this.getManyAccounts({ accountCodes: [...uniqueSourceAccountCodes, targetAccountCode] });
+      const target = accounts.find(account => account.accountCode === targetAccountCode);
+      if (target === undefined) {
+        throw new Error(`Account ${targetAccountCode} does not exist`);
+      }
+      if (!target.isActive) {
+        throw new Error(`Account ${targetAccountCode} "${target.name}" is inactive. Reactivate it before merging into it`);
+      }
+
+      const changes: AccountCodeChange[] = [];
+      for (const sourceAccountCode of uniqueSourceAccountCodes) {
+        const source = accounts.find(account => account.accountCode === sourceAccountCode);
+        if (source === undefined) {
+          throw new Error(`Account ${sourceAccountCode} does not exist`);
+        }
+        if (source.normalBalance !== target.normalBalance) {
+          throw new Error(`Account ${sourceAccountCode} "${source.name}" has a ${source.normalBalance} normal balance, but account ${targetAccountCode} "${target.name}" has a ${target.normalBalance} normal balance`);
+        }
+        const descendantRows = await this.sql<{ account_code: number }>`
+          WITH RECURSIVE descendants(account_code) AS (
+            SELECT account_code FROM accounts WHERE control_account_code = ${sourceAccountCode}
+            UNION
+            SELECT a.account_code
+            FROM accounts a
+            JOIN descendants d ON a.control_account_code = d.account_code
+          )
+          SELECT account_code FROM descendants WHERE account_code = ${targetAccountCode}
+        `;
+        if (descendantRows.length > 0) {
+          throw new Error(`Account ${sourceAccountCode} "${source.name}" cannot be merged into its sub-account ${targetAccountCode} "${target.name}"`);
+        }
+        const change = await this.recordAccountCodeChange('Merge', source, targetAccountCode);
+        await this.moveAccountReferences(sourceAccountCode, targetAccountCode);
+        await this.sql`
+          UPDATE accounts
+          SET balance = balance + ${source.balance}, updated_at = ${change.changedAt}
+          WHERE account_code = ${targetAccountCode}
+        `;
+        await this.sql`DELETE FROM accounts WHERE account_code = ${sourceAccountCode}`;
+        changes.push(change);
+      }
+      return changes;
+    });
+    this.#notifyAccountsChanged([...changes.map(change => change.oldAccountCode), targetAccountCode]);
+    return changes;
+  }
+
+  /**
+   * Renumber and merge history, oldest first. When an account code is given, only changes from or to that code.
+   */
+  async getManyAccountCodeChanges(accountCode?: number): Promise<AccountCodeChange[]> {
+    const rows = await this.sql`
+      SELECT id, change_type, old_account_code, old_account_name, new_account_code, changed_at
+      FROM account_code_changes
+      WHERE ${accountCode ?? null} IS NULL
+        OR old_account_code = ${accountCode ?? null}
+        OR new_account_code = ${accountCode ?? null}
+      ORDER BY id
+    `;
+    return rows.map(toAccountCodeChange);
+  }
+
+  private async recordAccountCodeChange(changeType: 'Renumber' | 'Merge', account: Account, newAccountCode: number): Promise<AccountCodeChange> {
+    const rows = await this.sql`
+      INSERT INTO account_code_changes (change_type, old_account_code, old_account_name, new_account_code, changed_at)
+      VALUES (${changeType}, ${account.accountCode}, ${account.name}, ${newAccountCode}, ${Date.now()})
+      RETURNING id, change_type, old_account_code, old_account_name, new_account_code, changed_at
+    `;
+    if (rows.length === 0) {
+      throw new Error('Failed to record account code change');
     }
-    return journalEntryId;
+    return toAccountCodeChange(rows[0]);
   }
 
-  async postJournalEntry(journalEntryId: number, postTime: number): Promise<void> {
-    // Check if the journal entry exists and its current status
-    const entry = await this.sql<{ post_time: number | null }>`
-      SELECT post_time FROM journal_entries WHERE ref = ${journalEntryId}
+  /**
+   * Point everything that references an account at another account. Posted journal entry lines are only movable
+   * because the latest account_code_changes row records this mapping. Report lines of the same report are combined.
+   */
+  private async moveAccountReferences(fromAccountCode: number, toAccountCode: number): Promise<void> {
+    await this.sql`UPDATE accounts SET control_account_code = ${toAccountCode} WHERE control_account_code = ${fromAccountCode}`;
+    await this.sql`UPDATE journal_entry_lines SET account_code = ${toAccountCode} WHERE account_code = ${fromAccountCode}`;
+
+    await this.sql`
+      INSERT OR IGNORE INTO account_tags (account_code, tag)
+      SELECT ${toAccountCode}, tag FROM account_tags WHERE account_code = ${fromAccountCode}
+    `;
+    await this.sql`DELETE FROM account_tags WHERE account_code = ${fromAccountCode}`;
+
+    await this.sql`
+      UPDATE trial_balance_lines
+      SET
+        debit = MAX(debit - credit + (
+          SELECT source.debit - source.credit FROM trial_balance_lines source
+          WHERE source.balance_report_id = trial_balance_lines.balance_report_id AND source.account_code = ${fromAccountCode}
+        ), 0),
+        credit = MAX(credit - debit - (
+          SELECT source.debit - source.credit FROM trial_balance_lines source
+          WHERE source.balance_report_id = trial_balance_lines.balance_report_id AND source.account_code = ${fromAccountCode}
+        ), 0)
+      WHERE account_code = ${toAccountCode}
+        AND balance_report_id IN (SELECT balance_report_id FROM trial_balance_lines WHERE account_code = ${fromAccountCode})
+    `;
+    await this.sql`
+      DELETE FROM trial_balance_lines
+      WHERE account_code = ${fromAccountCode}
+        AND balance_report_id IN (SELECT balance_report_id FROM trial_balance_lines WHERE account_code = ${toAccountCode})
+    `;
+    await this.sql`UPDATE trial_balance_lines SET account_code = ${toAccountCode} WHERE account_code = ${fromAccountCode}`;
+
+    await this.sql`
+      UPDATE balance_sheet_lines
+      SET amount = amount + (
+        SELECT source.amount FROM balance_sheet_lines source
+        WHERE source.balance_report_id = balance_sheet_lines.balance_report_id AND source.account_code = ${fromAccountCode}
+      )
+      WHERE account_code = ${toAccountCode}
+        AND balance_report_id IN (SELECT balance_report_id FROM balance_sheet_lines WHERE account_code = ${fromAccountCode})
     `;
+    await this.sql`
+      DELETE FROM balance_sheet_lines
+      WHERE account_code = ${fromAccountCode}
+        AND balance_report_id IN (SELECT balance_report_id FROM balance_sheet_lines WHERE account_code = ${toAccountCode})
+    `;
+    await this.sql`UPDATE balance_sheet_lines SET account_code = ${toAccountCode} WHERE account_code = ${fromAccountCode}`;
+  }
 
-    if (entry.length === 0) {
-      throw new Error(`Journal entry ${journalEntryId} does not exist`);
+  async getExistingJournalEntryByIdempotentKey(idempotentKey: string): Promise<number | null> {
+    const result = await this.sql<{ ref: number }>`
+      SELECT ref FROM journal_entries WHERE idempotent_key = ${idempotentKey}
+    `;
+    if (result.length === 0) {
+      return null;
     }
+    assertPropNumber(result[0], 'ref', 'Journal entry ref is not a number');
+    return result[0].ref;
+  }
 
-    if (entry[0].post_time !== null) {
-      throw new Error(`Journal entry ${journalEntryId} is already posted`);
+  /**
+   * Attach lines to journal entry header rows and map them into JournalEntry objects.
+   * The header rows must contain ref, entry_time, note, post_time, idempotent_key, source_type, source_reference, created_by, reversal_of_ref and reversed_by_ref columns.
+   */
+  private async hydrateJournalEntries(headerRows: unknown[]): Promise<JournalEntry[]> {
+    if (headerRows.length === 0) {
+      return [];
+    }
+    const entries = headerRows.map(function (row) {
+      assertPropNumber(row, 'ref', 'Journal entry ref is not a number');
+      assertPropNumber(row, 'entry_time', 'Journal entry entry_time is not a number');
+      assertPropNullableNumber(row, 'post_time', 'Journal entry post_time is not a number');
+      assertPropNullableNumber(row, 'reversal_of_ref', 'Journal entry reversal_of_ref is not a number');
+      assertPropNullableNumber(row, 'reversed_by_ref', 'Journal entry reversed_by_ref is not a number');
+      const entry: JournalEntry = {
+        ref: row.ref,
+        entryTime: row.entry_time,
+        description: typeof row.note === 'string' ? row.note : null,
+        postTime: row.post_time,
+        idempotentKey: typeof row.idempotent_key === 'string' ? row.idempotent_key : null,
+        sourceType: typeof row.source_type === 'string' ? row.source_type : null,
+        sourceReference: typeof row.source_reference === 'string' ? row.source_reference : null,
+        createdBy: typeof row.created_by === 'string' ? row.created_by : null,
+        reversalOfRef: row.reversal_of_ref,
+        reversedByRef: row.reversed_by_ref,
+        lines: [],
+      };
+      return entry;
+    });
+    const entryMap = new Map(entries.map(function (entry) { return [entry.ref, entry]; }));
+    const placeholders = entries.map(function () { return '?'; }).join(', ');
+    const lineRows = await this.rawSql(`
+      SELECT jel.journal_entry_ref, jel.line_number, jel.account_code, a.name AS account_name, jel.debit, jel.credit, jel.description, jel.reference
+      FROM journal_entry_lines jel
+      JOIN accounts a ON a.account_code = jel.account_code
+      WHERE jel.journal_entry_ref IN (${placeholders})
+      ORDER BY jel.journal_entry_ref, jel.line_number
+    `, entries.map(function (entry) { return entry.ref; }));
+    for (const row of lineRows) {
+      assertPropNumber(row, 'journal_entry_ref', 'Journal entry line journal_entry_ref is not a number');
+      assertPropNumber(row, 'line_number', 'Journal entry line line_number is not a number');
+      assertPropNumber(row, 'account_code', 'Journal entry line account_code is not a number');
+      assertPropString(row, 'account_name', 'Journal entry line account_name is not a string');
+      assertPropNumber(row, 'debit', 'Journal entry line debit is not a number');
+      assertPropNumber(row, 'credit', 'Journal entry line credit is not a number');
+      entryMap.get(row.journal_entry_ref)?.lines.push({
+        lineNumber: row.line_number,
+        accountCode: row.account_code,
+        accountName: row.account_name,
+        debit: row.debit,
+        credit: row.credit,
+        description: typeof row.description === 'string' ? row.description : null,
+        reference: typeof row.reference === 'string' ? row.reference : null,
+      });
     }
+    return entries;
+  }
 
-    await this.sql`UPDATE journal_entries SET post_time = ${postTime} WHERE ref = ${journalEntryId}`;
+  async getManyJournalEntriesByRefs(journalEntryRefs: number[]): Promise<JournalEntry[]> {
+    if (journalEntryRefs.length === 0) {
+      return [];
+    }
+    const placeholders = journalEntryRefs.map(function () { return '?'; }).join(', ');
+    const headerRows = await this.rawSql(`
+      SELECT ref, entry_time, note, post_time, idempotent_key, source_type, source_reference, created_by, reversal_of_ref, reversed_by_ref
+      FROM journal_entries
+      WHERE ref IN (${placeholders})
+      ORDER BY ref
+    `, journalEntryRefs);
+    return await this.hydrateJournalEntries(headerRows);
   }
 
-  async updateJournalEntry(journalEntryRef: number, params: { entryTime?: number; description?: string | null; lines?: JournalEntryLine[]; idempotentKey?: string | null }): Promise<void> {
-    // First check if the journal entry exists
-    const entry = await this.sql<{ post_time: number | null }>`
-      SELECT post_time FROM journal_entries WHERE ref = ${journalEntryRef}
+  /**
+   * List unposted (draft) journal entries ordered by entry time, including their lines.
+   */
+  async getManyJournalEntryDrafts(offset: number, limit: number): Promise<JournalEntry[]> {
+    const headerRows = await this.sql`
+      SELECT ref, entry_time, note, post_time, idempotent_key, source_type, source_reference, created_by, reversal_of_ref, reversed_by_ref
+      FROM journal_entries
+      WHERE post_time IS NULL
+      ORDER BY entry_time, ref
+      LIMIT ${limit} OFFSET ${offset}
     `;
+    return await this.hydrateJournalEntries(headerRows);
+  }
 
-    if (entry.length === 0) {
-      throw new Error(`Journal entry ${journalEntryRef} does not exist`);
+  /**
+   * Search journal entries, including their lines, ordered by entry time (newest first).
+   * All provided filters must match. Amount is the sum of debit lines of the entry.
+   */
+  async searchJournalEntries(filters: JournalEntrySearchFilters, offset: number, limit: number): Promise<{ entries: JournalEntry[]; total: number }> {
+    const whereClauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.beginTime !== undefined) {
+      whereClauses.push('je.entry_time >= ?');
+      params.push(filters.beginTime);
     }
 
-    if (entry[0].post_time !== null) {
-      throw new Error(`Journal entry ${journalEntryRef} is already posted and cannot be updated`);
+    if (filters.endTime !== undefined) {
+      whereClauses.push('je.entry_time < ?');
+      params.push(filters.endTime);
     }
 
-    // Update journal entry header if provided
-    if (params.entryTime !== undefined || params.description !== undefined || params.idempotentKey !== undefined) {
-      const updates = [];
-      const values = [];
+    if (filters.accountCodes && filters.accountCodes.length > 0) {
+      const ph = filters.accountCodes.map(function () { return '?'; }).join(', ');
+      whereClauses.push(`je.ref IN (SELECT journal_entry_ref FROM journal_entry_lines WHERE account_code IN (${ph}))`);
+      params.push(...filters.accountCodes);
+    }
 
-      if (params.entryTime !== undefined) {
-        updates.push('entry_time = ?');
-        values.push(params.entryTime);
-      }
-      if (params.description !== undefined) {
-        updates.push('note = ?');
-        values.push(params.description);
-      }
-      if (params.idempotentKey !== undefined) {
-        updates.push('idempotent_key = ?');
-        values.push(params.idempotentKey);
-      }
+    if (filters.minAmount !== undefined) {
+      whereClauses.push('(SELECT COALESCE(SUM(debit), 0) FROM journal_entry_lines WHERE journal_entry_ref = je.ref) >= ?');
+      params.push(filters.minAmount);
+    }
 
-      if (updates.length > 0) {
-        values.push(journalEntryRef);
-        await this.rawSql(`UPDATE journal_entries SET ${updates.join(', ')} WHERE ref = ?`, values);
-      }
+    if (filters.maxAmount !== undefined) {
+      whereClauses.push('(SELECT COALESCE(SUM(debit), 0) FROM journal_entry_lines WHERE journal_entry_ref = je.ref) <= ?');
+      params.push(filters.maxAmount);
+    }
+
+    if (filters.noteContains !== undefined && filters.noteContains !== '') {
+      whereClauses.push(`je.note LIKE ? ESCAPE '\\'`);
+      params.push(`%${filters.noteContains.replace(/[\\%_]/g, '\\$&')}%`);
+    }
+
+    if (filters.referenceContains !== undefined && filters.referenceContains !== '') {
+      whereClauses.push(`je.ref IN (SELECT journal_entry_ref FROM journal_entry_lines WHERE reference LIKE ? ESCAPE '\\')`);
+      params.push(`%${filters.referenceContains.replace(/[\\%_]/g, '\\$&')}%`);
+    }
+
+    if (filters.sourceTypes && filters.sourceTypes.length > 0) {
+      const ph = filters.sourceTypes.map(function () { return '?'; }).join(', ');
+      whereClauses.push(`je.source_type IN (${ph})`);
+      params.push(...filters.sourceTypes);
+    }
+
+    if (filters.sourceReference !== undefined) {
+      whereClauses.push('je.source_reference = ?');
+      params.push(filters.sourceReference);
+    }
+
+    if (filters.status === 'posted') {
+      whereClauses.push('je.post_time IS NOT NULL');
+    }
+    else if (filters.status === 'draft') {
+      whereClauses.push('je.post_time IS NULL');
+    }
+    else if (filters.status === 'reversed') {
+      whereClauses.push('je.reversed_by_ref IS NOT NULL');
     }
 
-    // Update lines if provided
-    if (params.lines !== undefined) {
-      // Delete existing lines
-      await this.sql`DELETE FROM journal_entry_lines WHERE journal_entry_ref = ${journalEntryRef}`;
+    if (filters.idempotentKey !== undefined) {
+      whereClauses.push('je.idempotent_key = ?');
+      params.push(filters.idempotentKey);
+    }
+
+    const where = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
+
+    const totalRows = await this.rawSql(`
+      SELECT COUNT(*) AS total
+      FROM journal_entries je
+      ${where}
+    `, params);
+    assertPropNumber(totalRows[0], 'total', 'Journal entry count is not a number');
+
+    const headerRows = await this.rawSql(`
+      SELECT je.ref, je.entry_time, je.note, je.post_time, je.idempotent_key, je.source_type, je.source_reference, je.created_by, je.reversal_of_ref, je.reversed_by_ref
+      FROM journal_entries je
+      ${where}
+      ORDER BY je.entry_time DESC, je.ref DESC
+      LIMIT ? OFFSET ?
+    `, [...params, limit, offset]);
+
+    return {
+      entries: await this.hydrateJournalEntries(headerRows),
+      total: totalRows[0].total,
+    };
+  }
+
+  async draftJournalEntry(params: DraftJournalEntryParams): Promise<number> {
+    const journalEntryRef = await this.insertJournalEntryDraft(params);
+    this.#notifyJournalEntryDraftsChanged([journalEntryRef]);
+    return journalEntryRef;
+  }
+
+  /** Insert a draft without notifying listeners, for entries that are posted right away in the same transaction. */
+  private async insertJournalEntryDraft(params: DraftJournalEntryParams): Promise<number> {
+    return await this.transaction(async () => {
+      // Check if an entry with the same idempotent key already exists
+      if (params.idempotentKey) {
+        const existingEntry = await this.sql<{ ref: number }>`
+          SELECT ref FROM journal_entries WHERE idempotent_key = ${params.idempotentKey}
+        `;
+        if (existingEntry.length > 0) {
+          assertPropNumber(existingEntry[0], 'ref', 'Journal entry ref is not a number');
+          return existingEntry[0].ref;
+        }
+      }
 
-      // Insert new lines
+      const result = await this.sql<{ ref: number }>`
+        INSERT INTO journal_entries (entry_time, note, post_time, idempotent_key, source_type, source_reference, created_by)
+        VALUES (
+          ${params.entryTime},
+          ${params.description || null},
+          NULL,
+          ${params.idempotentKey || null},
+          ${params.sourceType ?? 'Manual'},
+          ${params.sourceReference ?? null},
+          ${params.createdBy ?? 'User'}
+        )
+        RETURNING ref
+      `;
+      if (result.length === 0) {
+        throw new Error('Failed to create journal entry');
+      }
+      const journalEntryId = result[0].ref;
       for (const line of params.lines) {
+        // use the auto-numbering view to insert lines and let the DB assign line_number
         await this.sql`
-          INSERT INTO journal_entry_lines_auto_number (journal_entry_ref, account_code, debit, credit)
-          VALUES (${journalEntryRef}, ${line.accountCode}, ${line.debit}, ${line.credit})
+          INSERT INTO journal_entry_lines_auto_number (journal_entry_ref, account_code, debit, credit, description, reference)
+          VALUES (${journalEntryId}, ${line.accountCode}, ${line.debit}, ${line.credit}, ${line.description ?? null}, ${line.reference ?? null})
         `;
       }
-    }
+      return journalEntryId;
+    });
+  }
+
+  async postJournalEntry(journalEntryId: number, postTime: number): Promise<void> {
+    await this.transaction(async () => {
+      // Check if the journal entry exists and its current status
+      const entry = await this.sql<{ post_time: number | null }>`
+        SELECT post_time FROM journal_entries WHERE ref = ${journalEntryId}
+      `;
+
+      if (entry.length === 0) {
+        throw new Error(`Journal entry ${journalEntryId} does not exist`);
+      }
+
+      if (entry[0].post_time !== null) {
+        throw new Error(`Journal entry ${journalEntryId} is already posted`);
+      }
+
+      await this.sql`UPDATE journal_entries SET post_time = ${postTime} WHERE ref = ${journalEntryId}`;
+    });
+    this.#notifyJournalEntriesPosted([journalEntryId]);
+  }
+
+  async updateJournalEntry(journalEntryRef: number, params: { entryTime?: number; description?: string | null; lines?: JournalEntryLine[]; idempotentKey?: string | null }): Promise<void> {
+    await this.transaction(async () => {
+      // First check if the journal entry exists
+      const entry = await this.sql<{ post_time: number | null }>`
+        SELECT post_time FROM journal_entries WHERE ref = ${journalEntryRef}
+      `;
+
+      if (entry.length === 0) {
+        throw new Error(`Journal entry ${journalEntryRef} does not exist`);
+      }
+
+      if (entry[0].post_time !== null) {
+        throw new Error(`Journal entry ${journalEntryRef} is already posted and cannot be updated`);
+      }
+
+      // Update journal entry header if provided
+      if (params.entryTime !== undefined || params.description !== undefined || params.idempotentKey !== undefined) {
+        const updates = [];
+        const values = [];
+
+        if (params.entryTime !== undefined) {
+          updates.push('entry_time = ?');
+          values.push(params.entryTime);
+        }
+        if (params.description !== undefined) {
+          updates.push('note = ?');
+          values.push(params.description);
+        }
+        if (params.idempotentKey !== undefined) {
+          updates.push('idempotent_key = ?');
+          values.push(params.idempotentKey);
+        }
+
+        if (updates.length > 0) {
+          values.push(journalEntryRef);
+          await this.rawSql(`UPDATE journal_entries SET ${updates.join(', ')} WHERE ref = ?`, values);
+        }
+      }
+
+      // Update lines if provided
+      if (params.lines !== undefined) {
+        // Delete existing lines
+        await this.sql`DELETE FROM journal_entry_lines WHERE journal_entry_ref = ${journalEntryRef}`;
+
+        // Insert new lines
+        for (const line of params.lines) {
+          await this.sql`
+            INSERT INTO journal_entry_lines_auto_number (journal_entry_ref, account_code, debit, credit, description, reference)
+            VALUES (${journalEntryRef}, ${line.accountCode}, ${line.debit}, ${line.credit}, ${line.description ?? null}, ${line.reference ?? null})
+          `;
+        }
+      }
+    });
+    this.#notifyJournalEntryDraftsChanged([journalEntryRef]);
   }
 
   async deleteManyJournalEntryDrafts(journalEntryRefs: number[]): Promise<void> {
@@ -639,70 +1691,158 @@ export abstract class AccountingRepository {
 
     const placeholders = journalEntryRefs.map(() => '?').join(', ');
 
-    // Delete journal entry lines first
-    await this.rawSql(`
-      DELETE FROM journal_entry_lines 
-      WHERE journal_entry_ref IN (${placeholders})
-    `, journalEntryRefs);
-
-    // Then delete the journal entries
-    await this.rawSql(`
-      DELETE FROM journal_entries 
-      WHERE ref IN (${placeholders}) 
-      AND post_time IS NULL
-    `, journalEntryRefs);
+    await this.transaction(async () => {
+      // Delete journal entry lines first, posted entries are left untouched
+      await this.rawSql(`
+        DELETE FROM journal_entry_lines
+        WHERE journal_entry_ref IN (
+          SELECT ref FROM journal_entries
+          WHERE ref IN (${placeholders})
+          AND post_time IS NULL
+        )
+      `, journalEntryRefs);
+
+      // Then delete the journal entries
+      await this.rawSql(`
+        DELETE FROM journal_entries 
+        WHERE ref IN (${placeholders}) 
+        AND post_time IS NULL
+      `, journalEntryRefs);
+    });
+    this.#notifyJournalEntryDraftsChanged(journalEntryRefs);
   }
 
-  async reverseJournalEntry(journalEntryRef: number, reversalTime: number, description?: string, reversalIdempotentKey?: string): Promise<number> {
-    // Get the original journal entry
-    const originalEntry = await this.sql<{ ref: number; entry_time: number; note: string | null }>`
-      SELECT ref, entry_time, note 
-      FROM journal_entries 
-      WHERE ref = ${journalEntryRef} 
-      AND post_time IS NOT NULL
-    `;
+  async reverseJournalEntry(journalEntryRef: number, reversalTime: number, description?: string, reversalIdempotentKey?: string, source?: JournalEntrySource): Promise<number> {
+    return await this.transaction(async () => {
+      // Get the original journal entry
+      const originalEntry = await this.sql<{ ref: number; entry_time: number; note: string | null }>`
+        SELECT ref, entry_time, note 
+        FROM journal_entries 
+        WHERE ref = ${journalEntryRef} 
+        AND post_time IS NOT NULL
+      `;
 
-    if (originalEntry.length === 0) {
-      throw new Error(`Journal entry ${journalEntryRef} not found or not posted`);
-    }
+      if (originalEntry.length === 0) {
+        throw new Error(`Journal entry ${journalEntryRef} not found or not posted`);
+      }
 
-    // Get the original lines
-    const originalLines = await this.sql<{ account_code: number; debit: number; credit: number }>`
-      SELECT account_code, debit, credit 
-      FROM journal_entry_lines 
-      WHERE journal_entry_ref = ${journalEntryRef}
-    `;
+      // Get the original lines
+      const originalLines = await this.sql<{ account_code: number; debit: number; credit: number; description: string | null; reference: string | null }>`
+        SELECT account_code, debit, credit, description, reference
+        FROM journal_entry_lines 
+        WHERE journal_entry_ref = ${journalEntryRef}
+        ORDER BY line_number
+      `;
+
+      // Create reversal lines (swap debit and credit)
+      const reversalLines: JournalEntryLine[] = originalLines.map(line => ({
+        accountCode: line.account_code,
+        debit: line.credit,
+        credit: line.debit,
+        description: line.description,
+        reference: line.reference,
+      }));
+
+      // Create the reversal journal entry
+      const reversalDescription = description || `Reversal of journal entry ${journalEntryRef}`;
+      const reversalRef = await this.draftJournalEntry({
+        entryTime: reversalTime,
+        description: reversalDescription,
+        lines: reversalLines,
+        idempotentKey: reversalIdempotentKey,
+        ...source,
+      });
+
+      // Update reversal references
+      await this.sql`
+        UPDATE journal_entries 
+        SET reversal_of_ref = ${journalEntryRef} 
+        WHERE ref = ${reversalRef}
+      `;
 
-    // Create reversal lines (swap debit and credit)
-    const reversalLines: JournalEntryLine[] = originalLines.map(line => ({
-      accountCode: line.account_code,
-      debit: line.credit,
-      credit: line.debit,
-    }));
-
-    // Create the reversal journal entry
-    const reversalDescription = description || `Reversal of journal entry ${journalEntryRef}`;
-    const reversalRef = await this.draftJournalEntry({
-      entryTime: reversalTime,
-      description: reversalDescription,
-      lines: reversalLines,
-      idempotentKey: reversalIdempotentKey,
+      await this.sql`
+        UPDATE journal_entries 
+        SET reversed_by_ref = ${reversalRef} 
+        WHERE ref = ${journalEntryRef}
+      `;
+
+      return reversalRef;
     });
+  }
 
-    // Update reversal references
-    await this.sql`
-      UPDATE journal_entries 
-      SET reversal_of_ref = ${journalEntryRef} 
-      WHERE ref = ${reversalRef}
-    `;
+  /**
+   * Draft and post the one opening balances journal entry as of the given time. The difference between the
+   * debit and credit balances is posted to the opening balance equity account. Refuses to import twice.
+   */
+  async importOpeningBalances(input: OpeningBalancesInput): Promise<number> {
+    const journalEntryRef = await this.transaction(async () => {
+      const existingRef = await this.getExistingJournalEntryByIdempotentKey(OPENING_BALANCES_IDEMPOTENT_KEY);
+      if (existingRef !== null) {
+        throw new Error(`Opening balances were already imported in journal entry ${existingRef}`);
+      }
 
-    await this.sql`
-      UPDATE journal_entries 
-      SET reversed_by_ref = ${reversalRef} 
-      WHERE ref = ${journalEntryRef}
-    `;
+      const accountCodes = input.balances.map(line => line.accountCode);
+      const duplicateAccountCodes = accountCodes.filter((accountCode, index) => accountCodes.indexOf(accountCode) !== index);
+      if (duplicateAccountCodes.length > 0) {
+        throw new Error(`Account codes appear more than once: ${[...new Set(duplicateAccountCodes)].join(', ')}`);
+      }
+      if (accountCodes.includes(input.openingBalanceEquityAccountCode)) {
+        throw new Error(`Opening balance equity account ${input.openingBalanceEquityAccountCode} cannot have an opening balance itself`);
+      }
+      const accounts = await this.getManyAccountsByCodes([...accountCodes, input.openingBalanceEquityAccountCode]);
+      const missingAccountCodes = [...accountCodes, input.openingBalanceEquityAccountCode]
+        .filter(accountCode => !accounts.some(account => account.accountCode === accountCode));
+      if (missingAccountCodes.length > 0) {
+        throw new Error(`Account codes do not exist: ${missingAccountCodes.join(', ')}`);
+      }
+      const equityTags = await this.sql<{ tag: string }>`
+        SELECT tag FROM account_tags
+        WHERE account_code = ${input.openingBalanceEquityAccountCode}
+          AND tag IN ('Equity', 'Balance Sheet - Equity')
+      `;
+      if (equityTags.length === 0) {
+        const equityAccount = accounts.find(account => account.accountCode === input.openingBalanceEquityAccountCode);
+        throw new Error(`Account ${input.openingBalanceEquityAccountCode} "${equityAccount?.name}" is not an equity account. Tag it 'Balance Sheet - Equity' to receive the opening balance difference`);
+      }
+
+      const lines: JournalEntryLine[] = [];
+      for (const line of input.balances) {
+        if (line.balance === 0) {
+          continue;
+        }
+        const account = accounts.find(account => account.accountCode === line.accountCode);
+        assertDefined(account, `Account ${line.accountCode} disappeared while importing opening balances`);
+        const amount = Math.abs(line.balance);
+        const isDebit = (account.normalBalance === 'debit') === (line.balance > 0);
+        lines.push({ accountCode: line.accountCode, debit: isDebit ? amount : 0, credit: isDebit ? 0 : amount });
+      }
+      if (lines.length === 0) {
+        throw new Error('No non-zero opening balances to import');
+      }
+
+      const difference = lines.reduce((sum, line) => sum + line.debit - line.credit, 0);
+      if (difference !== 0) {
+        lines.push({
+          accountCode: input.openingBalanceEquityAccountCode,
+          debit: difference < 0 ? -difference : 0,
+          credit: difference > 0 ? difference : 0,
+          description: 'Opening balance difference',
+        });
+      }
 
-    return reversalRef;
+      const draftRef = await this.insertJournalEntryDraft({
+        entryTime: input.asOfTime,
+        description: `Opening balances as of ${new Date(input.asOfTime).toISOString().slice(0, 10)}`,
+        lines,
+        idempotentKey: OPENING_BALANCES_IDEMPOTENT_KEY,
+        sourceType: 'System Generated',
+        createdBy: 'System',
+      });
+      await this.sql`UPDATE journal_entries SET post_time = ${input.asOfTime} WHERE ref = ${draftRef}`;
+      return draftRef;
+    });
+    this.#notifyJournalEntriesPosted([journalEntryRef]);
+    return journalEntryRef;
   }
 
   async GenerateFinancialReport(reportTime: number): Promise<number> {
@@ -926,6 +2066,670 @@ export abstract class AccountingRepository {
     };
   }
 
+  /**
+   * Trial balance computed from posted journal lines with entry_time up to and including asOfTime.
+   * Unlike balance_reports snapshots, this works for any point in time.
+   * Accounts deactivated later are still included when they have postings up to asOfTime.
+   * When accountTag is provided, only accounts with that tag are included.
+   * Control accounts show the subtotal of their descendants, and depth folds accounts below that many levels into their subtotal.
+   */
+  async getTrialBalanceAsOf(asOfTime: number, accountTag?: string, depth?: number): Promise<TrialBalanceReport> {
+    const result = await this.sql`
+      SELECT
+        a.account_code,
+        a.name AS account_name,
+        a.normal_balance,
+        COALESCE((
+          SELECT SUM(CASE a.normal_balance WHEN 0 THEN jel.debit - jel.credit ELSE jel.credit - jel.debit END)
+          FROM journal_entry_lines jel
+          JOIN journal_entries je ON je.ref = jel.journal_entry_ref
+          WHERE jel.account_code = a.account_code
+            AND je.post_time IS NOT NULL
+            AND je.entry_time <= ${asOfTime}
+        ), 0) AS balance
+      FROM accounts a
+      WHERE (a.is_active = 1 OR EXISTS (
+          SELECT 1
+          FROM journal_entry_lines jel
+          JOIN journal_entries je ON je.ref = jel.journal_entry_ref
+          WHERE jel.account_code = a.account_code
+            AND je.post_time IS NOT NULL
+            AND je.entry_time <= ${asOfTime}
+        ))
+        AND (${accountTag ?? null} IS NULL OR a.account_code IN (SELECT account_code FROM account_tags WHERE tag = ${accountTag ?? null}))
+      ORDER BY a.account_code
+    `;
+    const balances = new Map<number, number>();
+    for (const row of result) {
+      assertPropNumber(row, 'account_code', 'Account code is not a number');
+      assertPropNumber(row, 'balance', 'Balance is not a number');
+      balances.set(row.account_code, row.balance);
+    }
+    const accounts = await this.getAccountHierarchy();
+    return {
+      reportTime: asOfTime,
+      reportType: 'Ledger',
+      name: 'Computed from ledger',
+      lines: rollUpAccountAmounts(accounts, balances, depth).map(function (line) {
+        const account = accounts.get(line.accountCode);
+        assertDefined(account, `Account ${line.accountCode} is missing from the hierarchy`);
+        const isDebitSide = (account.normalBalance === 'debit') === (line.amount >= 0);
+        return {
+          accountCode: line.accountCode,
+          accountName: account.name,
+          normalBalance: account.normalBalance,
+          debit: isDebitSide ? Math.abs(line.amount) : 0,
+          credit: isDebitSide ? 0 : Math.abs(line.amount),
+          depth: line.depth,
+          isSubtotal: line.isSubtotal,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Balance sheet computed from posted journal lines with entry_time up to and including asOfTime.
+   * Classification follows the balance sheet snapshot trigger.
+   * Accounts deactivated later are still included when they have postings up to asOfTime.
+   * When accountTag is provided, only accounts with that tag are included.
+   * Within each category, control accounts show the subtotal of their descendants, and depth folds accounts below that many levels into their subtotal.
+   */
+  async getBalanceSheetAsOf(asOfTime: number, accountTag?: string, depth?: number): Promise<BalanceSheetReport> {
+    const result = await this.sql`
+      SELECT
+        CASE
+          WHEN at.tag IN ('Balance Sheet - Current Asset', 'Balance Sheet - Non-Current Asset') THEN 'Assets'
+          WHEN at.tag IN ('Balance Sheet - Current Liability', 'Balance Sheet - Non-Current Liability') THEN 'Liabilities'
+          WHEN at.tag = 'Balance Sheet - Equity' THEN 'Equity'
+        END AS classification,
+        CASE
+          WHEN at.tag = 'Balance Sheet - Current Asset' THEN 'Current Assets'
+          WHEN at.tag = 'Balance Sheet - Non-Current Asset' THEN 'Non-Current Assets'
+          WHEN at.tag = 'Balance Sheet - Current Liability' THEN 'Current Liabilities'
+          WHEN at.tag = 'Balance Sheet - Non-Current Liability' THEN 'Non-Current Liabilities'
+          WHEN at.tag = 'Balance Sheet - Equity' THEN 'Equity'
+        END AS category,
+        a.account_code,
+        a.name AS account_name,
+        COALESCE((
+          SELECT SUM(CASE a.normal_balance WHEN 0 THEN jel.debit - jel.credit ELSE jel.credit - jel.debit END)
+          FROM journal_entry_lines jel
+          JOIN journal_entries je ON je.ref = jel.journal_entry_ref
+          WHERE jel.account_code = a.account_code
+            AND je.post_time IS NOT NULL
+            AND je.entry_time <= ${asOfTime}
+        ), 0) AS amount
+      FROM accounts a
+      JOIN account_tags at ON at.account_code = a.account_code
+      WHERE (a.is_active = 1 OR EXISTS (
+          SELECT 1
+          FROM journal_entry_lines jel
+          JOIN journal_entries je ON je.ref = jel.journal_entry_ref
+          WHERE jel.account_code = a.account_code
+            AND je.post_time IS NOT NULL
+            AND je.entry_time <= ${asOfTime}
+        ))
+        AND at.tag IN (
+          'Balance Sheet - Current Asset', 'Balance Sheet - Non-Current Asset',
+          'Balance Sheet - Current Liability', 'Balance Sheet - Non-Current Liability',
+          'Balance Sheet - Equity'
+        )
+        AND (${accountTag ?? null} IS NULL OR a.account_code IN (SELECT account_code FROM account_tags WHERE tag = ${accountTag ?? null}))
+      ORDER BY classification, category, a.account_code
+    `;
+    // Rows come ordered by classification and category, each category rolls up on its own
+    const categories: Array<{ classification: string; category: string; amounts: Map<number, number> }> = [];
+    for (const row of result) {
+      assertPropString(row, 'classification', 'Classification is not a string');
+      assertPropString(row, 'category', 'Category is not a string');
+      assertPropNumber(row, 'account_code', 'Account code is not a number');
+      assertPropNumber(row, 'amount', 'Amount is not a number');
+      let category = categories.at(-1);
+      if (category === undefined || category.classification !== row.classification || category.category !== row.category) {
+        category = { classification: row.classification, category: row.category, amounts: new Map() };
+        categories.push(category);
+      }
+      category.amounts.set(row.account_code, row.amount);
+    }
+    const accounts = await this.getAccountHierarchy();
+    return {
+      reportTime: asOfTime,
+      reportType: 'Ledger',
+      name: 'Computed from ledger',
+      lines: categories.flatMap(function (category) {
+        return rollUpAccountAmounts(accounts, category.amounts, depth).map(function (line) {
+          const account = accounts.get(line.accountCode);
+          assertDefined(account, `Account ${line.accountCode} is missing from the hierarchy`);
+          return {
+            classification: category.classification,
+            category: category.category,
+            accountCode: line.accountCode,
+            accountName: account.name,
+            amount: line.amount,
+            depth: line.depth,
+            isSubtotal: line.isSubtotal,
+          };
+        });
+      }),
+    };
+  }
+
+  /**
+   * Posted lines of an account in the period [beginTime, endTime) with a running balance.
+   * A control account rolls up all of its descendants. Balances follow the normal balance of the requested account.
+   * When sourceTypes is provided, only entries of those sources count, including for the opening balance.
+   * When accountTag is provided, only the account and descendants with that tag count.
+   */
+  async getAccountLedger(query: AccountLedgerQuery): Promise<AccountLedger> {
+    const account = await this.getAccountByCode(query.accountCode);
+    if (account === null) {
+      throw new Error(`Account ${query.accountCode} does not exist`);
+    }
+
+    const accountCodeRows = await this.sql`
+      WITH RECURSIVE ledger_accounts(account_code) AS (
+        SELECT ${query.accountCode}
+        UNION ALL
+        SELECT a.account_code
+        FROM accounts a
+        JOIN ledger_accounts la ON a.control_account_code = la.account_code
+      )
+      SELECT account_code FROM ledger_accounts
+      WHERE ${query.accountTag ?? null} IS NULL
+        OR account_code IN (SELECT account_code FROM account_tags WHERE tag = ${query.accountTag ?? null})
+      ORDER BY account_code
+    `;
+    const accountCodes = accountCodeRows.map(function (row) {
+      assertPropNumber(row, 'account_code', 'Account code is not a number');
+      return row.account_code;
+    });
+    const placeholders = accountCodes.map(function () { return '?'; }).join(', ');
+    const sign = account.normalBalance === 'debit' ? 1 : -1;
+
+    const sourceTypes = query.sourceTypes !== undefined && query.sourceTypes.length > 0 ? query.sourceTypes : null;
+    const sourceTypeClause = sourceTypes !== null
+      ? `AND source_type IN (${sourceTypes.map(function () { return '?'; }).join(', ')})`
+      : '';
+    const sourceTypeParams = sourceTypes ?? [];
+
+    const openingRows = await this.rawSql(`
+      SELECT COALESCE(SUM(debit - credit), 0) AS net_debit
+      FROM journal_entry_summary
+      WHERE account_code IN (${placeholders})
+        AND entry_time < ?
+        ${sourceTypeClause}
+    `, [...accountCodes, query.beginTime ?? Number.MIN_SAFE_INTEGER, ...sourceTypeParams]);
+    assertPropNumber(openingRows[0], 'net_debit', 'Opening balance is not a number');
+    const openingBalance = sign * openingRows[0].net_debit;
+
+    const lineRows = await this.rawSql(`
+      SELECT ref, entry_time, note, line_number, account_code, account_name, debit, credit, description, reference
+      FROM journal_entry_summary
+      WHERE account_code IN (${placeholders})
+        AND entry_time >= ?
+        AND entry_time < ?
+        ${sourceTypeClause}
+      ORDER BY entry_time, ref, line_number
+    `, [...accountCodes, query.beginTime ?? Number.MIN_SAFE_INTEGER, query.endTime ?? Number.MAX_SAFE_INTEGER, ...sourceTypeParams]);
+
+    let runningBalance = openingBalance;
+    let totalDebit = 0;
+    let totalCredit = 0;
+    const lines = lineRows.map(function (row) {
+      assertPropNumber(row, 'ref', 'Journal entry ref is not a number');
+      assertPropNumber(row, 'entry_time', 'Journal entry entry_time is not a number');
+      assertPropNumber(row, 'line_number', 'Line number is not a number');
+      assertPropNumber(row, 'account_code', 'Account code is not a number');
+      assertPropString(row, 'account_name', 'Account name is not a string');
+      assertPropNumber(row, 'debit', 'Debit is not a number');
+      assertPropNumber(row, 'credit', 'Credit is not a number');
+      runningBalance += sign * (row.debit - row.credit);
+      totalDebit += row.debit;
+      totalCredit += row.credit;
+      return {
+        ref: row.ref,
+        entryTime: row.entry_time,
+        note: typeof row.note === 'string' ? row.note : null,
+        lineNumber: row.line_number,
+        accountCode: row.account_code,
+        accountName: row.account_name,
+        debit: row.debit,
+        credit: row.credit,
+        description: typeof row.description === 'string' ? row.description : null,
+        reference: typeof row.reference === 'string' ? row.reference : null,
+        runningBalance,
+      };
+    });
+
+    return {
+      accountCode: account.accountCode,
+      accountName: account.name,
+      normalBalance: account.normalBalance,
+      accountCodes,
+      sourceTypes,
+      accountTag: query.accountTag ?? null,
+      beginTime: query.beginTime ?? null,
+      endTime: query.endTime ?? null,
+      openingBalance,
+      lines,
+      totalDebit,
+      totalCredit,
+      closingBalance: runningBalance,
+    };
+  }
+
+  /**
+   * Income statement for a fiscal year (read from the income_statement view) or for an arbitrary period.
+   * Fiscal year periods follow the schema convention (begin_time, end_time], arbitrary periods are [beginTime, endTime).
+   * Closing entries are excluded so closed fiscal years still show their revenue and expenses.
+   * When accountTag is provided, only accounts with that tag are included.
+   */
+  async getIncomeStatement(query: IncomeStatementQuery): Promise<IncomeStatement> {
+    const accountTag = query.accountTag ?? null;
+    let name: string | null = null;
+    let beginTime: number;
+    let endTime: number;
+    let rows: unknown[];
+
+    if (query.fiscalYearName !== undefined) {
+      const fiscalYearResult = await this.sql`
+        SELECT begin_time, end_time, name FROM fiscal_years WHERE name = ${query.fiscalYearName}
+      `;
+      if (fiscalYearResult.length === 0) {
+        throw new Error(`Fiscal year ${query.fiscalYearName} does not exist`);
+      }
+      const fiscalYear = fiscalYearResult[0];
+      assertPropNumber(fiscalYear, 'begin_time', 'Fiscal year begin_time is not a number');
+      assertPropNumber(fiscalYear, 'end_time', 'Fiscal year end_time is not a number');
+      name = query.fiscalYearName;
+      beginTime = fiscalYear.begin_time;
+      endTime = fiscalYear.end_time;
+      rows = await this.sql`
+        SELECT classification, category, account_code, account_name, amount
+        FROM income_statement
+        WHERE begin_time = ${beginTime}
+          AND (${accountTag} IS NULL OR account_code IN (SELECT account_code FROM account_tags WHERE tag = ${accountTag}))
+        ORDER BY classification, category, account_code
+      `;
+    }
+    else if (query.beginTime !== undefined && query.endTime !== undefined) {
+      if (query.beginTime >= query.endTime) {
+        throw new Error('Income statement begin time must be before end time');
+      }
+      beginTime = query.beginTime;
+      endTime = query.endTime;
+      rows = await this.sql`
+        SELECT
+          CASE
+            WHEN at.tag IN ('Income Statement - Revenue', 'Income Statement - Contra Revenue', 'Income Statement - Other Revenue') THEN 'Revenue'
+            WHEN at.tag IN ('Income Statement - COGS') THEN 'Cost of Goods Sold'
+            ELSE 'Expenses'
+          END AS classification,
+          CASE
+            WHEN at.tag = 'Income Statement - Revenue' THEN 'Revenue'
+            WHEN at.tag = 'Income Statement - Contra Revenue' THEN 'Contra Revenue'
+            WHEN at.tag = 'Income Statement - Other Revenue' THEN 'Other Revenue'
+            WHEN at.tag = 'Income Statement - COGS' THEN 'Cost of Goods Sold'
+            WHEN at.tag = 'Income Statement - Expense' THEN 'Operating Expenses'
+            WHEN at.tag = 'Income Statement - Other Expense' THEN 'Other Expenses'
+          END AS category,
+          a.account_code,
+          a.name AS account_name,
+          SUM(
+            CASE a.normal_balance
+              WHEN 0 THEN jes.debit - jes.credit
+              WHEN 1 THEN jes.credit - jes.debit
+            END
+          ) AS amount
+        FROM journal_entry_summary jes
+        JOIN accounts a ON a.account_code = jes.account_code
+        JOIN account_tags at ON at.account_code = a.account_code
+        WHERE jes.entry_time >= ${beginTime}
+          AND jes.entry_time < ${endTime}
+          AND jes.ref NOT IN (SELECT closing_journal_entry_ref FROM fiscal_years WHERE closing_journal_entry_ref IS NOT NULL)
+          AND at.tag IN (
+            'Income Statement - Revenue',
+            'Income Statement - Contra Revenue',
+            'Income Statement - Other Revenue',
+            'Income Statement - COGS',
+            'Income Statement - Expense',
+            'Income Statement - Other Expense'
+          )
+          AND (${accountTag} IS NULL OR a.account_code IN (SELECT account_code FROM account_tags WHERE tag = ${accountTag}))
+        GROUP BY at.tag, a.account_code
+        HAVING amount != 0
+        ORDER BY classification, category, a.account_code
+      `;
+    }
+    else {
+      throw new Error('Either fiscalYearName or both beginTime and endTime must be provided');
+    }
+
+    const lines = rows.map(function (row) {
+      assertPropString(row, 'classification', 'Classification is not a string');
+      assertPropString(row, 'category', 'Category is not a string');
+      assertPropNumber(row, 'account_code', 'Account code is not a number');
+      assertPropString(row, 'account_name', 'Account name is not a string');
+      assertPropNumber(row, 'amount', 'Amount is not a number');
+      return {
+        classification: row.classification,
+        category: row.category,
+        accountCode: row.account_code,
+        accountName: row.account_name,
+        amount: row.amount,
+      };
+    });
+
+    const sumOfCategory = function (category: string) {
+      return lines
+        .filter(function (line) { return line.category === category; })
+        .reduce(function (sum, line) { return sum + line.amount; }, 0);
+    };
+    const revenue = sumOfCategory('Revenue');
+    const contraRevenue = sumOfCategory('Contra Revenue');
+    const netRevenue = revenue - contraRevenue;
+    const costOfGoodsSold = sumOfCategory('Cost of Goods Sold');
+    const grossProfit = netRevenue - costOfGoodsSold;
+    const operatingExpenses = sumOfCategory('Operating Expenses');
+    const operatingIncome = grossProfit - operatingExpenses;
+    const otherRevenue = sumOfCategory('Other Revenue');
+    const otherExpenses = sumOfCategory('Other Expenses');
+
+    return {
+      name,
+      beginTime,
+      endTime,
+      lines,
+      revenue,
+      contraRevenue,
+      netRevenue,
+      costOfGoodsSold,
+      grossProfit,
+      operatingExpenses,
+      operatingIncome,
+      otherRevenue,
+      otherExpenses,
+      netIncome: operatingIncome + otherRevenue - otherExpenses,
+    };
+  }
+
+  /**
+   * Build and store an indirect-method cash flow statement for the period [beginTime, endTime) from posted journal lines.
+   * Every non cash-equivalent account contributes its movement (credit minus debit) exactly once, classified by its first matching tag:
+   * Cash Flow - Revenue/Expense into net income, Non-Cash tags as operating adjustments, Working Capital tags as operating changes,
+   * and Activity tags into their activity. Accounts without any of those tags are returned as unclassified and are not stored.
+   */
+  async generateCashFlowStatement(params: CashFlowStatementParams): Promise<CashFlowStatement> {
+    if (params.beginTime >= params.endTime) {
+      throw new Error('Cash flow statement begin time must be before end time');
+    }
+
+    const movementRows = await this.sql`
+      SELECT
+        jes.account_code,
+        jes.account_name,
+        SUM(jes.credit - jes.debit) AS amount
+      FROM journal_entry_summary jes
+      WHERE jes.entry_time >= ${params.beginTime}
+        AND jes.entry_time < ${params.endTime}
+        AND jes.ref NOT IN (SELECT closing_journal_entry_ref FROM fiscal_years WHERE closing_journal_entry_ref IS NOT NULL)
+      GROUP BY jes.account_code
+      HAVING amount != 0
+      ORDER BY jes.account_code
+    `;
+    const tagRows = await this.sql`
+      SELECT account_code, tag
+      FROM account_tags
+      WHERE tag LIKE 'Cash Flow - %'
+    `;
+    const cashRows = await this.sql`
+      SELECT
+        COALESCE(SUM(CASE WHEN jes.entry_time < ${params.beginTime} THEN jes.debit - jes.credit ELSE 0 END), 0) AS beginning_cash,
+        COALESCE(SUM(jes.debit - jes.credit), 0) AS ending_cash
+      FROM journal_entry_summary jes
+      WHERE jes.entry_time < ${params.endTime}
+        AND jes.account_code IN (SELECT account_code FROM account_tags WHERE tag = 'Cash Flow - Cash Equivalents')
+    `;
+    assertPropNumber(cashRows[0], 'beginning_cash', 'Beginning cash is not a number');
+    assertPropNumber(cashRows[0], 'ending_cash', 'Ending cash is not a number');
+    const beginningCash = cashRows[0].beginning_cash;
+    const endingCash = cashRows[0].ending_cash;
+
+    const tagsByAccount = new Map<number, Set<string>>();
+    for (const row of tagRows) {
+      assertPropNumber(row, 'account_code', 'Account code is not a number');
+      assertPropString(row, 'tag', 'Tag is not a string');
+      const tags = tagsByAccount.get(row.account_code) ?? new Set<string>();
+      tags.add(row.tag);
+      tagsByAccount.set(row.account_code, tags);
+    }
+
+    let netIncome = 0;
+    const adjustmentLines: CashFlowStatementLine[] = [];
+    const activityLines: CashFlowStatementLine[] = [];
+    const unclassifiedAccounts: CashFlowUnclassifiedAccount[] = [];
+    for (const row of movementRows) {
+      assertPropNumber(row, 'account_code', 'Account code is not a number');
+      assertPropString(row, 'account_name', 'Account name is not a string');
+      assertPropNumber(row, 'amount', 'Amount is not a number');
+      const tags = tagsByAccount.get(row.account_code) ?? new Set<string>();
+      if (tags.has('Cash Flow - Cash Equivalents')) {
+        continue;
+      }
+      if (tags.has('Cash Flow - Revenue') || tags.has('Cash Flow - Expense')) {
+        netIncome += row.amount;
+        continue;
+      }
+      const nonCashTag = Object.keys(CASH_FLOW_NON_CASH_TAG_DESCRIPTIONS).find(function (tag) { return tags.has(tag); });
+      if (nonCashTag !== undefined) {
+        adjustmentLines.push({
+          activityType: 'Operating',
+          description: `${CASH_FLOW_NON_CASH_TAG_DESCRIPTIONS[nonCashTag]}: ${row.account_name}`,
+          amount: row.amount,
+        });
+        continue;
+      }
+      if (tags.has('Cash Flow - Working Capital - Current Asset') || tags.has('Cash Flow - Working Capital - Current Liability')) {
+        adjustmentLines.push({
+          activityType: 'Operating',
+          description: `Change in ${row.account_name}`,
+          amount: row.amount,
+        });
+        continue;
+      }
+      const activityTag = Object.keys(CASH_FLOW_ACTIVITY_TAGS).find(function (tag) { return tags.has(tag); });
+      if (activityTag !== undefined) {
+        activityLines.push({
+          activityType: CASH_FLOW_ACTIVITY_TAGS[activityTag],
+          description: row.account_name,
+          amount: row.amount,
+        });
+        continue;
+      }
+      unclassifiedAccounts.push({
+        accountCode: row.account_code,
+        accountName: row.account_name,
+        amount: row.amount,
+      });
+    }
+
+    const lines: CashFlowStatementLine[] = [
+      { activityType: 'Operating', description: 'Net Income', amount: netIncome },
+      ...adjustmentLines,
+      ...activityLines,
+    ];
+    const sumOfActivity = function (activityType: CashFlowActivityType) {
+      return lines
+        .filter(function (line) { return line.activityType === activityType; })
+        .reduce(function (sum, line) { return sum + line.amount; }, 0);
+    };
+    const name = params.name ?? null;
+
+    const id = await this.transaction(async () => {
+      const reportResult = await this.sql<{ id: number }>`
+        INSERT INTO cashflow_reports (report_time, begin_time, end_time, name, created_at)
+        VALUES (${params.reportTime}, ${params.beginTime}, ${params.endTime}, ${name}, ${Date.now()})
+        RETURNING id
+      `;
+      if (reportResult.length === 0) {
+        throw new Error('Failed to create cash flow report');
+      }
+      assertPropNumber(reportResult[0], 'id', 'Cash flow report ID is not a number');
+      for (const line of lines) {
+        await this.sql`
+          INSERT INTO cashflow_statement_lines (cashflow_report_id, activity_type, line_description, amount)
+          VALUES (${reportResult[0].id}, ${line.activityType}, ${line.description}, ${line.amount})
+        `;
+      }
+      return reportResult[0].id;
+    });
+
+    const netCashFromOperating = sumOfActivity('Operating');
+    const netCashFromInvesting = sumOfActivity('Investing');
+    const netCashFromFinancing = sumOfActivity('Financing');
+
+    return {
+      id,
+      reportTime: params.reportTime,
+      beginTime: params.beginTime,
+      endTime: params.endTime,
+      name,
+      lines,
+      netCashFromOperating,
+      netCashFromInvesting,
+      netCashFromFinancing,
+      netCashChange: netCashFromOperating + netCashFromInvesting + netCashFromFinancing,
+      beginningCash,
+      endingCash,
+      unclassifiedAccounts,
+    };
+  }
+
+  /**
+   * Fiscal years cover entries with entry_time in (beginTime, endTime], the schema triggers and views rely on that convention.
+   */
+  async defineFiscalYear(fiscalYear: FiscalYearInput): Promise<void> {
+    await this.transaction(async () => {
+      const existing = await this.sql`SELECT 1 FROM fiscal_years WHERE name = ${fiscalYear.name}`;
+      if (existing.length > 0) {
+        throw new Error(`Fiscal year ${fiscalYear.name} already exists`);
+      }
+      await this.sql`
+        INSERT INTO fiscal_years (begin_time, end_time, name)
+        VALUES (${fiscalYear.beginTime}, ${fiscalYear.endTime}, ${fiscalYear.name})
+      `;
+    });
+  }
+
+  async getManyFiscalYears(): Promise<FiscalYear[]> {
+    const result = await this.sql`
+      SELECT begin_time, end_time, name, post_time, closing_journal_entry_ref, is_closed
+      FROM fiscal_years
+      ORDER BY begin_time
+    `;
+    return result.map(function (row) {
+      assertPropNumber(row, 'begin_time', 'Fiscal year begin_time is not a number');
+      assertPropNumber(row, 'end_time', 'Fiscal year end_time is not a number');
+      assertPropNullableNumber(row, 'post_time', 'Fiscal year post_time is not a number');
+      assertPropNullableNumber(row, 'closing_journal_entry_ref', 'Fiscal year closing_journal_entry_ref is not a number');
+      assertPropNumber(row, 'is_closed', 'Fiscal year is_closed is not a number');
+      return {
+        beginTime: row.begin_time,
+        endTime: row.end_time,
+        name: typeof row.name === 'string' ? row.name : null,
+        postTime: row.post_time,
+        closingJournalEntryRef: row.closing_journal_entry_ref,
+        isClosed: row.is_closed === 1,
+      };
+    });
+  }
+
+  async getFiscalYearByName(name: string): Promise<FiscalYear | null> {
+    const fiscalYears = await this.getManyFiscalYears();
+    return fiscalYears.find(function (fiscalYear) { return fiscalYear.name === name; }) ?? null;
+  }
+
+  /**
+   * Everything that blocks or results from closing the fiscal year. Net income follows the closing trigger:
+   * credit minus debit of accounts tagged for closing (revenue, expense and dividend) as of the fiscal year end.
+   */
+  async getFiscalYearClosingPreCheck(name: string): Promise<FiscalYearClosingPreCheck> {
+    const fiscalYear = await this.getFiscalYearByName(name);
+    if (fiscalYear === null) {
+      throw new Error(`Fiscal year ${name} does not exist`);
+    }
+
+    const unpostedResult = await this.sql`
+      SELECT ref
+      FROM journal_entries
+      WHERE entry_time > ${fiscalYear.beginTime}
+        AND entry_time <= ${fiscalYear.endTime}
+        AND post_time IS NULL
+      ORDER BY ref
+    `;
+    const retainedEarningResult = await this.sql`
+      SELECT account_code
+      FROM account_tags
+      WHERE tag = 'Fiscal Year Closing - Retained Earning'
+      ORDER BY account_code
+      LIMIT 1
+    `;
+    const netIncomeResult = await this.sql`
+      SELECT COALESCE(SUM(jes.credit - jes.debit), 0) AS net_income
+      FROM journal_entry_summary jes
+      WHERE jes.entry_time <= ${fiscalYear.endTime}
+        AND jes.account_code IN (
+          SELECT account_code
+          FROM account_tags
+          WHERE tag IN ('Fiscal Year Closing - Revenue', 'Fiscal Year Closing - Expense', 'Fiscal Year Closing - Dividend')
+        )
+    `;
+    assertPropNumber(netIncomeResult[0], 'net_income', 'Net income is not a number');
+
+    let retainedEarningAccountCode: number | null = null;
+    if (retainedEarningResult.length > 0) {
+      assertPropNumber(retainedEarningResult[0], 'account_code', 'Account code is not a number');
+      retainedEarningAccountCode = retainedEarningResult[0].account_code;
+    }
+
+    return {
+      fiscalYear,
+      unpostedJournalEntryRefs: unpostedResult.map(function (row) {
+        assertPropNumber(row, 'ref', 'Journal entry ref is not a number');
+        return row.ref;
+      }),
+      retainedEarningAccountCode,
+      netIncome: netIncomeResult[0].net_income,
+    };
+  }
+
+  /**
+   * Close the fiscal year by setting its post_time. The closing trigger posts the closing entry and marks the year closed.
+   */
+  async closeFiscalYear(name: string, postTime: number): Promise<FiscalYear> {
+    const closedYear = await this.transaction(async () => {
+      const fiscalYear = await this.getFiscalYearByName(name);
+      if (fiscalYear === null) {
+        throw new Error(`Fiscal year ${name} does not exist`);
+      }
+      if (fiscalYear.isClosed) {
+        throw new Error(`Fiscal year ${name} is already closed`);
+      }
+      await this.sql`
+        UPDATE fiscal_years
+        SET post_time = ${postTime}
+        WHERE begin_time = ${fiscalYear.beginTime}
+      `;
+      const closedFiscalYear = await this.getFiscalYearByName(name);
+      assertDefined(closedFiscalYear, `Fiscal year ${name} disappeared while closing`);
+      return closedFiscalYear;
+    });
+    if (closedYear.closingJournalEntryRef !== null) {
+      this.#notifyJournalEntriesPosted([closedYear.closingJournalEntryRef]);
+    }
+    return closedYear;
+  }
+
   async sqlQuery(query: string, params?: unknown[]): Promise<Array<unknown>> {
     return await this.rawSql(query, params);
   }
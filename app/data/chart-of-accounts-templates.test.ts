@@ -0,0 +1,56 @@
+import { ok, strictEqual } from 'node:assert/strict';
+import { describe, it, suite } from 'node:test';
+
+import { ALL_ACCOUNT_TAGS } from '@app/data/account-tags.js';
+import {
+  CHART_OF_ACCOUNTS_TEMPLATES,
+  findChartOfAccountsTemplateForBusinessType,
+  getChartOfAccountsTemplate,
+} from '@app/data/chart-of-accounts-templates.js';
+
+suite('ChartOfAccountsTemplates', function () {
+  describe('bundled templates', function () {
+    for (const template of CHART_OF_ACCOUNTS_TEMPLATES) {
+      it(`${template.id} is a consistent chart of accounts`, function () {
+        const accountCodes = new Set<number>();
+        const names = new Set<string>();
+        for (const account of template.accounts) {
+          ok(!accountCodes.has(account.accountCode), `account code ${account.accountCode} should be unique`);
+          ok(!names.has(account.name), `account name "${account.name}" should be unique`);
+          if (account.controlAccountCode !== undefined) {
+            ok(accountCodes.has(account.controlAccountCode), `control account of ${account.accountCode} should come first`);
+          }
+          for (const tag of account.tags) {
+            ok(ALL_ACCOUNT_TAGS.includes(tag as typeof ALL_ACCOUNT_TAGS[number]), `tag "${tag}" should be predefined`);
+          }
+          accountCodes.add(account.accountCode);
+          names.add(account.name);
+        }
+
+        const postingAccounts = template.accounts.filter(account => !template.accounts.some(other => other.controlAccountCode === account.accountCode));
+        for (const account of postingAccounts) {
+          ok(account.tags.some(tag => tag.startsWith('Balance Sheet - ') || tag.startsWith('Income Statement - ')), `account ${account.accountCode} should be classified for a statement`);
+          ok(account.tags.some(tag => tag.startsWith('Cash Flow - ') || tag === 'Fiscal Year Closing - Retained Earning'), `account ${account.accountCode} should be classified for the cash flow statement`);
+        }
+        strictEqual(template.accounts.filter(account => account.tags.includes('Fiscal Year Closing - Retained Earning')).length, 1);
+        ok(template.accounts.some(account => account.tags.includes('Cash Flow - Cash Equivalents')));
+      });
+    }
+  });
+
+  describe('template lookup', function () {
+    it('finds templates by id', function () {
+      strictEqual(getChartOfAccountsTemplate('retail')?.name, 'Retail Shop');
+      strictEqual(getChartOfAccountsTemplate('unknown'), null);
+    });
+
+    it('matches the business type config by keyword', function () {
+      strictEqual(findChartOfAccountsTemplateForBusinessType('UMKM Kuliner')?.id, 'sak-emkm');
+      strictEqual(findChartOfAccountsTemplateForBusinessType('Coffee Shop')?.id, 'retail');
+      strictEqual(findChartOfAccountsTemplateForBusinessType('Software Consultancy')?.id, 'services');
+      strictEqual(findChartOfAccountsTemplateForBusinessType('IFRS SME')?.id, 'ifrs-sme');
+      strictEqual(findChartOfAccountsTemplateForBusinessType('Fishing'), null);
+      strictEqual(findChartOfAccountsTemplateForBusinessType(''), null);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+export type ChartOfAccountsTemplateAccount = {
+  accountCode: number;
+  name: string;
+  normalBalance: 'debit' | 'credit';
+  /** Must appear earlier in the template. */
+  controlAccountCode?: number;
+  tags: string[];
+};
+
+export type ChartOfAccountsTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  /** Lowercase keywords matched against the Business Type config. */
+  businessTypeKeywords: string[];
+  accounts: ChartOfAccountsTemplateAccount[];
+};
+
+// Tag sets shared by posting accounts. Control accounts only carry their account type tag
+// so reports list the accounts that hold balances.
+const CASH_TAGS = ['Asset', 'Current Asset', 'Balance Sheet - Current Asset', 'Cash Flow - Cash Equivalents'];
+const CURRENT_ASSET_TAGS = ['Asset', 'Current Asset', 'Balance Sheet - Current Asset', 'Cash Flow - Working Capital - Current Asset'];
+const NON_CURRENT_ASSET_TAGS = ['Asset', 'Non-Current Asset', 'Balance Sheet - Non-Current Asset', 'Cash Flow - Activity - Investing'];
+const ACCUMULATED_DEPRECIATION_TAGS = ['Contra Asset', 'Non-Current Asset', 'Balance Sheet - Non-Current Asset', 'Cash Flow - Non-Cash - Depreciation'];
+const CURRENT_LIABILITY_TAGS = ['Liability', 'Current Liability', 'Balance Sheet - Current Liability', 'Cash Flow - Working Capital - Current Liability'];
+const NON_CURRENT_LIABILITY_TAGS = ['Liability', 'Non-Current Liability', 'Balance Sheet - Non-Current Liability', 'Cash Flow - Activity - Financing'];
+const CAPITAL_TAGS = ['Equity', 'Balance Sheet - Equity', 'Cash Flow - Activity - Financing'];
+const RETAINED_EARNINGS_TAGS = ['Equity', 'Balance Sheet - Equity', 'Fiscal Year Closing - Retained Earning'];
+const DRAWING_TAGS = ['Contra Equity', 'Balance Sheet - Equity', 'Fiscal Year Closing - Dividend', 'Cash Flow - Activity - Financing'];
+const REVENUE_TAGS = ['Revenue', 'Income Statement - Revenue', 'Fiscal Year Closing - Revenue', 'Cash Flow - Revenue'];
+const CONTRA_REVENUE_TAGS = ['Contra Revenue', 'Income Statement - Contra Revenue', 'Fiscal Year Closing - Revenue', 'Cash Flow - Revenue'];
+const OTHER_REVENUE_TAGS = ['Revenue', 'Income Statement - Other Revenue', 'Fiscal Year Closing - Revenue', 'Cash Flow - Revenue'];
+const COGS_TAGS = ['Expense', 'Income Statement - COGS', 'Fiscal Year Closing - Expense', 'Cash Flow - Expense'];
+const EXPENSE_TAGS = ['Expense', 'Income Statement - Expense', 'Fiscal Year Closing - Expense', 'Cash Flow - Expense'];
+const OTHER_EXPENSE_TAGS = ['Expense', 'Income Statement - Other Expense', 'Fiscal Year Closing - Expense', 'Cash Flow - Expense'];
+
+function controlAccount(accountCode: number, name: string, normalBalance: 'debit' | 'credit', typeTag: string, controlAccountCode?: number): ChartOfAccountsTemplateAccount {
+  return { accountCode, name, normalBalance, controlAccountCode, tags: [typeTag] };
+}
+
+function postingAccount(accountCode: number, name: string, normalBalance: 'debit' | 'credit', controlAccountCode: number, tags: string[]): ChartOfAccountsTemplateAccount {
+  return { accountCode, name, normalBalance, controlAccountCode, tags };
+}
+
+const sakEmkmTemplate: ChartOfAccountsTemplate = {
+  id: 'sak-emkm',
+  name: 'SAK EMKM Small Business (Indonesia)',
+  description: 'Indonesian micro, small and medium entity chart of accounts following SAK EMKM, with account names in Bahasa Indonesia.',
+  businessTypeKeywords: ['sak emkm', 'emkm', 'umkm', 'umk', 'usaha mikro', 'usaha kecil', 'warung'],
+  accounts: [
+    controlAccount(1000, 'Aset', 'debit', 'Asset'),
+    controlAccount(1100, 'Aset Lancar', 'debit', 'Asset', 1000),
+    postingAccount(1110, 'Kas', 'debit', 1100, CASH_TAGS),
+    postingAccount(1120, 'Bank', 'debit', 1100, CASH_TAGS),
+    postingAccount(1130, 'Piutang Usaha', 'debit', 1100, CURRENT_ASSET_TAGS),
+    postingAccount(1140, 'Persediaan', 'debit', 1100, CURRENT_ASSET_TAGS),
+    postingAccount(1150, 'Beban Dibayar di Muka', 'debit', 1100, CURRENT_ASSET_TAGS),
+    controlAccount(1200, 'Aset Tetap', 'debit', 'Asset', 1000),
+    postingAccount(1210, 'Peralatan', 'debit', 1200, NON_CURRENT_ASSET_TAGS),
+    postingAccount(1220, 'Kendaraan', 'debit', 1200, NON_CURRENT_ASSET_TAGS),
+    postingAccount(1290, 'Akumulasi Penyusutan Aset Tetap', 'credit', 1200, ACCUMULATED_DEPRECIATION_TAGS),
+    controlAccount(2000, 'Liabilitas', 'credit', 'Liability'),
+    controlAccount(2100, 'Liabilitas Jangka Pendek', 'credit', 'Liability', 2000),
+    postingAccount(2110, 'Utang Usaha', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    postingAccount(2120, 'Utang Pajak', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    postingAccount(2130, 'Beban yang Masih Harus Dibayar', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    controlAccount(2200, 'Liabilitas Jangka Panjang', 'credit', 'Liability', 2000),
+    postingAccount(2210, 'Utang Bank', 'credit', 2200, NON_CURRENT_LIABILITY_TAGS),
+    controlAccount(3000, 'Ekuitas', 'credit', 'Equity'),
+    postingAccount(3100, 'Modal Pemilik', 'credit', 3000, CAPITAL_TAGS),
+    postingAccount(3200, 'Saldo Laba', 'credit', 3000, RETAINED_EARNINGS_TAGS),
+    postingAccount(3300, 'Prive', 'debit', 3000, DRAWING_TAGS),
+    controlAccount(4000, 'Pendapatan', 'credit', 'Revenue'),
+    postingAccount(4100, 'Pendapatan Usaha', 'credit', 4000, REVENUE_TAGS),
+    postingAccount(4200, 'Retur dan Potongan Penjualan', 'debit', 4000, CONTRA_REVENUE_TAGS),
+    postingAccount(4900, 'Pendapatan Lain-lain', 'credit', 4000, OTHER_REVENUE_TAGS),
+    controlAccount(5000, 'Beban', 'debit', 'Expense'),
+    postingAccount(5100, 'Harga Pokok Penjualan', 'debit', 5000, COGS_TAGS),
+    postingAccount(5200, 'Beban Gaji', 'debit', 5000, EXPENSE_TAGS),
+    postingAccount(5300, 'Beban Sewa', 'debit', 5000, EXPENSE_TAGS),
+    postingAccount(5400, 'Beban Listrik, Air dan Telepon', 'debit', 5000, EXPENSE_TAGS),
+    postingAccount(5500, 'Beban Penyusutan', 'debit', 5000, EXPENSE_TAGS),
+    postingAccount(5600, 'Beban Pajak Penghasilan', 'debit', 5000, EXPENSE_TAGS),
+    postingAccount(5900, 'Beban Lain-lain', 'debit', 5000, OTHER_EXPENSE_TAGS),
+  ],
+};
+
+const retailTemplate: ChartOfAccountsTemplate = {
+  id: 'retail',
+  name: 'Retail Shop',
+  description: 'Shop selling goods with inventory, cost of goods sold, sales returns and discounts, and store operating expenses.',
+  businessTypeKeywords: ['retail', 'shop', 'store', 'toko', 'minimarket', 'grocery', 'boutique', 'trading', 'dagang'],
+  accounts: [
+    controlAccount(1000, 'Assets', 'debit', 'Asset'),
+    controlAccount(1100, 'Current Assets', 'debit', 'Asset', 1000),
+    postingAccount(1110, 'Cash on Hand', 'debit', 1100, CASH_TAGS),
+    postingAccount(1120, 'Cash in Bank', 'debit', 1100, CASH_TAGS),
+    postingAccount(1130, 'Card and E-Wallet Settlements', 'debit', 1100, CASH_TAGS),
+    postingAccount(1140, 'Accounts Receivable', 'debit', 1100, CURRENT_ASSET_TAGS),
+    postingAccount(1150, 'Merchandise Inventory', 'debit', 1100, CURRENT_ASSET_TAGS),
+    postingAccount(1160, 'Prepaid Rent', 'debit', 1100, CURRENT_ASSET_TAGS),
+    controlAccount(1200, 'Fixed Assets', 'debit', 'Asset', 1000),
+    postingAccount(1210, 'Store Equipment', 'debit', 1200, NON_CURRENT_ASSET_TAGS),
+    postingAccount(1220, 'Furniture and Fixtures', 'debit', 1200, NON_CURRENT_ASSET_TAGS),
+    postingAccount(1290, 'Accumulated Depreciation', 'credit', 1200, ACCUMULATED_DEPRECIATION_TAGS),
+    controlAccount(2000, 'Liabilities', 'credit', 'Liability'),
+    controlAccount(2100, 'Current Liabilities', 'credit', 'Liability', 2000),
+    postingAccount(2110, 'Accounts Payable', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    postingAccount(2120, 'Sales Tax Payable', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    postingAccount(2130, 'Accrued Wages', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    postingAccount(2140, 'Customer Deposits and Gift Cards', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    controlAccount(2200, 'Long-Term Liabilities', 'credit', 'Liability', 2000),
+    postingAccount(2210, 'Bank Loan', 'credit', 2200, NON_CURRENT_LIABILITY_TAGS),
+    controlAccount(3000, 'Equity', 'credit', 'Equity'),
+    postingAccount(3100, 'Owner Capital', 'credit', 3000, CAPITAL_TAGS),
+    postingAccount(3200, 'Retained Earnings', 'credit', 3000, RETAINED_EARNINGS_TAGS),
+    postingAccount(3300, 'Owner Drawings', 'debit', 3000, DRAWING_TAGS),
+    controlAccount(4000, 'Revenue', 'credit', 'Revenue'),
+    postingAccount(4100, 'Sales', 'credit', 4000, REVENUE_TAGS),
+    postingAccount(4200, 'Sales Returns and Allowances', 'debit', 4000, CONTRA_REVENUE_TAGS),
+    postingAccount(4300, 'Sales Discounts', 'debit', 4000, CONTRA_REVENUE_TAGS),
+    postingAccount(4900, 'Other Income', 'credit', 4000, OTHER_REVENUE_TAGS),
+    controlAccount(5000, 'Cost of Goods Sold', 'debit', 'Expense'),
+    postingAccount(5100, 'Cost of Merchandise Sold', 'debit', 5000, COGS_TAGS),
+    postingAccount(5200, 'Inventory Shrinkage', 'debit', 5000, COGS_TAGS),
+    controlAccount(6000, 'Operating Expenses', 'debit', 'Expense'),
+    postingAccount(6100, 'Salaries and Wages', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6200, 'Rent Expense', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6300, 'Utilities Expense', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6400, 'Payment Processing Fees', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6500, 'Advertising Expense', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6600, 'Depreciation Expense', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6900, 'Interest Expense', 'debit', 6000, OTHER_EXPENSE_TAGS),
+  ],
+};
+
+const servicesTemplate: ChartOfAccountsTemplate = {
+  id: 'services',
+  name: 'Service Company',
+  description: 'Professional or service business billing clients for fees, with unbilled revenue, deferred revenue and staff costs and no inventory.',
+  businessTypeKeywords: ['service', 'jasa', 'consult', 'agency', 'studio', 'freelance', 'software', 'clinic', 'salon', 'law', 'accounting firm'],
+  accounts: [
+    controlAccount(1000, 'Assets', 'debit', 'Asset'),
+    controlAccount(1100, 'Current Assets', 'debit', 'Asset', 1000),
+    postingAccount(1110, 'Cash on Hand', 'debit', 1100, CASH_TAGS),
+    postingAccount(1120, 'Cash in Bank', 'debit', 1100, CASH_TAGS),
+    postingAccount(1130, 'Accounts Receivable', 'debit', 1100, CURRENT_ASSET_TAGS),
+    postingAccount(1140, 'Unbilled Revenue', 'debit', 1100, CURRENT_ASSET_TAGS),
+    postingAccount(1150, 'Prepaid Expenses', 'debit', 1100, CURRENT_ASSET_TAGS),
+    controlAccount(1200, 'Fixed Assets', 'debit', 'Asset', 1000),
+    postingAccount(1210, 'Office Equipment', 'debit', 1200, NON_CURRENT_ASSET_TAGS),
+    postingAccount(1220, 'Computers and Software', 'debit', 1200, NON_CURRENT_ASSET_TAGS),
+    postingAccount(1290, 'Accumulated Depreciation', 'credit', 1200, ACCUMULATED_DEPRECIATION_TAGS),
+    controlAccount(2000, 'Liabilities', 'credit', 'Liability'),
+    controlAccount(2100, 'Current Liabilities', 'credit', 'Liability', 2000),
+    postingAccount(2110, 'Accounts Payable', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    postingAccount(2120, 'Taxes Payable', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    postingAccount(2130, 'Accrued Salaries', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    postingAccount(2140, 'Deferred Revenue', 'credit', 2100, CURRENT_LIABILITY_TAGS),
+    controlAccount(2200, 'Long-Term Liabilities', 'credit', 'Liability', 2000),
+    postingAccount(2210, 'Bank Loan', 'credit', 2200, NON_CURRENT_LIABILITY_TAGS),
+    controlAccount(3000, 'Equity', 'credit', 'Equity'),
+    postingAccount(3100, 'Owner Capital', 'credit', 3000, CAPITAL_TAGS),
+    postingAccount(3200, 'Retained Earnings', 'credit', 3000, RETAINED_EARNINGS_TAGS),
+    postingAccount(3300, 'Owner Drawings', 'debit', 3000, DRAWING_TAGS),
+    controlAccount(4000, 'Revenue', 'credit', 'Revenue'),
+    postingAccount(4100, 'Service Revenue', 'credit', 4000, REVENUE_TAGS),
+    postingAccount(4200, 'Reimbursable Expense Revenue', 'credit', 4000, REVENUE_TAGS),
+    postingAccount(4900, 'Other Income', 'credit', 4000, OTHER_REVENUE_TAGS),
+    controlAccount(5000, 'Cost of Services', 'debit', 'Expense'),
+    postingAccount(5100, 'Subcontractor Costs', 'debit', 5000, COGS_TAGS),
+    postingAccount(5200, 'Billable Project Expenses', 'debit', 5000, COGS_TAGS),
+    controlAccount(6000, 'Operating Expenses', 'debit', 'Expense'),
+    postingAccount(6100, 'Salaries and Benefits', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6200, 'Office Rent', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6300, 'Software Subscriptions', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6400, 'Professional Fees', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6500, 'Travel Expense', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6600, 'Depreciation Expense', 'debit', 6000, EXPENSE_TAGS),
+    postingAccount(6900, 'Bank Charges and Interest', 'debit', 6000, OTHER_EXPENSE_TAGS),
+  ],
+};
+
+const ifrsSmeTemplate: ChartOfAccountsTemplate = {
+  id: 'ifrs-sme',
+  name: 'Generic IFRS for SMEs',
+  description: 'General-purpose chart of accounts following the IFRS for SMEs statement of financial position and income statement line items.',
+  businessTypeKeywords: ['ifrs', 'sme', 'general', 'generic', 'holding', 'company'],
+  accounts: [
+    controlAccount(10000, 'Assets', 'debit', 'Asset'),
+    controlAccount(11000, 'Current Assets', 'debit', 'Asset', 10000),
+    postingAccount(11100, 'Cash and Cash Equivalents', 'debit', 11000, CASH_TAGS),
+    postingAccount(11200, 'Trade and Other Receivables', 'debit', 11000, CURRENT_ASSET_TAGS),
+    postingAccount(11300, 'Inventories', 'debit', 11000, CURRENT_ASSET_TAGS),
+    postingAccount(11400, 'Prepayments', 'debit', 11000, CURRENT_ASSET_TAGS),
+    postingAccount(11500, 'Current Tax Assets', 'debit', 11000, CURRENT_ASSET_TAGS),
+    controlAccount(12000, 'Non-Current Assets', 'debit', 'Asset', 10000),
+    postingAccount(12100, 'Property, Plant and Equipment', 'debit', 12000, NON_CURRENT_ASSET_TAGS),
+    postingAccount(12190, 'Accumulated Depreciation', 'credit', 12000, ACCUMULATED_DEPRECIATION_TAGS),
+    postingAccount(12200, 'Intangible Assets', 'debit', 12000, NON_CURRENT_ASSET_TAGS),
+    postingAccount(12300, 'Investment Property', 'debit', 12000, NON_CURRENT_ASSET_TAGS),
+    controlAccount(20000, 'Liabilities', 'credit', 'Liability'),
+    controlAccount(21000, 'Current Liabilities', 'credit', 'Liability', 20000),
+    postingAccount(21100, 'Trade and Other Payables', 'credit', 21000, CURRENT_LIABILITY_TAGS),
+    postingAccount(21200, 'Current Tax Liabilities', 'credit', 21000, CURRENT_LIABILITY_TAGS),
+    postingAccount(21300, 'Accruals', 'credit', 21000, CURRENT_LIABILITY_TAGS),
+    postingAccount(21400, 'Short-Term Provisions', 'credit', 21000, CURRENT_LIABILITY_TAGS),
+    controlAccount(22000, 'Non-Current Liabilities', 'credit', 'Liability', 20000),
+    postingAccount(22100, 'Borrowings', 'credit', 22000, NON_CURRENT_LIABILITY_TAGS),
+    postingAccount(22200, 'Long-Term Provisions', 'credit', 22000, NON_CURRENT_LIABILITY_TAGS),
+    controlAccount(30000, 'Equity', 'credit', 'Equity'),
+    postingAccount(31000, 'Share Capital', 'credit', 30000, CAPITAL_TAGS),
+    postingAccount(32000, 'Retained Earnings', 'credit', 30000, RETAINED_EARNINGS_TAGS),
+    postingAccount(33000, 'Dividends Declared', 'debit', 30000, DRAWING_TAGS),
+    controlAccount(40000, 'Income', 'credit', 'Revenue'),
+    postingAccount(41000, 'Revenue', 'credit', 40000, REVENUE_TAGS),
+    postingAccount(42000, 'Sales Returns and Discounts', 'debit', 40000, CONTRA_REVENUE_TAGS),
+    postingAccount(49000, 'Other Income', 'credit', 40000, OTHER_REVENUE_TAGS),
+    controlAccount(50000, 'Cost of Sales', 'debit', 'Expense'),
+    postingAccount(51000, 'Cost of Goods and Services Sold', 'debit', 50000, COGS_TAGS),
+    controlAccount(60000, 'Operating Expenses', 'debit', 'Expense'),
+    postingAccount(61000, 'Distribution Costs', 'debit', 60000, EXPENSE_TAGS),
+    postingAccount(62000, 'Administrative Expenses', 'debit', 60000, EXPENSE_TAGS),
+    postingAccount(63000, 'Employee Benefits Expense', 'debit', 60000, EXPENSE_TAGS),
+    postingAccount(64000, 'Depreciation and Amortization', 'debit', 60000, EXPENSE_TAGS),
+    postingAccount(69000, 'Finance Costs', 'debit', 60000, OTHER_EXPENSE_TAGS),
+    postingAccount(69500, 'Income Tax Expense', 'debit', 60000, OTHER_EXPENSE_TAGS),
+  ],
+};
+
+export const CHART_OF_ACCOUNTS_TEMPLATES: ChartOfAccountsTemplate[] = [
+  sakEmkmTemplate,
+  retailTemplate,
+  servicesTemplate,
+  ifrsSmeTemplate,
+];
+
+export function getChartOfAccountsTemplate(id: string): ChartOfAccountsTemplate | null {
+  return CHART_OF_ACCOUNTS_TEMPLATES.find(template => template.id === id) ?? null;
+}
+
+/**
+ * The first template with a keyword contained in the business type, null when none matches.
+ */
+export function findChartOfAccountsTemplateForBusinessType(businessType: string): ChartOfAccountsTemplate | null {
+  const normalizedBusinessType = businessType.trim().toLowerCase();
+  if (normalizedBusinessType.length === 0) {
+    return null;
+  }
+  return CHART_OF_ACCOUNTS_TEMPLATES.find(function (template) {
+    return template.businessTypeKeywords.some(keyword => normalizedBusinessType.includes(keyword));
+  }) ?? null;
+}
@@ -0,0 +1,33 @@
+-- Books kept with the 1.0 schema (fixtures/sqlite-accounting-schema-1.0.sql), before schema_migrations existed.
+-- Used to check that the migrations upgrade such a database without losing data.
+
+UPDATE user_config SET value = 'Kopi Lama' WHERE key = 'Business Name'; -- EOS
+
+INSERT INTO accounts (account_code, name, normal_balance, created_at, updated_at) VALUES
+  (1000, 'Assets', 0, 0, 0),
+  (3000, 'Capital', 1, 0, 0),
+  (4000, 'Sales', 1, 0, 0); -- EOS
+INSERT INTO accounts (account_code, name, normal_balance, control_account_code, created_at, updated_at) VALUES
+  (1100, 'Cash', 0, 1000, 0, 0); -- EOS
+
+INSERT INTO account_tags (account_code, tag) VALUES
+  (1100, 'Balance Sheet - Current Asset'),
+  (1100, 'Cash Flow - Cash Equivalents'),
+  (3000, 'Balance Sheet - Equity'),
+  (4000, 'Income Statement - Revenue'); -- EOS
+
+INSERT INTO journal_entries (ref, entry_time, note, idempotent_key) VALUES
+  (1, 1704412800000, 'Owner investment', 'investment-2024-01'),
+  (2, 1705276800000, 'Cash sales', NULL),
+  (3, 1706140800000, 'Unconfirmed sale', NULL); -- EOS
+INSERT INTO journal_entry_lines_auto_number (journal_entry_ref, account_code, debit, credit, description) VALUES
+  (1, 1100, 1000, 0, NULL),
+  (1, 3000, 0, 1000, NULL),
+  (2, 1100, 250, 0, 'Till'),
+  (2, 4000, 0, 250, NULL),
+  (3, 1100, 40, 0, NULL),
+  (3, 4000, 0, 40, NULL); -- EOS
+UPDATE journal_entries SET post_time = entry_time WHERE ref IN (1, 2); -- EOS
+
+INSERT INTO balance_reports (report_time, report_type, name, created_at) VALUES
+  (1706745600000, 'Monthly', 'January 2024', 1706745600000); -- EOS
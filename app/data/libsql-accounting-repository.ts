@@ -1,30 +1,47 @@
-import { readFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
+import { AsyncLocalStorage } from 'node:async_hooks';
 
-import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { AccountingRepository, type ConnectOptions } from '@app/data/accounting-repository.js';
+import { runReadOnlyQueryProcess, runReadOnlyQueryProcessOnSnapshot } from '@app/data/read-only-query-process.js';
 import { assertArray } from '@app/tools/assertion.js';
 import { createClient } from '@libsql/client';
-import type { Client } from '@libsql/client';
+import type { Client, Transaction } from '@libsql/client';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+function toLibsqlArgs(params?: Array<unknown>) {
+  return (params ?? []).map(function (param) {
+    if (typeof param === 'boolean') {
+      return param ? 1 : 0;
+    }
+    else if (typeof param === 'string' || typeof param === 'number') {
+      if (Number.isNaN(param)) {
+        throw new Error('NaN is not a valid SQL parameter');
+      }
+      return param;
+    }
+    else if (param === null || param === undefined) {
+      return null;
+    }
+    else {
+      throw new Error('Unsupported parameter type');
+    }
+  });
+}
 
 export class LibsqlAccountingRepository extends AccountingRepository {
+  #url: string;
   #lib: Client;
+  #transactionContext = new AsyncLocalStorage<{ executor: Client | Transaction; savepointCount: number }>();
+  #transactionQueue: Promise<void> | null = null;
 
   constructor(url: string, authToken?: string) {
     super();
+    this.#url = url;
     this.#lib = createClient({ url, authToken });
   }
 
-  async connect(): Promise<void> {
-    const schemaFiles = [
-      join(__dirname, './sqlite-accounting-schema.sql'),
-    ];
-    for (const file of schemaFiles) {
-      const schemaContent = await readFile(file, { encoding: 'utf-8' });
-      await this.#lib.executeMultiple(schemaContent);
+  async connect(options: ConnectOptions = {}): Promise<void> {
+    await this.#lib.execute('PRAGMA foreign_keys = ON');
+    if (options.skipMigrations !== true) {
+      await this.migrate();
     }
   }
 
@@ -32,6 +49,66 @@ export class LibsqlAccountingRepository extends AccountingRepository {
     this.#lib.close();
   }
 
+  /**
+   * Run fn inside a database transaction. Remote databases use libsql interactive transactions.
+   * Local databases share one connection that interactive transactions would detach (losing :memory: data),
+   * so they are wrapped in BEGIN/COMMIT on that connection. Nested calls use savepoints.
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const context = this.#transactionContext.getStore();
+    if (context !== undefined) {
+      const savepoint = `transaction_savepoint_${++context.savepointCount}`;
+      await context.executor.execute(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = await fn();
+        await context.executor.execute(`RELEASE ${savepoint}`);
+        return result;
+      }
+      catch (error) {
+        await context.executor.execute(`ROLLBACK TO ${savepoint}`);
+        await context.executor.execute(`RELEASE ${savepoint}`);
+        throw error;
+      }
+    }
+
+    const run = async () => {
+      if (this.#lib.protocol === 'file') {
+        await this.#lib.execute('BEGIN IMMEDIATE');
+        try {
+          const result = await this.#transactionContext.run({ executor: this.#lib, savepointCount: 0 }, fn);
+          await this.#lib.execute('COMMIT');
+          return result;
+        }
+        catch (error) {
+          await this.#lib.execute('ROLLBACK');
+          throw error;
+        }
+      }
+      const transaction = await this.#lib.transaction('write');
+      try {
+        const result = await this.#transactionContext.run({ executor: transaction, savepointCount: 0 }, fn);
+        await transaction.commit();
+        return result;
+      }
+      catch (error) {
+        await transaction.rollback();
+        throw error;
+      }
+      finally {
+        transaction.close();
+      }
+    };
+    const current = (this.#transactionQueue ?? Promise.resolve()).then(run);
+    const queue = current.then(function () { }, function () { });
+    this.#transactionQueue = queue;
+    queue.then(() => {
+      if (this.#transactionQueue === queue) {
+        this.#transactionQueue = null;
+      }
+    });
+    return await current;
+  }
+
   async sql<T extends unknown>(query: TemplateStringsArray, ...params: unknown[]): Promise<Array<T>> {
     const fullQuery = query.reduce(function (fullSql, partialSql, index) {
       return fullSql + partialSql + (index < params.length ? '?' : '');
@@ -40,24 +117,13 @@ export class LibsqlAccountingRepository extends AccountingRepository {
   }
 
   async rawSql<T extends unknown>(query: string, params?: Array<unknown>): Promise<Array<T>> {
-    const validParams = (params ?? []).map(function (param) {
-      if (typeof param === 'boolean') {
-        return param ? 1 : 0;
-      }
-      else if (typeof param === 'string' || typeof param === 'number') {
-        if (Number.isNaN(param)) {
-          throw new Error('NaN is not a valid SQL parameter');
-        }
-        return param;
-      }
-      else if (param === null || param === undefined) {
-        return null;
-      }
-      else {
-        throw new Error('Unsupported parameter type');
-      }
-    });
-    const result = await this.#lib.execute(query, validParams);
+    const validParams = toLibsqlArgs(params);
+    const context = this.#transactionContext.getStore();
+    while (context === undefined && this.#transactionQueue !== null) {
+      await this.#transactionQueue;
+    }
+    const executor = context?.executor ?? this.#lib;
+    const result = await executor.execute({ sql: query, args: validParams });
     if (result.rows === undefined) {
       return [];
     }
@@ -66,4 +132,54 @@ export class LibsqlAccountingRepository extends AccountingRepository {
     return array as Array<T>;
   }
 
+  /**
+   * Remote databases run the statement in a libsql read transaction. Local databases turn on query_only
+   * inside a transaction on the shared connection, since a read transaction would detach it.
+   * With timeoutMs, local databases outside of a transaction run the statement in a child process instead,
+   * on the database file or on a snapshot of an in-memory database, that is killed once the time budget has passed.
+   * libsql cannot stop a statement on a remote database, so there timeoutMs only rejects results that arrive late
+   * and the server applies its own statement timeout.
+   */
+  protected async rawReadOnlySql<T extends unknown>(query: string, params?: Array<unknown>, timeoutMs?: number): Promise<Array<T>> {
+    if (timeoutMs !== undefined && this.#lib.protocol === 'file' && this.#transactionContext.getStore() === undefined) {
+      const databasePath = this.#url.replace(/^file:(\/\/)?/, '').replace(/\?.*$/, '');
+      if (databasePath !== ':memory:') {
+        return await runReadOnlyQueryProcess<T>(databasePath, query, toLibsqlArgs(params), timeoutMs);
+      }
+      return await runReadOnlyQueryProcessOnSnapshot<T>(async (snapshotPath) => {
+        await this.rawSql('VACUUM INTO ?', [snapshotPath]);
+      }, query, toLibsqlArgs(params), timeoutMs);
+    }
+    const startTime = Date.now();
+    const rows = await this.#executeReadOnly<T>(query, params);
+    if (timeoutMs !== undefined && Date.now() - startTime > timeoutMs) {
+      throw new Error(`Query exceeded the time budget of ${timeoutMs} ms`);
+    }
+    return rows;
+  }
+
+  async #executeReadOnly<T extends unknown>(query: string, params?: Array<unknown>): Promise<Array<T>> {
+    if (this.#lib.protocol === 'file') {
+      return await this.transaction(async () => {
+        await this.rawSql('PRAGMA query_only = ON');
+        try {
+          return await this.rawSql<T>(query, params);
+        }
+        finally {
+          await this.rawSql('PRAGMA query_only = OFF');
+        }
+      });
+    }
+    const transaction = await this.#lib.transaction('read');
+    try {
+      const result = await transaction.execute({ sql: query, args: toLibsqlArgs(params) });
+      const array = Array.from(result.rows ?? []);
+      assertArray(array);
+      return array as Array<T>;
+    }
+    finally {
+      transaction.close();
+    }
+  }
+
 }
@@ -0,0 +1,82 @@
+-- Allow user-defined custom tags in the 'Custom:' namespace alongside the predefined tags.
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt and its rows copied over.
+-- Nothing references account_tags by foreign key. Views and triggers that read it are left untouched
+-- by the legacy rename and resolve against the rebuilt table.
+
+CREATE TABLE account_tags_with_custom_tags (
+  account_code INTEGER NOT NULL REFERENCES accounts (account_code) ON UPDATE RESTRICT ON DELETE RESTRICT,
+  tag TEXT NOT NULL CHECK (tag IN (
+    -- Account Types
+    'Asset',
+    'Liability',
+    'Equity',
+    'Revenue',
+    'Expense',
+    'Contra Asset',
+    'Contra Liability',
+    'Contra Equity',
+    'Contra Revenue',
+    'Contra Expense',
+
+    -- Account Classifications
+    'Current Asset',
+    'Non-Current Asset',
+    'Current Liability',
+    'Non-Current Liability',
+
+    -- Fiscal Year Closing Tags
+    'Fiscal Year Closing - Retained Earning',
+    'Fiscal Year Closing - Revenue',
+    'Fiscal Year Closing - Expense',
+    'Fiscal Year Closing - Dividend',
+    
+    -- Balance Sheet Classification
+    'Balance Sheet - Current Asset',
+    'Balance Sheet - Non-Current Asset',
+    'Balance Sheet - Current Liability',
+    'Balance Sheet - Non-Current Liability',
+    'Balance Sheet - Equity',
+    
+    -- Income Statement Classification
+    'Income Statement - Revenue',
+    'Income Statement - Contra Revenue',
+    'Income Statement - Other Revenue',
+    'Income Statement - COGS',
+    'Income Statement - Expense',
+    'Income Statement - Other Expense',
+    
+    -- Cash Flow Statement Tags
+    'Cash Flow - Cash Equivalents',
+    'Cash Flow - Revenue',
+    'Cash Flow - Expense',
+    'Cash Flow - Activity - Operating',
+    'Cash Flow - Activity - Investing',
+    'Cash Flow - Activity - Financing',
+    'Cash Flow - Non-Cash - Depreciation',
+    'Cash Flow - Non-Cash - Amortization',
+    'Cash Flow - Non-Cash - Impairment',
+    'Cash Flow - Non-Cash - Gain/Loss',
+    'Cash Flow - Non-Cash - Stock Compensation',
+    'Cash Flow - Working Capital - Current Asset',
+    'Cash Flow - Working Capital - Current Liability'
+  ) OR (
+    -- Custom Tags, e.g. 'Custom:Branch Jakarta'
+    substr(tag, 1, 7) = 'Custom:' AND length(trim(substr(tag, 8))) > 0
+  )),
+  PRIMARY KEY (account_code, tag)
+) STRICT, WITHOUT ROWID; -- EOS
+
+INSERT INTO account_tags_with_custom_tags (account_code, tag)
+SELECT account_code, tag FROM account_tags; -- EOS
+
+PRAGMA legacy_alter_table = ON; -- EOS
+
+DROP TABLE account_tags; -- EOS
+
+ALTER TABLE account_tags_with_custom_tags RENAME TO account_tags; -- EOS
+
+PRAGMA legacy_alter_table = OFF; -- EOS
+
+CREATE INDEX IF NOT EXISTS account_tags_account_index ON account_tags (account_code); -- EOS
+CREATE INDEX IF NOT EXISTS account_tags_tag_index ON account_tags (tag); -- EOS
+CREATE INDEX IF NOT EXISTS account_tags_tag_account_index ON account_tags (tag, account_code); -- EOS
@@ -0,0 +1,43 @@
+-- Renumbering and merging accounts. account_code_changes keeps the audit record of every mapping,
+-- and posted journal entry lines may only move to another account through the latest mapping.
+
+CREATE TABLE IF NOT EXISTS account_code_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  change_type TEXT NOT NULL CHECK (change_type IN ('Renumber', 'Merge')),
+  -- No foreign keys: the old account is deleted, and the new account may be renumbered or merged later
+  old_account_code INTEGER NOT NULL,
+  old_account_name TEXT NOT NULL,
+  new_account_code INTEGER NOT NULL,
+  changed_at INTEGER NOT NULL,
+  CHECK (old_account_code != new_account_code)
+) STRICT; -- EOS
+
+CREATE INDEX IF NOT EXISTS account_code_changes_old_account_index ON account_code_changes (old_account_code); -- EOS
+CREATE INDEX IF NOT EXISTS account_code_changes_new_account_index ON account_code_changes (new_account_code); -- EOS
+
+-- Prevent modification of posted journal entry lines, except moving a line to another account
+-- as recorded by the latest account_code_changes row.
+DROP TRIGGER IF EXISTS journal_entry_lines_update_prevention_trigger; -- EOS
+CREATE TRIGGER journal_entry_lines_update_prevention_trigger
+BEFORE UPDATE ON journal_entry_lines FOR EACH ROW
+BEGIN
+  SELECT
+    CASE
+      WHEN (SELECT post_time FROM journal_entries WHERE ref = old.journal_entry_ref) IS NOT NULL
+        AND NOT (
+          new.journal_entry_ref = old.journal_entry_ref
+          AND new.line_number = old.line_number
+          AND new.debit = old.debit
+          AND new.credit = old.credit
+          AND new.description IS old.description
+          AND new.reference IS old.reference
+          AND EXISTS (
+            SELECT 1 FROM account_code_changes
+            WHERE id = (SELECT MAX(id) FROM account_code_changes)
+              AND old_account_code = old.account_code
+              AND new_account_code = new.account_code
+          )
+        )
+      THEN RAISE(ABORT, 'Cannot modify lines of posted journal entry')
+    END;
+END; -- EOS
@@ -0,0 +1,26 @@
+-- Only close accounts that are settled. Inactive accounts are left out of the generated trial balance,
+-- so an account with a remaining balance, active sub-accounts or pending drafts must stay active.
+
+DROP TRIGGER IF EXISTS accounts_deactivation_validation_trigger; -- EOS
+CREATE TRIGGER accounts_deactivation_validation_trigger
+BEFORE UPDATE OF is_active ON accounts FOR EACH ROW
+WHEN OLD.is_active = 1 AND NEW.is_active = 0
+BEGIN
+  SELECT
+    CASE
+      WHEN NEW.balance != 0
+      THEN RAISE(ABORT, 'Cannot deactivate account with a non-zero balance')
+      WHEN EXISTS (
+        SELECT 1 FROM accounts a WHERE a.control_account_code = NEW.account_code AND a.is_active = 1
+      )
+      THEN RAISE(ABORT, 'Cannot deactivate account with active child accounts')
+      WHEN EXISTS (
+        SELECT 1
+        FROM journal_entry_lines jel
+        JOIN journal_entries je ON je.ref = jel.journal_entry_ref
+        WHERE jel.account_code = NEW.account_code
+          AND je.post_time IS NULL
+      )
+      THEN RAISE(ABORT, 'Cannot deactivate account used by journal entry drafts')
+    END;
+END; -- EOS
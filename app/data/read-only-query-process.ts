@@ -0,0 +1,123 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deserialize, serialize } from 'node:v8';
+
+import { assertArray } from '@app/tools/assertion.js';
+
+/**
+ * Source of the child process. It reads { databasePath, query, params } from stdin,
+ * runs the statement on a read-only connection and writes { rows } or { error } to stdout.
+ */
+const READ_ONLY_QUERY_PROCESS_SOURCE = `
+const { DatabaseSync } = require('node:sqlite');
+const { deserialize, serialize } = require('node:v8');
+const chunks = [];
+process.stdin.on('data', function (chunk) { chunks.push(chunk); });
+process.stdin.on('end', function () {
+  const { databasePath, query, params } = deserialize(Buffer.concat(chunks));
+  let response;
+  try {
+    const db = new DatabaseSync(databasePath, { readOnly: true });
+    try {
+      response = { rows: db.prepare(query).all(...params) };
+    }
+    finally {
+      db.close();
+    }
+  }
+  catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  process.stdout.write(serialize(response));
+});
+`;
+
+function getChildProcessEnv() {
+  // The parent may run through a TypeScript loader the child does not need
+  const env = { ...process.env };
+  delete env.NODE_OPTIONS;
+  return env;
+}
+
+/**
+ * Run a read-only statement in a child process on its own read-only connection to the database file.
+ * The child is killed once timeoutMs has passed, which stops the statement even when it never yields a row,
+ * and the event loop of this process stays free while it runs.
+ */
+export function runReadOnlyQueryProcess<T extends unknown>(databasePath: string, query: string, params: Array<unknown>, timeoutMs: number): Promise<Array<T>> {
+  return new Promise(function (resolve, reject) {
+    const child = spawn(process.execPath, ['--no-warnings', '--eval', READ_ONLY_QUERY_PROCESS_SOURCE], {
+      env: getChildProcessEnv(),
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    let timedOut = false;
+    const timer = setTimeout(function () {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.on('data', function (chunk: Buffer) {
+      stdoutChunks.push(chunk);
+    });
+    child.stderr.on('data', function (chunk: Buffer) {
+      stderrChunks.push(chunk);
+    });
+    child.on('error', function (error) {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', function (exitCode) {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`Query exceeded the time budget of ${timeoutMs} ms`));
+        return;
+      }
+      if (exitCode !== 0) {
+        reject(new Error(`Read-only query process exited with code ${exitCode}: ${Buffer.concat(stderrChunks).toString('utf-8').trim()}`));
+        return;
+      }
+      try {
+        const response = deserialize(Buffer.concat(stdoutChunks)) as { rows?: unknown; error?: string };
+        if (response.error !== undefined) {
+          reject(new Error(response.error));
+          return;
+        }
+        assertArray(response.rows, 'SQL query result is not an array');
+        resolve(response.rows as Array<T>);
+      }
+      catch (error) {
+        reject(error);
+      }
+    });
+
+    child.stdin.on('error', function () {
+      // The child may be killed before it has read the whole request
+    });
+    child.stdin.end(serialize({ databasePath, query, params }));
+  });
+}
+
+/**
+ * Like runReadOnlyQueryProcess for databases the child process cannot open, such as in-memory ones.
+ * writeSnapshot must copy the committed database into the given file, for example with VACUUM INTO.
+ */
+export async function runReadOnlyQueryProcessOnSnapshot<T extends unknown>(
+  writeSnapshot: (snapshotPath: string) => Promise<void>,
+  query: string,
+  params: Array<unknown>,
+  timeoutMs: number,
+): Promise<Array<T>> {
+  const snapshotDir = await mkdtemp(join(tmpdir(), 'jurukasa-read-only-query-'));
+  try {
+    const snapshotPath = join(snapshotDir, 'snapshot.db');
+    await writeSnapshot(snapshotPath);
+    return await runReadOnlyQueryProcess<T>(snapshotPath, query, params, timeoutMs);
+  }
+  finally {
+    await rm(snapshotDir, { recursive: true, force: true });
+  }
+}
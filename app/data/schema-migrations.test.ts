@@ -0,0 +1,117 @@
+import { deepEqual, ok, rejects, strictEqual } from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, suite } from 'node:test';
+
+import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { LibsqlAccountingRepository } from '@app/data/libsql-accounting-repository.js';
+import { loadSchemaMigrations, splitMigrationStatements } from '@app/data/schema-migrations.js';
+import { SqliteAccountingRepository } from '@app/data/sqlite-accounting-repository.js';
+
+suite('SchemaMigrations', function () {
+  describe('loadSchemaMigrations', function () {
+    it('loads the bundled migrations in version order', async function () {
+      const migrations = await loadSchemaMigrations();
+      strictEqual(migrations[0].version, 1);
+      strictEqual(migrations[0].name, 'initial-schema');
+      ok(migrations[0].script.includes('CREATE TABLE IF NOT EXISTS accounts'));
+      for (let index = 1; index < migrations.length; index++) {
+        ok(migrations[index].version > migrations[index - 1].version);
+      }
+    });
+
+    it('ignores other files and rejects duplicate versions', async function () {
+      const directory = await mkdtemp(join(tmpdir(), 'jurukasa-migrations-'));
+      try {
+        await writeFile(join(directory, '0002-second.sql'), 'SELECT 2; -- EOS');
+        await writeFile(join(directory, '0001-first.sql'), 'SELECT 1; -- EOS');
+        await writeFile(join(directory, 'README.md'), 'not a migration');
+        const migrations = await loadSchemaMigrations(directory);
+        deepEqual(migrations.map(migration => migration.name), ['first', 'second']);
+
+        await writeFile(join(directory, '002-duplicate.sql'), 'SELECT 3; -- EOS');
+        await rejects(loadSchemaMigrations(directory), /Duplicate schema migration version 2/);
+      }
+      finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('splitMigrationStatements', function () {
+    it('splits on EOS markers and drops comment-only chunks', function () {
+      const statements = splitMigrationStatements([
+        '-- header comment',
+        '-- PRAGMA journal_mode = WAL; -- EOS',
+        '',
+        '-- Accounts',
+        'CREATE TABLE a (id INTEGER); -- EOS',
+        'CREATE TRIGGER t AFTER INSERT ON a BEGIN',
+        '  SELECT 1;',
+        'END; -- EOS',
+        '',
+      ].join('\n'));
+      deepEqual(statements, [
+        '-- Accounts\nCREATE TABLE a (id INTEGER);',
+        'CREATE TRIGGER t AFTER INSERT ON a BEGIN\n  SELECT 1;\nEND;',
+      ]);
+    });
+  });
+
+  describe('upgrading a 1.0 database', function () {
+    const adapters: Array<[string, () => AccountingRepository]> = [
+      ['sqlite', () => new SqliteAccountingRepository(':memory:')],
+      ['libsql', () => new LibsqlAccountingRepository(':memory:')],
+    ];
+
+    async function runFixture(repo: AccountingRepository, fileName: string) {
+      const script = await readFile(new URL(`./fixtures/${fileName}`, import.meta.url), { encoding: 'utf-8' });
+      for (const statement of splitMigrationStatements(script)) {
+        await repo.rawSql(statement);
+      }
+    }
+
+    for (const [adapterName, createRepository] of adapters) {
+      it(`keeps the books of a 1.0 database (${adapterName})`, async function () {
+        const repo = createRepository();
+        await repo.connect({ skipMigrations: true });
+        try {
+          await runFixture(repo, 'sqlite-accounting-schema-1.0.sql');
+          await runFixture(repo, 'sqlite-accounting-data-1.0.sql');
+
+          const applied = await repo.migrate();
+          deepEqual(applied.map(migration => migration.version), (await loadSchemaMigrations()).map(migration => migration.version));
+          deepEqual(await repo.sql`PRAGMA foreign_key_check`, []);
+
+          strictEqual((await repo.getUserConfig()).businessName, 'Kopi Lama');
+          const accounts = await repo.getManyAccounts({ accountCodes: [1000, 1100, 3000, 4000] });
+          deepEqual(accounts.map(account => [account.accountCode, account.name, account.balance, account.controlAccountCode]), [
+            [1000, 'Assets', 0, null],
+            [1100, 'Cash', 1250, 1000],
+            [3000, 'Capital', 1000, null],
+            [4000, 'Sales', 250, null],
+          ]);
+          deepEqual((await repo.getAccountsByTag('Cash Flow - Cash Equivalents', 0, 10)).map(account => account.accountCode), [1100]);
+          deepEqual((await repo.getAccountsByTag('Income Statement - Revenue', 0, 10)).map(account => account.accountCode), [4000]);
+
+          const entries = await repo.getManyJournalEntriesByRefs([1, 2, 3]);
+          deepEqual(entries.map(entry => [entry.ref, entry.postTime !== null, entry.lines.length]), [[1, true, 2], [2, true, 2], [3, false, 2]]);
+          strictEqual(entries[1].lines[0].description, 'Till');
+          strictEqual(await repo.getExistingJournalEntryByIdempotentKey('investment-2024-01'), 1);
+          const report = await repo.viewLatestTrialBalance();
+          strictEqual(report?.lines.find(line => line.accountCode === 1100)?.debit, 1250);
+
+          // The upgraded schema accepts what the migrations added
+          await repo.setAccountTag(1100, 'Custom:Main Branch');
+          await repo.renumberAccount(1100, 1110);
+          strictEqual((await repo.getManyJournalEntriesByRefs([1]))[0].lines[0].accountCode, 1110);
+          await rejects(repo.sql`UPDATE accounts SET is_active = 0 WHERE account_code = 3000`, /Cannot deactivate account with a non-zero balance/);
+        }
+        finally {
+          await repo.close();
+        }
+      });
+    }
+  });
+});
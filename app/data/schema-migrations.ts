@@ -0,0 +1,54 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const SCHEMA_MIGRATIONS_DIRECTORY = join(__dirname, './migrations');
+
+/** Migration files are named `<version>-<name>.sql`, e.g. `0002-add-account-audit.sql`. */
+const MIGRATION_FILE_PATTERN = /^(\d+)-([a-z0-9-]+)\.sql$/;
+
+export type SchemaMigration = {
+  version: number;
+  name: string;
+  /** Statements separated by `-- EOS` markers, like the initial schema. */
+  script: string;
+};
+
+/**
+ * Read the migration files in version order. Versions must be unique.
+ */
+export async function loadSchemaMigrations(directory: string = SCHEMA_MIGRATIONS_DIRECTORY): Promise<SchemaMigration[]> {
+  const fileNames = await readdir(directory);
+  const migrations: SchemaMigration[] = [];
+  for (const fileName of fileNames) {
+    const match = MIGRATION_FILE_PATTERN.exec(fileName);
+    if (match === null) {
+      continue;
+    }
+    migrations.push({
+      version: Number(match[1]),
+      name: match[2],
+      script: await readFile(join(directory, fileName), { encoding: 'utf-8' }),
+    });
+  }
+  migrations.sort((a, b) => a.version - b.version);
+  for (let index = 1; index < migrations.length; index++) {
+    if (migrations[index].version === migrations[index - 1].version) {
+      throw new Error(`Duplicate schema migration version ${migrations[index].version}`);
+    }
+  }
+  return migrations;
+}
+
+/**
+ * Split a migration script on its `-- EOS` markers, dropping empty and comment-only chunks.
+ */
+export function splitMigrationStatements(script: string): string[] {
+  return script
+    .split('-- EOS')
+    .map(statement => statement.trim())
+    .filter(statement => statement.split('\n').some(line => line.trim().length > 0 && !line.trim().startsWith('--')));
+}
@@ -1,3 +1,9 @@
+import { deepEqual, rejects } from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, it, suite } from 'node:test';
+
 import { runAccountingRepositoryTestSuite } from '@app/data/accounting-repository-test-suite.js';
 import { SqliteAccountingRepository } from '@app/data/sqlite-accounting-repository.js';
 
@@ -11,3 +17,30 @@ await runAccountingRepositoryTestSuite(
     await accountingRepository.close();
   },
 );
+
+suite('SqliteAccountingRepository on a database file', function () {
+  let directory: string;
+  let repo: SqliteAccountingRepository;
+
+  beforeEach(async function () {
+    directory = await mkdtemp(join(tmpdir(), 'jurukasa-test-'));
+    repo = new SqliteAccountingRepository(join(directory, 'books.db'));
+    await repo.connect();
+  });
+
+  afterEach(async function () {
+    await repo.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('stops timed read-only statements on the database file', async function () {
+    await repo.addAccount(1000, 'Cash', 'debit');
+    const rows = await repo.readOnlySql<{ name: string }>('SELECT name FROM accounts', [], { timeoutMs: 5000 });
+    deepEqual(rows.map(row => row.name), ['Cash']);
+    await rejects(repo.readOnlySql(
+      'SELECT count(*) FROM (WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c) SELECT x FROM c)',
+      [],
+      { timeoutMs: 500 },
+    ), /time budget of 500 ms/);
+  });
+});
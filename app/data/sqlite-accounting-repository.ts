@@ -1,40 +1,49 @@
-import { readFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { DatabaseSync } from 'node:sqlite';
-import { fileURLToPath } from 'node:url';
 
-import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { AccountingRepository, type ConnectOptions } from '@app/data/accounting-repository.js';
+import { runReadOnlyQueryProcess, runReadOnlyQueryProcessOnSnapshot } from '@app/data/read-only-query-process.js';
 import { assertArray } from '@app/tools/assertion.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+function toSqliteParams(params?: Array<unknown>) {
+  return (params ?? []).map(function (param) {
+    if (typeof param === 'boolean') {
+      return param ? 1 : 0;
+    }
+    else if (typeof param === 'string' || typeof param === 'number') {
+      if (Number.isNaN(param)) {
+        throw new Error('NaN is not a valid SQL parameter');
+      }
+      return param;
+    }
+    else if (param === null || param === undefined) {
+      return null;
+    }
+    else {
+      throw new Error('Unsupported parameter type');
+    }
+  });
+}
 
 export class SqliteAccountingRepository extends AccountingRepository {
   #db: DatabaseSync;
+  #transactionContext = new AsyncLocalStorage<{ savepointCount: number }>();
+  #transactionQueue: Promise<void> | null = null;
 
   constructor(path: string) {
     super();
     this.#db = new DatabaseSync(path);
   }
 
-  async connect(): Promise<void> {
-    const schemaFiles = [
-      join(__dirname, './sqlite-accounting-schema.sql'),
-    ];
+  async connect(options: ConnectOptions = {}): Promise<void> {
     this.#db.exec('PRAGMA journal_mode = WAL;');
     this.#db.exec('PRAGMA synchronous = FULL;');
     this.#db.exec('PRAGMA temp_store = MEMORY;');
     this.#db.exec('PRAGMA cache_size = -32000;');
     this.#db.exec('PRAGMA mmap_size = 67108864;');
-    for (const file of schemaFiles) {
-      const schemaContent = await readFile(file, { encoding: 'utf-8' });
-      const statements = schemaContent.split('-- EOS');
-      for (const statement of statements) {
-        const trimmedStatement = statement.trim();
-        if (trimmedStatement && trimmedStatement.length > 0) {
-          this.#db.exec(trimmedStatement);
-        }
-      }
+    this.#db.exec('PRAGMA foreign_keys = ON;');
+    if (options.skipMigrations !== true) {
+      await this.migrate();
     }
   }
 
@@ -42,6 +51,50 @@ export class SqliteAccountingRepository extends AccountingRepository {
     this.#db.close();
   }
 
+  /**
+   * Run fn inside a database transaction. Transactions are serialized on the single connection,
+   * statements issued outside of fn wait for it to finish, and nested calls use savepoints.
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const context = this.#transactionContext.getStore();
+    if (context !== undefined) {
+      const savepoint = `transaction_savepoint_${++context.savepointCount}`;
+      this.#db.exec(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = await fn();
+        this.#db.exec(`RELEASE ${savepoint}`);
+        return result;
+      }
+      catch (error) {
+        this.#db.exec(`ROLLBACK TO ${savepoint}`);
+        this.#db.exec(`RELEASE ${savepoint}`);
+        throw error;
+      }
+    }
+
+    const run = async () => {
+      this.#db.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await this.#transactionContext.run({ savepointCount: 0 }, fn);
+        this.#db.exec('COMMIT');
+        return result;
+      }
+      catch (error) {
+        this.#db.exec('ROLLBACK');
+        throw error;
+      }
+    };
+    const current = (this.#transactionQueue ?? Promise.resolve()).then(run);
+    const queue = current.then(function () { }, function () { });
+    this.#transactionQueue = queue;
+    queue.then(() => {
+      if (this.#transactionQueue === queue) {
+        this.#transactionQueue = null;
+      }
+    });
+    return await current;
+  }
+
   async sql<T extends unknown>(query: TemplateStringsArray, ...params: unknown[]): Promise<Array<T>> {
     const fullQuery = query.reduce(function (fullSql, partialSql, index) {
       return fullSql + partialSql + (index < params.length ? '?' : '');
@@ -50,26 +103,43 @@ export class SqliteAccountingRepository extends AccountingRepository {
   }
 
   async rawSql<T extends unknown>(query: string, params?: Array<unknown>): Promise<Array<T>> {
+    while (this.#transactionQueue !== null && this.#transactionContext.getStore() === undefined) {
+      await this.#transactionQueue;
+    }
     const stmt = this.#db.prepare(query);
-    const result = stmt.all(...(params ?? []).map(function (param) {
-      if (typeof param === 'boolean') {
-        return param ? 1 : 0;
-      }
-      else if (typeof param === 'string' || typeof param === 'number') {
-        if (Number.isNaN(param)) {
-          throw new Error('NaN is not a valid SQL parameter');
-        }
-        return param;
-      }
-      else if (param === null || param === undefined) {
-        return null;
-      }
-      else {
-        throw new Error('Unsupported parameter type');
-      }
-    }));
+    const result = stmt.all(...toSqliteParams(params));
     assertArray(result, 'SQL query result is not an array');
     return result as Array<T>;
   }
 
+  /**
+   * With timeoutMs the statement runs in a child process that is killed once the time budget has passed,
+   * on the database file or on a snapshot of an in-memory database. Inside a transaction, or without timeoutMs,
+   * it runs on the shared connection with query_only turned on and cannot be stopped.
+   */
+  protected async rawReadOnlySql<T extends unknown>(query: string, params?: Array<unknown>, timeoutMs?: number): Promise<Array<T>> {
+    const context = this.#transactionContext.getStore();
+    while (this.#transactionQueue !== null && context === undefined) {
+      await this.#transactionQueue;
+    }
+    if (timeoutMs !== undefined && context === undefined) {
+      const location = this.#db.location();
+      if (location !== null) {
+        return await runReadOnlyQueryProcess<T>(location, query, toSqliteParams(params), timeoutMs);
+      }
+      return await runReadOnlyQueryProcessOnSnapshot<T>(async (snapshotPath) => {
+        this.#db.prepare('VACUUM INTO ?').run(snapshotPath);
+      }, query, toSqliteParams(params), timeoutMs);
+    }
+    this.#db.exec('PRAGMA query_only = ON');
+    try {
+      const result = this.#db.prepare(query).all(...toSqliteParams(params));
+      assertArray(result, 'SQL query result is not an array');
+      return result as Array<T>;
+    }
+    finally {
+      this.#db.exec('PRAGMA query_only = OFF');
+    }
+  }
+
 }
@@ -34,6 +34,7 @@ CREATE TABLE accounts (
 -- Common tags include: 'Asset', 'Liability', 'Equity', 'Revenue', 'Expense', 
 -- 'Current Asset', 'Non-Current Asset', 'Balance Sheet - *', 'Income Statement - *', 
 -- 'Fiscal Year Closing - *', 'Cash Flow - *' (see main schema for full list)
+-- Custom tags: 'Custom:<name>' (user-defined, e.g. 'Custom:Branch Jakarta'), used to filter reports and ledgers
 CREATE TABLE account_tags (
   account_code INTEGER NOT NULL REFERENCES accounts(account_code),
   tag TEXT NOT NULL,
@@ -98,7 +99,8 @@ CREATE TABLE balance_sheet_lines (
   PRIMARY KEY (balance_report_id, account_code)
 );
 
--- fiscal_years: period boundaries used by reporting and automated closing
+-- fiscal_years: period boundaries used by reporting and automated closing; a fiscal year covers entry_time in (begin_time, end_time]
+-- setting post_time closes the year: a trigger posts the closing entry at end_time and stores closing_journal_entry_ref
 CREATE TABLE fiscal_years (
   begin_time INTEGER NOT NULL PRIMARY KEY,
   end_time INTEGER NOT NULL,
@@ -126,6 +128,16 @@ CREATE TABLE cashflow_statement_lines (
   PRIMARY KEY (cashflow_report_id, activity_type, line_description)
 );
 
+-- account_code_changes: audit record of renumbered and merged accounts (old code and name -> new code)
+CREATE TABLE account_code_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  change_type TEXT NOT NULL, -- 'Renumber' | 'Merge'
+  old_account_code INTEGER NOT NULL,
+  old_account_name TEXT NOT NULL,
+  new_account_code INTEGER NOT NULL,
+  changed_at INTEGER NOT NULL
+);
+
 -- =====================
 -- Views (queryable summaries)
 -- =====================
@@ -191,6 +203,7 @@ JOIN cashflow_statement_lines csl ON csl.cashflow_report_id = cr.id;
 
 -- 4) journal_entry_lines_update/delete prevention
 --    - Prevent changing or deleting lines of a posted journal entry.
+--    - Only exception: moving a line to another account as recorded by the latest account_code_changes row.
 
 -- 5) journal_entry_lines_auto_number_trigger
 --    - INSTEAD OF INSERT on journal_entry_lines_auto_number view to auto-assign line_number
@@ -207,4 +220,7 @@ JOIN cashflow_statement_lines csl ON csl.cashflow_report_id = cr.id;
 --      * inserts lines to zero out accounts tagged for closing (Revenue/Expense/Dividend)
 --      * posts the closing journal_entries and sets fiscal_years.is_closed and closing_journal_entry_ref
 
+-- 9) accounts_deactivation_validation_trigger
+--    - Setting accounts.is_active to 0 fails while the account has a non-zero balance, active child accounts or journal entry drafts.
+
 COMMIT TRANSACTION;
\ No newline at end of file
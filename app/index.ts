@@ -1,4 +1,5 @@
 export { AccountingRepository } from '@app/data/accounting-repository.js';
 export { SqliteAccountingRepository } from '@app/data/sqlite-accounting-repository.js';
 export { LibsqlAccountingRepository } from '@app/data/libsql-accounting-repository.js';
-export { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
\ No newline at end of file
+export { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';export { createAccountingHttpServer } from '@app/mcp-server/http-server.js';
+export { parseAccessTokens, loadAccessTokensFile, type AccessRole } from '@app/mcp-server/access-control.js';
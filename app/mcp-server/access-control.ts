@@ -0,0 +1,61 @@
+import { readFile } from 'node:fs/promises';
+
+/**
+ * - read-only: reports, chart of accounts, journal entry lookup and configuration lookup.
+ * - bookkeeper: read-only plus accounts, tags, journal entries, report generation and fiscal year definition.
+ * - admin: bookkeeper plus SQL execution, configuration changes and fiscal year closing.
+ */
+export type AccessRole = 'read-only' | 'bookkeeper' | 'admin';
+
+export const ACCESS_ROLES: AccessRole[] = ['read-only', 'bookkeeper', 'admin'];
+
+export interface AccessToken {
+  token: string;
+  role: AccessRole;
+  name?: string;
+}
+
+export type AccessTokenRegistry = Map<string, AccessToken>;
+
+export function isRoleAllowed(role: AccessRole, requiredRole: AccessRole) {
+  return ACCESS_ROLES.indexOf(role) >= ACCESS_ROLES.indexOf(requiredRole);
+}
+
+function assertAccessToken(value: unknown, index: number): asserts value is AccessToken {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Access token #${index + 1} must be an object with "token" and "role"`);
+  }
+  const { token, role, name } = value as Record<string, unknown>;
+  if (typeof token !== 'string' || token.length === 0) {
+    throw new Error(`Access token #${index + 1} must have a non-empty "token"`);
+  }
+  if (typeof role !== 'string' || !ACCESS_ROLES.includes(role as AccessRole)) {
+    throw new Error(`Access token #${index + 1} has invalid role ${JSON.stringify(role)}, expected one of ${ACCESS_ROLES.join(', ')}`);
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    throw new Error(`Access token #${index + 1} must have a string "name"`);
+  }
+}
+
+/**
+ * Parses a JSON array of `{ "token": string, "role": AccessRole, "name"?: string }`.
+ */
+export function parseAccessTokens(json: string): AccessTokenRegistry {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Access tokens must be a JSON array');
+  }
+  const registry: AccessTokenRegistry = new Map();
+  parsed.forEach(function (value, index) {
+    assertAccessToken(value, index);
+    if (registry.has(value.token)) {
+      throw new Error(`Access token #${index + 1} is duplicated`);
+    }
+    registry.set(value.token, { token: value.token, role: value.role, name: value.name });
+  });
+  return registry;
+}
+
+export async function loadAccessTokensFile(path: string): Promise<AccessTokenRegistry> {
+  return parseAccessTokens(await readFile(path, 'utf-8'));
+}
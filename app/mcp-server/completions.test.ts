@@ -0,0 +1,135 @@
+import { deepEqual, ok, strictEqual } from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, suite } from 'node:test';
+
+import { rankFuzzyMatches } from '@app/mcp-server/completions.js';
+import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
+import { SqliteAccountingRepository } from '@app/data/sqlite-accounting-repository.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { MemoryTransport } from '@app/mcp-server/mcp-server-test-utils.js';
+
+suite('Completions', function () {
+  describe('rankFuzzyMatches', function () {
+    const names = ['Accounts Receivable', 'Cash', 'Accrued Expenses', 'Petty Cash'];
+
+    it('ranks prefix, word-start, substring and in-order matches', function () {
+      deepEqual(rankFuzzyMatches('cash', names, name => [name]), ['Cash', 'Petty Cash']);
+      deepEqual(rankFuzzyMatches('acrec', names, name => [name]), ['Accounts Receivable']);
+      deepEqual(rankFuzzyMatches('exp', names, name => [name]), ['Accrued Expenses']);
+      deepEqual(rankFuzzyMatches('ccr', names, name => [name]), ['Accrued Expenses', 'Accounts Receivable']);
+    });
+
+    it('returns every candidate for an empty value', function () {
+      deepEqual(rankFuzzyMatches('', names, name => [name]), names);
+    });
+
+    it('returns nothing when no candidate matches', function () {
+      deepEqual(rankFuzzyMatches('xyz', names, name => [name]), []);
+    });
+  });
+
+  describe('completion/complete', function () {
+    let repo: SqliteAccountingRepository;
+    let client: Client;
+    let server: McpServer;
+
+    beforeEach(async function () {
+      repo = new SqliteAccountingRepository(':memory:');
+      await repo.connect();
+      server = createAccountingMcpServer(repo);
+      const clientTransport = new MemoryTransport();
+      const serverTransport = new MemoryTransport();
+      clientTransport._paired = serverTransport;
+      serverTransport._paired = clientTransport;
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      await Promise.all([
+        server.connect(serverTransport),
+        client.connect(clientTransport),
+      ]);
+
+      await repo.addAccount(1100, 'Cash', 'debit');
+      await repo.addAccount(1200, 'Accounts Receivable', 'debit');
+      await repo.addAccount(2100, 'Accounts Payable', 'credit');
+      await repo.addAccount(1900, 'Old Petty Cash', 'debit');
+      await repo.updateAccount(1900, { deactivate: true });
+    });
+
+    afterEach(async function () {
+      await client.close();
+      await server.close();
+      await repo.close();
+    });
+
+    it('advertises the completions capability', function () {
+      ok(client.getServerCapabilities()?.completions !== undefined);
+    });
+
+    it('completes prompt account codes by code prefix only', async function () {
+      const { completion } = await client.complete({
+        ref: { type: 'ref/prompt', name: 'ReviewAccount' },
+        argument: { name: 'accountCode', value: '1' },
+      });
+      deepEqual(completion.values, ['1100', '1200']);
+    });
+
+    it('completes prompt account codes by fuzzy account name and skips inactive accounts', async function () {
+      const { completion } = await client.complete({
+        ref: { type: 'ref/prompt', name: 'ReviewAccount' },
+        argument: { name: 'accountCode', value: 'acc pay' },
+      });
+      deepEqual(completion.values, ['2100']);
+
+      const cash = await client.complete({
+        ref: { type: 'ref/prompt', name: 'ReviewAccount' },
+        argument: { name: 'accountCode', value: 'cash' },
+      });
+      deepEqual(cash.completion.values, ['1100']);
+    });
+
+    it('completes account codes in the account resource template', async function () {
+      const { completion } = await client.complete({
+        ref: { type: 'ref/resource', uri: 'jurukasa://accounts/{code}' },
+        argument: { name: 'code', value: 'receiv' },
+      });
+      deepEqual(completion.values, ['1200']);
+    });
+
+    it('completes account tags', async function () {
+      const { completion } = await client.complete({
+        ref: { type: 'ref/resource', uri: 'jurukasa://account-tags/{tag}' },
+        argument: { name: 'tag', value: 'balance sheet - cur' },
+      });
+      deepEqual(completion.values.slice(0, 2), ['Balance Sheet - Current Asset', 'Balance Sheet - Current Liability']);
+    });
+
+    it('completes custom tags in use', async function () {
+      await repo.SetManyAccountTags([{ accountCode: 1100, tag: 'Custom:Branch Jakarta' }]);
+      const { completion } = await client.complete({
+        ref: { type: 'ref/resource', uri: 'jurukasa://account-tags/{tag}' },
+        argument: { name: 'tag', value: 'custom:br' },
+      });
+      deepEqual(completion.values, ['Custom:Branch Jakarta']);
+    });
+
+    it('completes config keys', async function () {
+      const { completion } = await client.complete({
+        ref: { type: 'ref/resource', uri: 'jurukasa://config/{key}' },
+        argument: { name: 'key', value: 'curr' },
+      });
+      deepEqual(completion.values, ['Currency Code', 'Currency Decimals']);
+    });
+
+    it('reads the resources behind completed values', async function () {
+      await repo.SetManyAccountTags([{ accountCode: 1100, tag: 'Cash Flow - Cash Equivalents' }]);
+      await repo.setUserConfig({ businessName: 'Toko Maju', businessType: 'Retail', currencyCode: 'IDR', currencyDecimalPlaces: 0 });
+
+      const tagResult = await client.readResource({ uri: 'jurukasa://account-tags/Cash%20Flow%20-%20Cash%20Equivalents' });
+      const tagData = JSON.parse(tagResult.contents[0].text as string);
+      deepEqual(tagData.accounts.map((account: { accountCode: number }) => account.accountCode), [1100]);
+
+      const configResult = await client.readResource({ uri: 'jurukasa://config/Currency%20Code' });
+      const configData = JSON.parse(configResult.contents[0].text as string);
+      strictEqual(configData.value, 'IDR');
+    });
+  });
+});
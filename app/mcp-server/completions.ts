@@ -0,0 +1,77 @@
+import { ALL_ACCOUNT_TAGS } from '@app/data/account-tags.js';
+import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { ALLOWED_CONFIG_KEYS } from '@app/mcp-server/tools/config.js';
+
+/** The MCP completion result holds at most 100 values. */
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Rank how well text matches a typed value. Lower is better, null means no match.
+ * Prefix matches beat word-start matches, which beat substring matches, which beat
+ * matches of the typed characters in order with gaps (e.g. "acrec" for "Accounts Receivable").
+ */
+function scoreFuzzyMatch(value: string, text: string): number | null {
+  const query = value.trim().toLowerCase();
+  const candidate = text.toLowerCase();
+  if (query.length === 0 || candidate.startsWith(query)) {
+    return 0;
+  }
+  const index = candidate.indexOf(query);
+  if (index > 0) {
+    return /[\s\-/]/.test(candidate[index - 1]) ? 1 : 2;
+  }
+  let position = 0;
+  let gaps = 0;
+  for (const character of query) {
+    const found = candidate.indexOf(character, position);
+    if (found === -1) {
+      return null;
+    }
+    gaps += found - position;
+    position = found + 1;
+  }
+  return 3 + gaps / candidate.length;
+}
+
+/**
+ * Keep the candidates where any of their texts matches the value, best match first.
+ * Ties keep the order of the candidates.
+ */
+export function rankFuzzyMatches<T>(value: string, candidates: T[], getTexts: (candidate: T) => string[]): T[] {
+  const ranked: Array<{ candidate: T; score: number; index: number }> = [];
+  candidates.forEach(function (candidate, index) {
+    let bestScore: number | null = null;
+    for (const text of getTexts(candidate)) {
+      const score = scoreFuzzyMatch(value, text);
+      if (score !== null && (bestScore === null || score < bestScore)) {
+        bestScore = score;
+      }
+    }
+    if (bestScore !== null) {
+      ranked.push({ candidate, score: bestScore, index });
+    }
+  });
+  ranked.sort((a, b) => a.score - b.score || a.index - b.index);
+  return ranked.slice(0, MAX_COMPLETION_VALUES).map(match => match.candidate);
+}
+
+/** Active account codes starting with the typed digits, or whose name matches the typed text. */
+export async function completeAccountCodes(repo: AccountingRepository, value: string): Promise<string[]> {
+  const accounts = (await repo.getManyAccounts()).filter(account => account.isActive);
+  const codes = accounts.map(account => String(account.accountCode));
+  if (/^\d+$/.test(value.trim())) {
+    return codes.filter(code => code.startsWith(value.trim())).slice(0, MAX_COMPLETION_VALUES);
+  }
+  return rankFuzzyMatches(value, accounts, account => [account.name])
+    .map(account => String(account.accountCode));
+}
+
+/** Predefined tags and the custom tags already in use. */
+export async function completeAccountTags(repo: AccountingRepository, value: string): Promise<string[]> {
+  const customTags = await repo.getManyCustomAccountTags();
+  return rankFuzzyMatches(value, [...ALL_ACCOUNT_TAGS, ...customTags], tag => [tag]);
+}
+
+export function completeConfigKeys(value: string): string[] {
+  return rankFuzzyMatches(value, [...ALLOWED_CONFIG_KEYS], key => [key]);
+}
@@ -0,0 +1,312 @@
+import { ok, rejects, strictEqual } from 'node:assert/strict';
+import { request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, it, suite } from 'node:test';
+
+import { parseAccessTokens } from '@app/mcp-server/access-control.js';
+import { type AccountingHttpServerOptions, createAccountingHttpServer, MCP_HTTP_PATH } from '@app/mcp-server/http-server.js';
+import { SqliteAccountingRepository } from '@app/data/sqlite-accounting-repository.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+suite('AccountingHttpServer', function () {
+  let repo: SqliteAccountingRepository;
+  let httpServer: Server;
+  let endpoint: URL;
+  let clients: Client[];
+
+  async function connectClient(name: string, token?: string) {
+    const client = new Client({ name, version: '1.0.0' });
+    clients.push(client);
+    await client.connect(new StreamableHTTPClientTransport(endpoint, {
+      requestInit: token !== undefined ? { headers: { Authorization: `Bearer ${token}` } } : undefined,
+    }));
+    return client;
+  }
+
+  async function listToolNames(client: Client) {
+    const { tools } = await client.listTools();
+    return tools.map(tool => tool.name);
+  }
+
+  async function startHttpServer(options?: AccountingHttpServerOptions) {
+    httpServer = createAccountingHttpServer(repo, options);
+    await new Promise<void>(function (resolve) {
+      httpServer.listen(0, '127.0.0.1', resolve);
+    });
+    const { port } = httpServer.address() as AddressInfo;
+    endpoint = new URL(`http://127.0.0.1:${port}${MCP_HTTP_PATH}`);
+  }
+
+  beforeEach(async function () {
+    repo = new SqliteAccountingRepository(':memory:');
+    await repo.connect();
+    clients = [];
+  });
+
+  afterEach(async function () {
+    await Promise.all(clients.map(client => client.close()));
+    httpServer.closeAllConnections();
+    await new Promise<void>(function (resolve) {
+      httpServer.close(() => resolve());
+    });
+    await repo.close();
+  });
+
+  describe('Streamable HTTP transport', function () {
+    beforeEach(async function () {
+      await startHttpServer();
+    });
+
+    it('serves concurrent sessions over one shared repository', async function () {
+      const [firstClient, secondClient] = await Promise.all([
+        connectClient('first-client'),
+        connectClient('second-client'),
+      ]);
+
+      await firstClient.callTool({
+        name: 'ManageManyAccounts',
+        arguments: {
+          accounts: [
+            { accountCode: 101, name: 'Cash', normalBalance: 'debit' },
+          ],
+        },
+      });
+
+      const res = await secondClient.callTool({
+        name: 'ViewChartOfAccounts',
+        arguments: {},
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Cash'), 'second session should see the account created by the first session');
+    });
+
+    it('rejects requests without a valid session', async function () {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json, text/event-stream',
+          'Mcp-Session-Id': 'unknown-session',
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+      });
+      strictEqual(res.status, 400);
+      await res.text();
+    });
+
+    it('responds 404 outside the MCP endpoint', async function () {
+      const res = await fetch(new URL('/other', endpoint));
+      strictEqual(res.status, 404);
+      await res.text();
+    });
+  });
+
+  describe('Idle sessions', function () {
+    beforeEach(async function () {
+      await startHttpServer({ sessionIdleTimeoutMs: 100 });
+    });
+
+    it('closes sessions that stay idle without an open stream', async function () {
+      const headers = { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' };
+      const initializeRes = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'abandoned', version: '1.0.0' } },
+        }),
+      });
+      strictEqual(initializeRes.status, 200);
+      await initializeRes.text();
+      const sessionId = initializeRes.headers.get('mcp-session-id');
+      ok(sessionId !== null, 'should start a session');
+
+      await new Promise(resolve => setTimeout(resolve, 400));
+
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { ...headers, 'Mcp-Session-Id': sessionId },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+      });
+      strictEqual(res.status, 400);
+      await res.text();
+    });
+
+    it('keeps sessions with an open stream', async function () {
+      const client = await connectClient('listener');
+      await new Promise(resolve => setTimeout(resolve, 400));
+      ok((await listToolNames(client)).includes('ViewChartOfAccounts'));
+    });
+  });
+
+  describe('Request body limit', function () {
+    const oversizedBody = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: { padding: 'x'.repeat(2048) } });
+
+    beforeEach(async function () {
+      await startHttpServer({
+        maxRequestBodyBytes: 1024,
+        accessTokens: parseAccessTokens(JSON.stringify([{ token: 'admin-token', role: 'admin' }])),
+      });
+    });
+
+    it('refuses oversized bodies with 413', async function () {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', 'Authorization': 'Bearer admin-token' },
+        body: oversizedBody,
+      });
+      strictEqual(res.status, 413);
+      await res.text();
+    });
+
+    it('stops reading streamed bodies beyond the limit', async function () {
+      const encoder = new TextEncoder();
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', 'Authorization': 'Bearer admin-token' },
+        body: new ReadableStream({
+          start(controller) {
+            controller.enqueue(encoder.encode(oversizedBody.slice(0, 800)));
+            controller.enqueue(encoder.encode(oversizedBody.slice(800)));
+            controller.close();
+          },
+        }),
+        duplex: 'half',
+      } as RequestInit);
+      strictEqual(res.status, 413);
+      await res.text();
+    });
+
+    it('checks the bearer token before reading the body', async function () {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+        body: oversizedBody,
+      });
+      strictEqual(res.status, 401);
+      await res.text();
+    });
+  });
+
+  describe('DNS rebinding protection', function () {
+    const initializeBody = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw-client', version: '1.0.0' } },
+    });
+
+    /** Posts an initialize request with the given Host and Origin headers, which fetch does not let us set. */
+    function postInitialize(headers: Record<string, string>) {
+      return new Promise<number>(function (resolve, reject) {
+        const req = request(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', ...headers },
+        }, function (res) {
+          res.resume();
+          res.on('end', () => resolve(res.statusCode ?? 0));
+        });
+        req.on('error', reject);
+        req.end(initializeBody);
+      });
+    }
+
+    it('refuses a foreign Host header without tokens configured', async function () {
+      await startHttpServer();
+      strictEqual(await postInitialize({ Host: `attacker.example:${endpoint.port}` }), 403);
+    });
+
+    it('refuses a foreign browser Origin', async function () {
+      await startHttpServer();
+      strictEqual(await postInitialize({ Origin: `http://attacker.example:${endpoint.port}` }), 403);
+    });
+
+    it('accepts the bound address and localhost', async function () {
+      await startHttpServer();
+      strictEqual(await postInitialize({ Host: endpoint.host }), 200);
+      strictEqual(await postInitialize({ Host: `localhost:${endpoint.port}`, Origin: `http://localhost:${endpoint.port}` }), 200);
+      strictEqual((await listToolNames(await connectClient('local-client'))).includes('ExecuteSqlQuery'), true);
+    });
+
+    it('accepts configured hosts instead of the defaults', async function () {
+      await startHttpServer({ allowedHosts: ['Books.Example:8443'] });
+      strictEqual(await postInitialize({ Host: 'books.example:8443' }), 200);
+      strictEqual(await postInitialize({ Host: endpoint.host }), 403);
+    });
+  });
+
+  describe('Bearer token authentication', function () {
+    beforeEach(async function () {
+      await startHttpServer({
+        accessTokens: parseAccessTokens(JSON.stringify([
+          { token: 'reader-token', role: 'read-only', name: 'Auditor' },
+          { token: 'bookkeeper-token', role: 'bookkeeper' },
+          { token: 'admin-token', role: 'admin' },
+        ])),
+      });
+    });
+
+    it('rejects requests without a registered token', async function () {
+      const missingRes = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+      });
+      strictEqual(missingRes.status, 401);
+      strictEqual(missingRes.headers.get('WWW-Authenticate'), 'Bearer');
+      await missingRes.text();
+
+      const unknownRes = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', 'Authorization': 'Bearer wrong-token' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+      });
+      strictEqual(unknownRes.status, 401);
+      await unknownRes.text();
+    });
+
+    it('registers only the tools allowed for each token role', async function () {
+      const [readerClient, bookkeeperClient, adminClient] = await Promise.all([
+        connectClient('reader', 'reader-token'),
+        connectClient('bookkeeper', 'bookkeeper-token'),
+        connectClient('admin', 'admin-token'),
+      ]);
+
+      const readerTools = await listToolNames(readerClient);
+      ok(readerTools.includes('ViewChartOfAccounts'), 'read-only role should view the chart of accounts');
+      ok(readerTools.includes('ViewTrialBalance'), 'read-only role should view reports');
+      ok(!readerTools.includes('RecordJournalEntry'), 'read-only role should not record journal entries');
+      ok(!readerTools.includes('ManageManyAccounts'), 'read-only role should not manage accounts');
+      ok(!readerTools.includes('ExecuteSqlQuery'), 'read-only role should not execute SQL');
+      ok(!readerTools.includes('GenerateFinancialReport'), 'read-only role should not store report snapshots');
+      ok(!readerTools.includes('GenerateCashFlowStatement'), 'read-only role should not store cash flow statements');
+
+      const bookkeeperTools = await listToolNames(bookkeeperClient);
+      ok(bookkeeperTools.includes('RecordJournalEntry'), 'bookkeeper role should record journal entries');
+      ok(bookkeeperTools.includes('ManageManyAccounts'), 'bookkeeper role should manage accounts');
+      ok(bookkeeperTools.includes('GenerateFinancialReport'), 'bookkeeper role should generate report snapshots');
+      ok(bookkeeperTools.includes('GenerateCashFlowStatement'), 'bookkeeper role should generate cash flow statements');
+      ok(!bookkeeperTools.includes('ExecuteSqlQuery'), 'bookkeeper role should not execute SQL');
+      ok(!bookkeeperTools.includes('SetConfig'), 'bookkeeper role should not change config');
+      ok(!bookkeeperTools.includes('CloseFiscalYear'), 'bookkeeper role should not close fiscal years');
+
+      const adminTools = await listToolNames(adminClient);
+      ok(adminTools.includes('ExecuteSqlQuery'), 'admin role should execute SQL');
+      ok(adminTools.includes('SetConfig'), 'admin role should change config');
+      ok(adminTools.includes('CloseFiscalYear'), 'admin role should close fiscal years');
+
+      await rejects(readerClient.callTool({
+        name: 'ManageManyAccounts',
+        arguments: { accounts: [{ accountCode: 101, name: 'Cash', normalBalance: 'debit' }] },
+      }), /Tool ManageManyAccounts not found/);
+      await rejects(readerClient.callTool({ name: 'GenerateFinancialReport', arguments: {} }), /Tool GenerateFinancialReport not found/);
+      await rejects(readerClient.callTool({
+        name: 'GenerateCashFlowStatement',
+        arguments: { beginDate: '2024-01-01', endDate: '2024-12-31' },
+      }), /Tool GenerateCashFlowStatement not found/);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+
+import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { type AccessToken, type AccessTokenRegistry } from '@app/mcp-server/access-control.js';
+import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const MCP_HTTP_PATH = '/mcp';
+
+/** Default limit for one JSON-RPC request body. */
+export const DEFAULT_MAX_REQUEST_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Default time a session may go without requests or an open stream before it is closed. */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+class RequestBodyTooLargeError extends Error {}
+
+/** Reads at most maxBytes of the body, stops reading and rejects with RequestBodyTooLargeError beyond that. */
+function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  return new Promise(function (resolve, reject) {
+    const contentLength = Number(req.headers['content-length']);
+    if (Number.isFinite(contentLength) && contentLength > maxBytes) {
+      reject(new RequestBodyTooLargeError());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let receivedBytes = 0;
+    function onData(chunk: Buffer) {
+      receivedBytes += chunk.length;
+      if (receivedBytes > maxBytes) {
+        req.off('data', onData);
+        req.pause();
+        reject(new RequestBodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    }
+    req.on('data', onData);
+    req.on('end', function () {
+      try {
+        const body = Buffer.concat(chunks).toString('utf-8');
+        resolve(body.length > 0 ? JSON.parse(body) : undefined);
+      }
+      catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function writeJsonRpcError(res: ServerResponse, statusCode: number, code: number, message: string) {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function getBearerToken(req: IncomingMessage) {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  return match !== null ? match[1].trim() : undefined;
+}
+
+function isLoopbackAddress(address: string) {
+  return address === '::1' || address.startsWith('127.');
+}
+
+/**
+ * Host header values the connection may carry: the address and port it arrived at, plus localhost on loopback.
+ * A page on another domain that was rebound to this address still sends its own domain as the host.
+ */
+function getDefaultAllowedHosts(req: IncomingMessage) {
+  const localAddress = (req.socket.localAddress ?? '').replace(/^::ffff:/, '');
+  const localPort = req.socket.localPort;
+  const allowedHosts = [localAddress.includes(':') ? `[${localAddress}]:${localPort}` : `${localAddress}:${localPort}`];
+  if (isLoopbackAddress(localAddress)) {
+    allowedHosts.push(`localhost:${localPort}`);
+  }
+  return allowedHosts;
+}
+
+/** Error message for a request from an unexpected host or browser origin, null when it is allowed. */
+function getDnsRebindingError(req: IncomingMessage, allowedHosts: string[]) {
+  const host = req.headers.host;
+  if (host === undefined || !allowedHosts.includes(host.toLowerCase())) {
+    return `Invalid Host header: ${host}`;
+  }
+  const origin = req.headers.origin;
+  if (origin !== undefined) {
+    const originHost = URL.canParse(origin) ? new URL(origin).host : undefined;
+    if (originHost === undefined || !allowedHosts.includes(originHost)) {
+      return `Invalid Origin header: ${origin}`;
+    }
+  }
+  return null;
+}
+
+export interface AccountingHttpServerOptions {
+  /**
+   * When given, every request must carry `Authorization: Bearer <token>` for a registered token,
+   * and each session only gets the tools its token's role allows. Without it every session is admin.
+   */
+  accessTokens?: AccessTokenRegistry;
+  /** Let ExecuteSqlQuery modify the database for admin sessions. Default is false. */
+  allowSqlWrites?: boolean;
+  /** Larger request bodies are refused with 413. Default is DEFAULT_MAX_REQUEST_BODY_BYTES. */
+  maxRequestBodyBytes?: number;
+  /**
+   * Sessions without requests or an open stream for this long are closed, so clients that never
+   * end their session do not keep it and its resource subscriptions forever. Default is DEFAULT_SESSION_IDLE_TIMEOUT_MS.
+   */
+  sessionIdleTimeoutMs?: number;
+  /**
+   * Host header values (host:port) to accept, for example the name a reverse proxy forwards.
+   * Default is the address and port the server is bound to, plus localhost:<port> on loopback.
+   * Requests for other hosts, or with a browser Origin for other hosts, are refused with 403
+   * so that web pages cannot reach the server through DNS rebinding.
+   */
+  allowedHosts?: string[];
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  accessToken: AccessToken | undefined;
+  openResponses: number;
+  lastActiveTime: number;
+}
+
+/** Count the response as open until it ends, an open SSE stream keeps the session active. */
+function trackSessionResponse(session: HttpSession, res: ServerResponse) {
+  session.openResponses++;
+  session.lastActiveTime = Date.now();
+  res.on('close', function () {
+    session.openResponses--;
+    session.lastActiveTime = Date.now();
+  });
+}
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp. Every client session gets its own McpServer,
+ * all of them sharing the given repository.
+ */
+export function createAccountingHttpServer(repo: AccountingRepository, options: AccountingHttpServerOptions = {}): Server {
+  const sessions = new Map<string, HttpSession>();
+  const maxRequestBodyBytes = options.maxRequestBodyBytes ?? DEFAULT_MAX_REQUEST_BODY_BYTES;
+  const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const allowedHosts = options.allowedHosts?.map(host => host.toLowerCase());
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const dnsRebindingError = getDnsRebindingError(req, allowedHosts ?? getDefaultAllowedHosts(req));
+    if (dnsRebindingError !== null) {
+      writeJsonRpcError(res, 403, -32000, `Forbidden: ${dnsRebindingError}`);
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_HTTP_PATH) {
+      writeJsonRpcError(res, 404, -32000, `Not found. The MCP endpoint is ${MCP_HTTP_PATH}.`);
+      return;
+    }
+
+    let accessToken: AccessToken | undefined;
+    if (options.accessTokens !== undefined) {
+      const bearerToken = getBearerToken(req);
+      accessToken = bearerToken !== undefined ? options.accessTokens.get(bearerToken) : undefined;
+      if (accessToken === undefined) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        writeJsonRpcError(res, 401, -32001, 'Unauthorized: A valid bearer token is required.');
+        return;
+      }
+    }
+
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    const existingSession = sessionId !== undefined ? sessions.get(sessionId) : undefined;
+    if (existingSession !== undefined && existingSession.accessToken !== accessToken) {
+      writeJsonRpcError(res, 403, -32001, 'Forbidden: The session belongs to a different token.');
+      return;
+    }
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req, maxRequestBodyBytes);
+      }
+      catch (error) {
+        if (error instanceof RequestBodyTooLargeError) {
+          // The rest of the body stays unread, so the connection cannot be reused
+          res.setHeader('Connection', 'close');
+          writeJsonRpcError(res, 413, -32000, `Payload too large: The request body exceeds ${maxRequestBodyBytes} bytes.`);
+          return;
+        }
+        writeJsonRpcError(res, 400, -32700, 'Parse error');
+        return;
+      }
+
+      if (existingSession !== undefined) {
+        trackSessionResponse(existingSession, res);
+        await existingSession.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId !== undefined || !isInitializeRequest(body)) {
+        writeJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized(newSessionId) {
+          const session: HttpSession = { transport, accessToken, openResponses: 0, lastActiveTime: Date.now() };
+          sessions.set(newSessionId, session);
+          trackSessionResponse(session, res);
+        },
+      });
+      transport.onclose = function () {
+        if (transport.sessionId !== undefined) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      const server = createAccountingMcpServer(repo, {
+        role: accessToken?.role ?? 'admin',
+        allowSqlWrites: options.allowSqlWrites,
+      });
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (existingSession === undefined) {
+        writeJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      trackSessionResponse(existingSession, res);
+      await existingSession.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    writeJsonRpcError(res, 405, -32000, 'Method not allowed.');
+  }
+
+  const httpServer = createServer(function (req, res) {
+    handleRequest(req, res).catch(function (error) {
+      if (!res.headersSent) {
+        writeJsonRpcError(res, 500, -32603, `Internal server error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      else {
+        res.end();
+      }
+    });
+  });
+
+  const idleSessionSweep = setInterval(function () {
+    const idleSince = Date.now() - sessionIdleTimeoutMs;
+    for (const session of sessions.values()) {
+      if (session.openResponses === 0 && session.lastActiveTime < idleSince) {
+        // Closing the transport removes the session and the repository listeners of its McpServer
+        session.transport.close().catch(function () { /* already closed */ });
+      }
+    }
+  }, Math.min(sessionIdleTimeoutMs, 60 * 1000));
+  idleSessionSweep.unref();
+
+  httpServer.on('close', function () {
+    clearInterval(idleSessionSweep);
+    for (const session of sessions.values()) {
+      session.transport.close().catch(function () { /* already closed */ });
+    }
+    sessions.clear();
+  });
+
+  return httpServer;
+}
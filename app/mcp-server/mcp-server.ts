@@ -1,25 +1,65 @@
 import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { type AccessRole, isRoleAllowed } from '@app/mcp-server/access-control.js';
 import { defineSqliteAccountingSchemaMCPResource } from '@app/mcp-server/resources/sqlite-accounting-schema.js';
 import { defineAccountTagsMCPResource } from '@app/mcp-server/resources/account-tags.js';
+import { defineAccountingDataMCPResources } from '@app/mcp-server/resources/accounting-data.js';
+import {
+  defineExplainBalanceSheetMCPPrompt,
+  defineMonthEndCloseChecklistMCPPrompt,
+  defineRecordReceiptMCPPrompt,
+  defineReviewAccountMCPPrompt,
+  defineSetupChartOfAccountsMCPPrompt,
+} from '@app/mcp-server/prompts/bookkeeping-workflows.js';
 import { defineSetManyAccountTagsMCPTool, defineUnSetManyAccountTagsMCPTool } from '@app/mcp-server/tools/account-tags.js';
 import {
   defineManageManyAccountsMCPTool,
+  defineMergeAccountsMCPTool,
+  defineRenumberAccountMCPTool,
   defineViewChartOfAccountsMCPTool
 } from '@app/mcp-server/tools/account-management.js';
+import { defineApplyChartOfAccountsTemplateMCPTool } from '@app/mcp-server/tools/chart-of-accounts-templates.js';
 import {
+  defineDeleteJournalEntryDraftsMCPTool,
+  defineDraftJournalEntryMCPTool,
+  defineImportOpeningBalancesMCPTool,
+  defineListJournalEntryDraftsMCPTool,
+  definePostJournalEntriesMCPTool,
   defineRecordJournalEntryMCPTool,
   defineReverseJournalEntryMCPTool,
+  defineSearchJournalEntriesMCPTool,
+  defineUpdateJournalEntryDraftMCPTool,
 } from '@app/mcp-server/tools/journal-entries.js';
 import {
+  defineGenerateCashFlowStatementMCPTool,
   defineGenerateFinancialReportMCPTool,
   defineGetLatestBalanceSheetMCPTool,
-  defineGetLatestTrialBalanceMCPTool
+  defineGetLatestTrialBalanceMCPTool,
+  defineViewAccountLedgerMCPTool,
+  defineViewBalanceSheetMCPTool,
+  defineViewIncomeStatementMCPTool,
+  defineViewTrialBalanceMCPTool
 } from '@app/mcp-server/tools/reporting.js';
+import {
+  defineCloseFiscalYearMCPTool,
+  defineDefineFiscalYearMCPTool,
+  defineListFiscalYearsMCPTool
+} from '@app/mcp-server/tools/fiscal-years.js';
 import { defineExecuteSqlQueryMCPTool } from '@app/mcp-server/tools/sql-execution.js';
 import { defineSetConfigMCPTool, defineGetConfigMCPTool } from '@app/mcp-server/tools/config.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
-export function createAccountingMcpServer(repo: AccountingRepository): McpServer {
+export interface AccountingMcpServerOptions {
+  /** Only tools allowed for this role are registered. Default is 'admin'. */
+  role?: AccessRole;
+  /** Let ExecuteSqlQuery modify the database. Only takes effect for the admin role. Default is false. */
+  allowSqlWrites?: boolean;
+}
+
+export function createAccountingMcpServer(repo: AccountingRepository, options: AccountingMcpServerOptions = {}): McpServer {
+  const role = options.role ?? 'admin';
+  const canBookkeep = isRoleAllowed(role, 'bookkeeper');
+  const canAdminister = isRoleAllowed(role, 'admin');
+
   const server = new McpServer({
     version: '1.0.0',
     name: 'jurukasa-accounting-mcp',
@@ -29,30 +69,62 @@ export function createAccountingMcpServer(repo: AccountingRepository): McpServer
   // Register resources
   defineSqliteAccountingSchemaMCPResource(server);
   defineAccountTagsMCPResource(server);
+  defineAccountingDataMCPResources(server, repo);
+
+  // Register read-only prompts
+  defineExplainBalanceSheetMCPPrompt(server, repo);
+  defineReviewAccountMCPPrompt(server, repo);
 
-  // Register account management tools
-  defineManageManyAccountsMCPTool(server, repo);
+  // Register read-only tools
   defineViewChartOfAccountsMCPTool(server, repo);
+  defineListJournalEntryDraftsMCPTool(server, repo);
+  defineSearchJournalEntriesMCPTool(server, repo);
+  defineGetLatestTrialBalanceMCPTool(server, repo);
+  defineGetLatestBalanceSheetMCPTool(server, repo);
+  defineViewTrialBalanceMCPTool(server, repo);
+  defineViewBalanceSheetMCPTool(server, repo);
+  defineViewAccountLedgerMCPTool(server, repo);
+  defineViewIncomeStatementMCPTool(server, repo);
+  defineListFiscalYearsMCPTool(server, repo);
+  defineGetConfigMCPTool(server, repo);
 
-  // Register account tagging tools
-  defineSetManyAccountTagsMCPTool(server, repo);
-  defineUnSetManyAccountTagsMCPTool(server, repo);
+  if (canBookkeep) {
+    // Register account management and tagging tools
+    defineManageManyAccountsMCPTool(server, repo);
+    defineRenumberAccountMCPTool(server, repo);
+    defineMergeAccountsMCPTool(server, repo);
+    defineApplyChartOfAccountsTemplateMCPTool(server, repo);
+    defineSetManyAccountTagsMCPTool(server, repo);
+    defineUnSetManyAccountTagsMCPTool(server, repo);
 
-  // Register journal entry tools
-  defineRecordJournalEntryMCPTool(server, repo);
-  defineReverseJournalEntryMCPTool(server, repo);
+    // Register journal entry tools
+    defineRecordJournalEntryMCPTool(server, repo);
+    defineReverseJournalEntryMCPTool(server, repo);
+    defineDraftJournalEntryMCPTool(server, repo);
+    defineUpdateJournalEntryDraftMCPTool(server, repo);
+    definePostJournalEntriesMCPTool(server, repo);
+    defineDeleteJournalEntryDraftsMCPTool(server, repo);
+    defineImportOpeningBalancesMCPTool(server, repo);
 
-  // Register reporting tools
-  defineGetLatestTrialBalanceMCPTool(server, repo);
-  defineGetLatestBalanceSheetMCPTool(server, repo);
-  defineGenerateFinancialReportMCPTool(server, repo);
+    // Register report generation tools, they store report snapshots
+    defineGenerateFinancialReportMCPTool(server, repo);
+    defineGenerateCashFlowStatementMCPTool(server, repo);
 
-  // Register SQL execution tool
-  defineExecuteSqlQueryMCPTool(server, repo);
+    // Register fiscal year definition tool
+    defineDefineFiscalYearMCPTool(server, repo);
 
-  // Register config tool
-  defineSetConfigMCPTool(server, repo);
-  defineGetConfigMCPTool(server, repo);
+    // Register bookkeeping workflow prompts
+    defineSetupChartOfAccountsMCPPrompt(server, repo);
+    defineRecordReceiptMCPPrompt(server, repo);
+    defineMonthEndCloseChecklistMCPPrompt(server, repo);
+  }
+
+  if (canAdminister) {
+    // Register SQL execution, config and fiscal year closing tools
+    defineExecuteSqlQueryMCPTool(server, repo, { allowWrites: options.allowSqlWrites === true });
+    defineSetConfigMCPTool(server, repo);
+    defineCloseFiscalYearMCPTool(server, repo);
+  }
 
   return server;
 }
@@ -0,0 +1,191 @@
+import { deepEqual, ok, rejects, strictEqual } from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, suite } from 'node:test';
+
+import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
+import { SqliteAccountingRepository } from '@app/data/sqlite-accounting-repository.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { type GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { MemoryTransport } from '@app/mcp-server/mcp-server-test-utils.js';
+
+suite('BookkeepingWorkflowMCPPrompts', function () {
+  let repo: SqliteAccountingRepository;
+  let client: Client;
+  let server: McpServer;
+
+  async function connectClient(options?: Parameters<typeof createAccountingMcpServer>[1]) {
+    server = createAccountingMcpServer(repo, options);
+    const clientTransport = new MemoryTransport();
+    const serverTransport = new MemoryTransport();
+    clientTransport._paired = serverTransport;
+    serverTransport._paired = clientTransport;
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  }
+
+  function getMessageTexts(messages: GetPromptResult['messages']) {
+    return messages.map(function (message) {
+      if (message.content.type === 'resource') {
+        return 'text' in message.content.resource ? message.content.resource.text : '';
+      }
+      return message.content.type === 'text' ? message.content.text : '';
+    });
+  }
+
+  beforeEach(async function () {
+    repo = new SqliteAccountingRepository(':memory:');
+    await repo.connect();
+    await repo.setUserConfig({
+      businessName: 'Kopi Senja',
+      businessType: 'Coffee Shop',
+      currencyCode: 'IDR',
+      currencyDecimalPlaces: 0,
+      locale: 'id-ID',
+    });
+    await repo.addAccount(100, 'Cash', 'debit');
+    await repo.addAccount(300, 'Owner Equity', 'credit');
+    await repo.SetManyAccountTags([
+      { accountCode: 100, tag: 'Balance Sheet - Current Asset' },
+      { accountCode: 300, tag: 'Balance Sheet - Equity' },
+    ]);
+  });
+
+  afterEach(async function () {
+    await client.close();
+    await server.close();
+    await repo.close();
+  });
+
+  describe('Prompt listing', function () {
+    it('lists workflow prompts for the bookkeeper role', async function () {
+      await connectClient();
+      const { prompts } = await client.listPrompts();
+      deepEqual(prompts.map(prompt => prompt.name).sort(), [
+        'ExplainBalanceSheet',
+        'MonthEndCloseChecklist',
+        'RecordReceipt',
+        'ReviewAccount',
+        'SetupChartOfAccounts',
+      ]);
+    });
+
+    it('lists only the review prompts for the read-only role', async function () {
+      await connectClient({ role: 'read-only' });
+      const { prompts } = await client.listPrompts();
+      deepEqual(prompts.map(prompt => prompt.name).sort(), ['ExplainBalanceSheet', 'ReviewAccount']);
+    });
+  });
+
+  describe('Prompt: SetupChartOfAccounts', function () {
+    it('includes the account tags reference, config and current chart of accounts', async function () {
+      await connectClient();
+      const result = await client.getPrompt({ name: 'SetupChartOfAccounts', arguments: { businessType: 'Bakery' } });
+
+      const resourceContent = result.messages[0].content;
+      strictEqual(resourceContent.type, 'resource');
+      strictEqual((resourceContent as { resource: { uri: string } }).resource.uri, 'account-tags://reference');
+
+      const text = getMessageTexts(result.messages).join('\n');
+      ok(text.includes('Balance Sheet - Current Asset'), 'should include valid tags');
+      ok(text.includes('Business Name: Kopi Senja'), 'should include the business config');
+      ok(text.includes('account 100 "Cash"'), 'should include the chart of accounts');
+      ok(text.includes('chart of accounts for a Bakery'), 'should use the business type argument');
+    });
+
+    it('defaults the business type to the configured one', async function () {
+      await connectClient();
+      const result = await client.getPrompt({ name: 'SetupChartOfAccounts', arguments: {} });
+      ok(getMessageTexts(result.messages).join('\n').includes('chart of accounts for a Coffee Shop'));
+    });
+  });
+
+  describe('Prompt: RecordReceipt', function () {
+    it('embeds the receipt text', async function () {
+      await connectClient();
+      const result = await client.getPrompt({
+        name: 'RecordReceipt',
+        arguments: { receipt: 'Toko Susu, 2024-03-02, 10 L milk, total 150000, paid cash' },
+      });
+      const text = getMessageTexts(result.messages).join('\n');
+      ok(text.includes('Toko Susu, 2024-03-02, 10 L milk'), 'should include the receipt');
+      ok(text.includes('DraftJournalEntry'), 'should instruct to draft the entry');
+    });
+  });
+
+  describe('Prompt: MonthEndCloseChecklist', function () {
+    it('lists unposted drafts for the month', async function () {
+      await connectClient();
+      await repo.draftJournalEntry({
+        entryTime: new Date('2024-03-15').getTime(),
+        description: 'Unpaid electricity bill',
+        lines: [
+          { accountCode: 300, debit: 0, credit: 50000 },
+          { accountCode: 100, debit: 50000, credit: 0 },
+        ],
+      });
+
+      const result = await client.getPrompt({ name: 'MonthEndCloseChecklist', arguments: { month: '2024-03' } });
+      const text = getMessageTexts(result.messages).join('\n');
+      ok(text.includes('Unpaid electricity bill'), 'should list the draft');
+      ok(text.includes('month-end close for 2024-03 of Kopi Senja'), 'should name the month and business');
+      ok(text.includes('ViewBalanceSheet with asOfDate 2024-03-31 (a date without a time includes all postings of that day)'), 'should review reports as of the end of the month');
+      ok(!text.includes('GenerateFinancialReport as of'), 'should not ask for a dated snapshot');
+    });
+
+    it('reviews reports as of the last day of short months', async function () {
+      await connectClient();
+      const result = await client.getPrompt({ name: 'MonthEndCloseChecklist', arguments: { month: '2024-02' } });
+      ok(getMessageTexts(result.messages).join('\n').includes('ViewTrialBalance and ViewBalanceSheet with asOfDate 2024-02-29 '), 'should use the leap day');
+    });
+  });
+
+  describe('Prompt: ReviewAccount', function () {
+    it('describes the account and its balance', async function () {
+      await connectClient({ role: 'read-only' });
+      const result = await client.getPrompt({ name: 'ReviewAccount', arguments: { accountCode: '100', fromDate: '2024-01-01' } });
+      const text = getMessageTexts(result.messages).join('\n');
+      ok(text.includes('Review account 100 "Cash"'), 'should name the account');
+      ok(text.includes('ViewAccountLedger for account 100 with fromDate 2024-01-01'), 'should instruct to fetch the ledger');
+    });
+
+    it('rejects an unknown account', async function () {
+      await connectClient();
+      await rejects(client.getPrompt({ name: 'ReviewAccount', arguments: { accountCode: '999' } }), /Account 999 does not exist/);
+    });
+  });
+
+  describe('Prompt: ExplainBalanceSheet', function () {
+    it('includes the balance sheet as of the date', async function () {
+      await connectClient({ role: 'read-only' });
+      const result = await client.getPrompt({ name: 'ExplainBalanceSheet', arguments: { asOfDate: '2024-12-31' } });
+      const text = getMessageTexts(result.messages).join('\n');
+      ok(text.includes('Balance Sheet as of 2024-12-31'), 'should include the balance sheet header');
+      ok(text.includes('Owner Equity'), 'should include balance sheet accounts');
+    });
+
+    it('includes entries dated later on a date-only as-of date', async function () {
+      const ref = await repo.draftJournalEntry({
+        entryTime: new Date('2024-12-31T15:00:00Z').getTime(),
+        description: 'Afternoon capital',
+        lines: [
+          { accountCode: 100, debit: 75000, credit: 0 },
+          { accountCode: 300, debit: 0, credit: 75000 },
+        ],
+      });
+      await repo.postJournalEntry(ref, new Date('2024-12-31T15:00:00Z').getTime());
+      await connectClient({ role: 'read-only' });
+      const result = await client.getPrompt({ name: 'ExplainBalanceSheet', arguments: { asOfDate: '2024-12-31' } });
+      const text = getMessageTexts(result.messages).join('\n');
+      ok(text.includes('Balance Sheet as of 2024-12-31T23:59:59.999Z'), 'should explain the balance sheet as of the end of the day');
+      ok(text.includes('75.000'), 'should include the posting made later that day');
+    });
+
+    it('rejects an invalid date', async function () {
+      await connectClient();
+      await rejects(client.getPrompt({ name: 'ExplainBalanceSheet', arguments: { asOfDate: 'not a date' } }), /Invalid asOfDate/);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { AccountingRepository, type UserConfig } from '@app/data/accounting-repository.js';
+import { formatCurrency } from '@app/formatter.js';
+import { completeAccountCodes } from '@app/mcp-server/completions.js';
+import { generateAccountTagsReference } from '@app/mcp-server/resources/account-tags.js';
+import { renderChartOfAccounts } from '@app/mcp-server/tools/account-management.js';
+import { parseAsOfDate, renderBalanceSheetTable } from '@app/mcp-server/tools/reporting.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import z from 'zod/v3';
+
+type PromptMessage = GetPromptResult['messages'][number];
+
+const MAX_DRAFTS_IN_CONTEXT = 50;
+
+/** Last day of a yyyy-mm month as yyyy-mm-dd, null when the month is not in that format. */
+function getLastDayOfMonth(month: string) {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (match === null) {
+    return null;
+  }
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]), 0)).toISOString().slice(0, 10);
+}
+
+function renderUserConfig(userConfig: UserConfig) {
+  return [
+    '# Business Configuration',
+    `- Business Name: ${userConfig.businessName ?? '(not set)'}`,
+    `- Business Type: ${userConfig.businessType ?? '(not set)'}`,
+    `- Currency Code: ${userConfig.currencyCode ?? '(not set)'}`,
+    `- Currency Decimals: ${userConfig.currencyDecimalPlaces ?? '(not set)'}`,
+    `- Locale: ${userConfig.locale ?? '(not set)'}`,
+  ].join('\n');
+}
+
+/**
+ * The live context every workflow prompt starts with: the account tags reference,
+ * the business configuration and the current chart of accounts.
+ */
+async function createBookkeepingContextMessages(repo: AccountingRepository): Promise<PromptMessage[]> {
+  const userConfig = await repo.getUserConfig();
+  const roots = await repo.ViewChartOfAccounts();
+  const chartOfAccounts = roots.length > 0
+    ? renderChartOfAccounts(roots, userConfig)
+    : '# Chart of Accounts\n(no accounts yet)';
+  return [
+    {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: {
+          uri: 'account-tags://reference',
+          mimeType: 'text/markdown',
+          text: generateAccountTagsReference(),
+        },
+      },
+    },
+    {
+      role: 'user',
+      content: {
+        type: 'text',
+        text: `${renderUserConfig(userConfig)}\n\n${chartOfAccounts}`,
+      },
+    },
+  ];
+}
+
+function createInstructionMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+export function defineSetupChartOfAccountsMCPPrompt(server: McpServer, repo: AccountingRepository) {
+  server.registerPrompt('SetupChartOfAccounts', {
+    title: 'Set up a chart of accounts',
+    description: 'Design a chart of accounts for a business type, then create and tag the accounts.',
+    argsSchema: {
+      businessType: z.string().optional().describe('Kind of business, e.g. "coffee shop" or "software consultancy". Default is the Business Type config.'),
+    },
+  }, async function (args) {
+    const userConfig = await repo.getUserConfig();
+    const businessType = args.businessType ?? userConfig.businessType ?? 'small business';
+    return {
+      description: `Set up a chart of accounts for a ${businessType}`,
+      messages: [
+        ...await createBookkeepingContextMessages(repo),
+        createInstructionMessage(`Set up a chart of accounts for a ${businessType}.
+
+1. Review the existing chart of accounts above and keep accounts that already fit; do not recreate them.
+2. If one of the ApplyChartOfAccountsTemplate templates fits, propose it and apply it after my confirmation, then only add the accounts it lacks. Otherwise propose a numbered hierarchy (assets, liabilities, equity, revenue, expenses) with control accounts for each group and accounts typical for a ${businessType}. Show it to me and wait for my confirmation.
+3. After confirmation, create the accounts with ManageManyAccounts, using controlAccountCode for the hierarchy and the correct normal balance.
+4. Tag every account with SetManyAccountTags using only tags from the account tags reference: an account type, a balance sheet or income statement classification, the fiscal year closing tags and the cash flow tags.
+5. Finish with ViewChartOfAccounts and summarize what was created.`),
+      ],
+    };
+  });
+}
+
+export function defineRecordReceiptMCPPrompt(server: McpServer, repo: AccountingRepository) {
+  server.registerPrompt('RecordReceipt', {
+    title: 'Record a receipt',
+    description: 'Turn a receipt or invoice into a balanced journal entry draft.',
+    argsSchema: {
+      receipt: z.string().describe('Receipt text: vendor, date, items, taxes, total and payment method.'),
+    },
+  }, async function (args) {
+    return {
+      description: 'Record a receipt as a journal entry',
+      messages: [
+        ...await createBookkeepingContextMessages(repo),
+        createInstructionMessage(`Record this receipt:
+
+${args.receipt}
+
+1. Extract the date, vendor, line items, taxes, total and payment method. Ask me about anything missing or ambiguous instead of guessing.
+2. Map each amount to an account from the chart of accounts above. If no suitable account exists, propose one and create it with ManageManyAccounts only after I confirm.
+3. Build a balanced entry where total debits equal total credits, using the business currency.
+4. Save it with DraftJournalEntry, using the receipt number or vendor and date as the idempotent key, and show me the draft.
+5. Post it with PostJournalEntries only after I confirm.`),
+      ],
+    };
+  });
+}
+
+export function defineMonthEndCloseChecklistMCPPrompt(server: McpServer, repo: AccountingRepository) {
+  server.registerPrompt('MonthEndCloseChecklist', {
+    title: 'Month-end close checklist',
+    description: 'Walk through the month-end close: drafts, accruals, reconciliations and reports.',
+    argsSchema: {
+      month: z.string().optional().describe('Month to close in yyyy-mm format. Default is the previous month.'),
+    },
+  }, async function (args) {
+    const now = new Date();
+    const month = args.month ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+    const lastDayOfMonth = getLastDayOfMonth(month);
+    const reviewAsOfDate = lastDayOfMonth !== null
+      ? `asOfDate ${lastDayOfMonth} (a date without a time includes all postings of that day)`
+      : `asOfDate set to the end of the last day of ${month}`;
+    const userConfig = await repo.getUserConfig();
+    const drafts = await repo.getManyJournalEntryDrafts(0, MAX_DRAFTS_IN_CONTEXT);
+    const draftsText = drafts.length > 0
+      ? drafts.map(draft => `- Draft #${draft.ref} on ${new Date(draft.entryTime).toISOString()}: ${draft.description ?? '(no description)'}`).join('\n')
+      : '(no unposted drafts)';
+    const fiscalYears = await repo.getManyFiscalYears();
+    const fiscalYearsText = fiscalYears.length > 0
+      ? fiscalYears.map(fiscalYear => `- ${fiscalYear.name ?? '(unnamed)'}: ${new Date(fiscalYear.beginTime + 1).toISOString()} to ${new Date(fiscalYear.endTime).toISOString()}${fiscalYear.isClosed ? ' (closed)' : ''}`).join('\n')
+      : '(no fiscal years defined)';
+    return {
+      description: `Month-end close checklist for ${month}`,
+      messages: [
+        ...await createBookkeepingContextMessages(repo),
+        createInstructionMessage(`# Unposted Journal Entry Drafts
+${draftsText}
+
+# Fiscal Years
+${fiscalYearsText}`),
+        createInstructionMessage(`Guide me through the month-end close for ${month}${userConfig.businessName !== null ? ` of ${userConfig.businessName}` : ''}. Go one step at a time and wait for my confirmation before changing anything.
+
+1. Drafts: review the unposted drafts above dated in ${month}; post them with PostJournalEntries or delete them with DeleteJournalEntryDrafts.
+2. Bank and cash: compare the ViewAccountLedger closing balance of each cash equivalent account with the bank statement and record missing fees, interest or transfers.
+3. Receivables and payables: review customer and vendor balances and record unbilled revenue and unpaid bills.
+4. Accruals, prepayments and depreciation: record adjusting entries with RecordJournalEntry, using an idempotent key that includes ${month}.
+5. Review: run ViewTrialBalance and ViewBalanceSheet with ${reviewAsOfDate} and ViewIncomeStatement for the month, and explain unusual balances.
+6. Snapshot: optionally run GenerateFinancialReport to store the current balances. It always uses the current time, so it only matches the end of ${month} while nothing dated later has been posted.
+7. If ${month} ends a fiscal year, run CloseFiscalYear with preCheckOnly first.`),
+      ],
+    };
+  });
+}
+
+export function defineExplainBalanceSheetMCPPrompt(server: McpServer, repo: AccountingRepository) {
+  server.registerPrompt('ExplainBalanceSheet', {
+    title: 'Explain the balance sheet',
+    description: 'Explain the balance sheet as of a date in plain language.',
+    argsSchema: {
+      asOfDate: z.string().optional().describe('Date/time of the balance sheet in ISO format (yyyy-mm-dd HH:mm); a date alone includes the whole day. Default is now.'),
+    },
+  }, async function (args) {
+    const asOfTime = args.asOfDate !== undefined ? parseAsOfDate(args.asOfDate) : Date.now();
+    if (isNaN(asOfTime)) {
+      throw new Error('Invalid asOfDate format. Please use ISO format (yyyy-mm-dd HH:mm).');
+    }
+    const userConfig = await repo.getUserConfig();
+    const report = await repo.getBalanceSheetAsOf(asOfTime);
+    const balanceSheetText = report.lines.length > 0
+      ? renderBalanceSheetTable(report, userConfig)
+      : '(no accounts are tagged for balance sheet reporting)';
+    return {
+      description: `Explain the balance sheet as of ${new Date(asOfTime).toISOString()}`,
+      messages: [
+        ...await createBookkeepingContextMessages(repo),
+        createInstructionMessage(`# Balance Sheet as of ${new Date(report.reportTime).toISOString()}
+${balanceSheetText}`),
+        createInstructionMessage(`Explain this balance sheet to a business owner without an accounting background.
+
+1. Summarize what the business owns, what it owes and what belongs to the owners, and check that assets equal liabilities plus equity.
+2. Comment on liquidity: compare current assets with current liabilities.
+3. Point out unusual balances, such as accounts with a balance opposite to their normal balance, and suggest ViewAccountLedger to investigate them.
+4. If accounts are missing from the balance sheet, point out the balance sheet tags they need from the account tags reference.`),
+      ],
+    };
+  });
+}
+
+export function defineReviewAccountMCPPrompt(server: McpServer, repo: AccountingRepository) {
+  server.registerPrompt('ReviewAccount', {
+    title: 'Review an account',
+    description: 'Review the postings and balance of an account and flag anything unusual.',
+    argsSchema: {
+      accountCode: completable(
+        z.string().describe('Code of the account to review. Completion matches codes and account names.'),
+        value => completeAccountCodes(repo, value),
+      ),
+      fromDate: z.string().optional().describe('Start of the review period in ISO format (yyyy-mm-dd). Default is all postings.'),
+    },
+  }, async function (args) {
+    const [account] = await repo.getManyAccountsByCodes([Number(args.accountCode)]);
+    if (account === undefined) {
+      throw new Error(`Account ${args.accountCode} does not exist`);
+    }
+    const userConfig = await repo.getUserConfig();
+    const period = args.fromDate !== undefined ? ` from ${args.fromDate}` : '';
+    return {
+      description: `Review account ${account.accountCode} ${account.name}`,
+      messages: [
+        ...await createBookkeepingContextMessages(repo),
+        createInstructionMessage(`Review account ${account.accountCode} "${account.name}" (normal balance: ${account.normalBalance}, balance: ${formatCurrency(account.balance, userConfig)})${period}.
+
+1. Fetch the postings with ViewAccountLedger for account ${account.accountCode}${args.fromDate !== undefined ? ` with fromDate ${args.fromDate}` : ''}.
+2. Explain what drives the balance and whether it fits the account's purpose and normal balance.
+3. Flag duplicates, unusual amounts, postings to the wrong period and entries without a description.
+4. Suggest corrections as reversals or new journal entries, but do not record them unless I confirm.`),
+      ],
+    };
+  });
+}
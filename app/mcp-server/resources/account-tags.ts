@@ -1,68 +1,7 @@
+import { ACCOUNT_TAGS, ALL_ACCOUNT_TAGS, CUSTOM_ACCOUNT_TAG_PREFIX } from '@app/data/account-tags.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
-// Predefined account tags extracted from sqlite-accounting-schema.sql
-// These correspond to the CHECK constraint in the account_tag table
-export const ACCOUNT_TAGS = {
-  'Account Types': [
-    'Asset',
-    'Liability',
-    'Equity',
-    'Revenue',
-    'Expense',
-    'Contra Asset',
-    'Contra Liability',
-    'Contra Equity',
-    'Contra Revenue',
-    'Contra Expense',
-  ],
-  'Account Classifications': [
-    'Current Asset',
-    'Non-Current Asset',
-    'Current Liability',
-    'Non-Current Liability',
-  ],
-  'Fiscal Year Closing Tags': [
-    'Fiscal Year Closing - Retained Earning',
-    'Fiscal Year Closing - Revenue',
-    'Fiscal Year Closing - Expense',
-    'Fiscal Year Closing - Dividend',
-  ],
-  'Balance Sheet Classification': [
-    'Balance Sheet - Current Asset',
-    'Balance Sheet - Non-Current Asset',
-    'Balance Sheet - Current Liability',
-    'Balance Sheet - Non-Current Liability',
-    'Balance Sheet - Equity',
-  ],
-  'Income Statement Classification': [
-    'Income Statement - Revenue',
-    'Income Statement - Contra Revenue',
-    'Income Statement - Other Revenue',
-    'Income Statement - COGS',
-    'Income Statement - Expense',
-    'Income Statement - Other Expense',
-  ],
-  'Cash Flow Statement Tags': [
-    'Cash Flow - Cash Equivalents',
-    'Cash Flow - Revenue',
-    'Cash Flow - Expense',
-    'Cash Flow - Activity - Operating',
-    'Cash Flow - Activity - Investing',
-    'Cash Flow - Activity - Financing',
-    'Cash Flow - Non-Cash - Depreciation',
-    'Cash Flow - Non-Cash - Amortization',
-    'Cash Flow - Non-Cash - Impairment',
-    'Cash Flow - Non-Cash - Gain/Loss',
-    'Cash Flow - Non-Cash - Stock Compensation',
-    'Cash Flow - Working Capital - Current Asset',
-    'Cash Flow - Working Capital - Current Liability',
-  ],
-} as const;
-
-// Flatten all tags for validation and reference
-export const ALL_ACCOUNT_TAGS = Object.values(ACCOUNT_TAGS).flat();
-
-function generateAccountTagsReference(): string {
+export function generateAccountTagsReference(): string {
   const sections = Object.entries(ACCOUNT_TAGS).map(([category, tags]) => {
     const tagList = tags.map(tag => `  - "${tag}"`).join('\n');
     return `## ${category}\n${tagList}`;
@@ -80,7 +19,11 @@ ${sections.join('\n\n')}
 
 ## Usage
 
-When using account tagging tools, the 'tag' parameter must be one of the exact string values listed above.
+When using account tagging tools, the 'tag' parameter must be one of the exact string values listed above, or a custom tag.
+
+## Custom Tags
+
+Custom tags start with "${CUSTOM_ACCOUNT_TAG_PREFIX}" followed by any name, e.g. "${CUSTOM_ACCOUNT_TAG_PREFIX}Branch Jakarta" or "${CUSTOM_ACCOUNT_TAG_PREFIX}Project Alpha". They have no effect on closing or statement classification, but ViewTrialBalance, ViewBalanceSheet, ViewIncomeStatement and ViewAccountLedger can be filtered by any tag, including custom ones.
 
 Examples:
 - Use "Asset" for basic asset classification
@@ -0,0 +1,229 @@
+import { deepEqual, ok, rejects, strictEqual } from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, suite } from 'node:test';
+
+import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
+import { SqliteAccountingRepository } from '@app/data/sqlite-accounting-repository.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MemoryTransport } from '@app/mcp-server/mcp-server-test-utils.js';
+
+suite('AccountingDataMCPResources', function () {
+  let repo: SqliteAccountingRepository;
+  let client: Client;
+  let server: McpServer;
+  let updatedUris: string[];
+
+  async function readJson(uri: string) {
+    const result = await client.readResource({ uri });
+    strictEqual(result.contents[0].mimeType, 'application/json');
+    return JSON.parse(result.contents[0].text as string);
+  }
+
+  async function waitForNotifications() {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+
+  beforeEach(async function () {
+    repo = new SqliteAccountingRepository(':memory:');
+    await repo.connect();
+    server = createAccountingMcpServer(repo);
+    const clientTransport = new MemoryTransport();
+    const serverTransport = new MemoryTransport();
+    clientTransport._paired = serverTransport;
+    serverTransport._paired = clientTransport;
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+
+    updatedUris = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, function (notification) {
+      updatedUris.push(notification.params.uri);
+    });
+
+    await repo.addAccount(100, 'Cash', 'debit');
+    await repo.addAccount(300, 'Owner Equity', 'credit');
+    await repo.addAccount(400, 'Sales', 'credit');
+    await repo.SetManyAccountTags([{ accountCode: 100, tag: 'Balance Sheet - Current Asset' }]);
+  });
+
+  afterEach(async function () {
+    await client.close();
+    await server.close();
+    await repo.close();
+  });
+
+  async function recordEntry(date: string, amount: number) {
+    const journalEntryRef = await repo.draftJournalEntry({
+      entryTime: new Date(date).getTime(),
+      description: 'Owner investment',
+      lines: [
+        { accountCode: 100, debit: amount, credit: 0 },
+        { accountCode: 300, debit: 0, credit: amount },
+      ],
+    });
+    await repo.postJournalEntry(journalEntryRef, new Date(date).getTime());
+    return journalEntryRef;
+  }
+
+  describe('Resource listing', function () {
+    it('lists the chart of accounts and the resource templates', async function () {
+      const { resources } = await client.listResources();
+      ok(resources.some(resource => resource.uri === 'jurukasa://chart-of-accounts'));
+
+      const { resourceTemplates } = await client.listResourceTemplates();
+      deepEqual(resourceTemplates.map(template => template.uriTemplate).sort(), [
+        'jurukasa://account-tags/{tag}',
+        'jurukasa://accounts/{code}',
+        'jurukasa://config/{key}',
+        'jurukasa://journal-entries/{ref}',
+        'jurukasa://reports/trial-balance/{date}',
+      ]);
+    });
+  });
+
+  describe('Resource reads', function () {
+    it('reads an account with its balance and tags', async function () {
+      await recordEntry('2024-01-05', 1000);
+      const { account } = await readJson('jurukasa://accounts/100');
+      strictEqual(account.accountCode, 100);
+      strictEqual(account.name, 'Cash');
+      strictEqual(account.balance, 1000);
+      deepEqual(account.tags, ['Balance Sheet - Current Asset']);
+    });
+
+    it('reads a journal entry by ref', async function () {
+      const journalEntryRef = await recordEntry('2024-01-05', 1000);
+      const { journalEntry } = await readJson(`jurukasa://journal-entries/${journalEntryRef}`);
+      strictEqual(journalEntry.ref, journalEntryRef);
+      strictEqual(journalEntry.description, 'Owner investment');
+      strictEqual(journalEntry.lines.length, 2);
+    });
+
+    it('reads a trial balance as of a date', async function () {
+      await recordEntry('2024-01-05', 1000);
+      await recordEntry('2024-02-05', 500);
+      const { report } = await readJson('jurukasa://reports/trial-balance/2024-01-31');
+      const cashLine = report.lines.find((line: { accountCode: number }) => line.accountCode === 100);
+      strictEqual(cashLine.debit, 1000);
+    });
+
+    it('includes entries dated later on the day of a date-only trial balance', async function () {
+      await recordEntry('2024-01-31T15:00:00Z', 1000);
+      const { report } = await readJson('jurukasa://reports/trial-balance/2024-01-31');
+      strictEqual(report.reportTime, '2024-01-31T23:59:59.999Z');
+      const cashLine = report.lines.find((line: { accountCode: number }) => line.accountCode === 100);
+      strictEqual(cashLine.debit, 1000);
+    });
+
+    it('reads the chart of accounts', async function () {
+      const { accounts } = await readJson('jurukasa://chart-of-accounts');
+      deepEqual(accounts.map((account: { accountCode: number }) => account.accountCode), [100, 300, 400]);
+    });
+
+    it('rejects unknown accounts and journal entries', async function () {
+      await rejects(client.readResource({ uri: 'jurukasa://accounts/999' }), /Account 999 does not exist/);
+      await rejects(client.readResource({ uri: 'jurukasa://journal-entries/999' }), /Journal entry 999 does not exist/);
+      await rejects(client.readResource({ uri: 'jurukasa://reports/trial-balance/not-a-date' }), /Invalid trial balance date/);
+    });
+  });
+
+  describe('Resource update notifications', function () {
+    it('notifies subscribers of resources affected by a posting', async function () {
+      await client.subscribeResource({ uri: 'jurukasa://chart-of-accounts' });
+      await client.subscribeResource({ uri: 'jurukasa://accounts/100' });
+      await client.subscribeResource({ uri: 'jurukasa://accounts/400' });
+      await client.subscribeResource({ uri: 'jurukasa://reports/trial-balance/2023-12-31' });
+      await client.subscribeResource({ uri: 'jurukasa://reports/trial-balance/2024-12-31' });
+
+      await recordEntry('2024-01-05', 1000);
+      await waitForNotifications();
+
+      deepEqual(updatedUris.sort(), [
+        'jurukasa://accounts/100',
+        'jurukasa://chart-of-accounts',
+        'jurukasa://reports/trial-balance/2024-12-31',
+      ]);
+    });
+
+    it('notifies date-only trial balance subscribers of postings later that day', async function () {
+      await client.subscribeResource({ uri: 'jurukasa://reports/trial-balance/2024-01-30' });
+      await client.subscribeResource({ uri: 'jurukasa://reports/trial-balance/2024-01-31' });
+
+      await recordEntry('2024-01-31T15:00:00Z', 1000);
+      await waitForNotifications();
+
+      deepEqual(updatedUris, ['jurukasa://reports/trial-balance/2024-01-31']);
+    });
+
+    it('stops notifying after unsubscribing', async function () {
+      await client.subscribeResource({ uri: 'jurukasa://accounts/100' });
+      await client.unsubscribeResource({ uri: 'jurukasa://accounts/100' });
+
+      await recordEntry('2024-01-05', 1000);
+      await waitForNotifications();
+
+      deepEqual(updatedUris, []);
+    });
+
+    it('does not notify about drafts', async function () {
+      await client.subscribeResource({ uri: 'jurukasa://accounts/100' });
+      await repo.draftJournalEntry({
+        entryTime: new Date('2024-01-05').getTime(),
+        lines: [
+          { accountCode: 100, debit: 1000, credit: 0 },
+          { accountCode: 300, debit: 0, credit: 1000 },
+        ],
+      });
+      await waitForNotifications();
+
+      deepEqual(updatedUris, []);
+    });
+
+    it('notifies subscribers of account changes', async function () {
+      await client.subscribeResource({ uri: 'jurukasa://chart-of-accounts' });
+      await client.subscribeResource({ uri: 'jurukasa://accounts/100' });
+      await client.subscribeResource({ uri: 'jurukasa://accounts/400' });
+      await client.subscribeResource({ uri: 'jurukasa://account-tags/Balance%20Sheet%20-%20Current%20Asset' });
+
+      await repo.setAccountName(400, 'Revenue');
+      await waitForNotifications();
+      deepEqual(updatedUris.sort(), [
+        'jurukasa://account-tags/Balance%20Sheet%20-%20Current%20Asset',
+        'jurukasa://accounts/400',
+        'jurukasa://chart-of-accounts',
+      ]);
+
+      updatedUris = [];
+      await repo.SetManyAccountTags([{ accountCode: 100, tag: 'Cash Flow - Cash Equivalents' }]);
+      await repo.updateAccount(400, { deactivate: true });
+      await repo.addAccount(500, 'Bank', 'debit');
+      await waitForNotifications();
+      ok(updatedUris.includes('jurukasa://accounts/100'), 'should notify about the tagged account');
+      strictEqual(updatedUris.filter(uri => uri === 'jurukasa://accounts/400').length, 1, 'should notify once about the deactivated account');
+      strictEqual(updatedUris.filter(uri => uri === 'jurukasa://chart-of-accounts').length, 3);
+    });
+
+    it('notifies journal entry subscribers of draft changes', async function () {
+      const journalEntryRef = await repo.draftJournalEntry({
+        entryTime: new Date('2024-01-05').getTime(),
+        lines: [
+          { accountCode: 100, debit: 1000, credit: 0 },
+          { accountCode: 300, debit: 0, credit: 1000 },
+        ],
+      });
+      await client.subscribeResource({ uri: `jurukasa://journal-entries/${journalEntryRef}` });
+
+      await repo.updateJournalEntry(journalEntryRef, { description: 'Owner investment' });
+      await repo.deleteManyJournalEntryDrafts([journalEntryRef]);
+      await waitForNotifications();
+
+      deepEqual(updatedUris, [
+        `jurukasa://journal-entries/${journalEntryRef}`,
+        `jurukasa://journal-entries/${journalEntryRef}`,
+      ]);
+    });
+  });
+});
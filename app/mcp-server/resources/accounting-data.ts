@@ -0,0 +1,269 @@
+import { assertValidAccountTag } from '@app/data/account-tags.js';
+import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { completeAccountCodes, completeAccountTags, completeConfigKeys } from '@app/mcp-server/completions.js';
+import { ALLOWED_CONFIG_KEYS } from '@app/mcp-server/tools/config.js';
+import { toJournalEntryOutput } from '@app/mcp-server/tools/journal-entries.js';
+import { parseAsOfDate, toTrialBalanceOutput } from '@app/mcp-server/tools/reporting.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const CHART_OF_ACCOUNTS_URI = 'jurukasa://chart-of-accounts';
+
+function toJsonContents(uri: URL, value: unknown) {
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: 'application/json',
+      text: JSON.stringify(value, null, 2),
+    }],
+  };
+}
+
+function getTemplateVariable(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseTrialBalanceDate(date: string | undefined) {
+  const asOfTime = date !== undefined ? parseAsOfDate(decodeURIComponent(date)) : NaN;
+  if (isNaN(asOfTime)) {
+    throw new Error(`Invalid trial balance date ${JSON.stringify(date)}. Please use ISO format (yyyy-mm-dd HH:mm).`);
+  }
+  return asOfTime;
+}
+
+/**
+ * Live accounting data as resources. Clients may subscribe to any of them and are notified
+ * when a posted journal entry, an account change or a draft change affects the resource.
+ */
+export function defineAccountingDataMCPResources(server: McpServer, repo: AccountingRepository) {
+  const accountTemplate = new ResourceTemplate('jurukasa://accounts/{code}', {
+    list: undefined,
+    complete: {
+      code: value => completeAccountCodes(repo, value),
+    },
+  });
+  const accountTagTemplate = new ResourceTemplate('jurukasa://account-tags/{tag}', {
+    list: undefined,
+    complete: {
+      tag: value => completeAccountTags(repo, value),
+    },
+  });
+  const configTemplate = new ResourceTemplate('jurukasa://config/{key}', {
+    list: undefined,
+    complete: {
+      key: completeConfigKeys,
+    },
+  });
+  const journalEntryTemplate = new ResourceTemplate('jurukasa://journal-entries/{ref}', {
+    list: undefined,
+  });
+  const trialBalanceTemplate = new ResourceTemplate('jurukasa://reports/trial-balance/{date}', {
+    list: undefined,
+  });
+
+  server.registerResource(
+    'chart-of-accounts',
+    CHART_OF_ACCOUNTS_URI,
+    {
+      title: 'Chart of Accounts (JSON)',
+      description: 'Active accounts in their control account hierarchy with current balances',
+      mimeType: 'application/json',
+    },
+    async function (uri) {
+      return toJsonContents(uri, { accounts: await repo.ViewChartOfAccounts() });
+    }
+  );
+
+  server.registerResource(
+    'account',
+    accountTemplate,
+    {
+      title: 'Account (JSON)',
+      description: 'An account by code with its name, normal balance, balance, control account and tags',
+      mimeType: 'application/json',
+    },
+    async function (uri, variables) {
+      const accountCode = Number(getTemplateVariable(variables.code));
+      const [account] = isNaN(accountCode) ? [] : await repo.getManyAccountsByCodes([accountCode]);
+      if (account === undefined) {
+        throw new Error(`Account ${getTemplateVariable(variables.code)} does not exist`);
+      }
+      const tagRows = await repo.sql<{ tag: string }>`
+        SELECT tag FROM account_tags WHERE account_code = ${accountCode} ORDER BY tag
+      `;
+      return toJsonContents(uri, {
+        account: { ...account, tags: tagRows.map(row => row.tag) },
+      });
+    }
+  );
+
+  server.registerResource(
+    'accounts-by-tag',
+    accountTagTemplate,
+    {
+      title: 'Accounts by Tag (JSON)',
+      description: 'Accounts that have the tag, predefined or custom (Custom:<name>). Valid tags are listed in account-tags://reference.',
+      mimeType: 'application/json',
+    },
+    async function (uri, variables) {
+      const tag = decodeURIComponent(getTemplateVariable(variables.tag) ?? '');
+      assertValidAccountTag(tag);
+      const accounts = await repo.getManyAccounts({ tags: [tag] });
+      return toJsonContents(uri, {
+        tag,
+        accounts: accounts.map(account => ({
+          accountCode: account.accountCode,
+          name: account.name,
+          normalBalance: account.normalBalance,
+          controlAccountCode: account.controlAccountCode,
+          isActive: account.isActive,
+        })),
+      });
+    }
+  );
+
+  server.registerResource(
+    'config',
+    configTemplate,
+    {
+      title: 'Configuration Value (JSON)',
+      description: 'A user configuration value by key, null when it is not set',
+      mimeType: 'application/json',
+    },
+    async function (uri, variables) {
+      const key = decodeURIComponent(getTemplateVariable(variables.key) ?? '');
+      if (!ALLOWED_CONFIG_KEYS.includes(key as typeof ALLOWED_CONFIG_KEYS[number])) {
+        throw new Error(`Unknown config key ${JSON.stringify(key)}. Valid keys are ${ALLOWED_CONFIG_KEYS.join(', ')}.`);
+      }
+      const rows = await repo.sql<{ value: string }>`
+        SELECT value FROM user_config WHERE key = ${key}
+      `;
+      return toJsonContents(uri, { key, value: rows.length > 0 ? rows[0].value : null });
+    }
+  );
+
+  server.registerResource(
+    'journal-entry',
+    journalEntryTemplate,
+    {
+      title: 'Journal Entry (JSON)',
+      description: 'A journal entry by ref with its lines, posting status and reversal links',
+      mimeType: 'application/json',
+    },
+    async function (uri, variables) {
+      const journalEntryRef = Number(getTemplateVariable(variables.ref));
+      const [entry] = isNaN(journalEntryRef) ? [] : await repo.getManyJournalEntriesByRefs([journalEntryRef]);
+      if (entry === undefined) {
+        throw new Error(`Journal entry ${getTemplateVariable(variables.ref)} does not exist`);
+      }
+      return toJsonContents(uri, { journalEntry: toJournalEntryOutput(entry) });
+    }
+  );
+
+  server.registerResource(
+    'trial-balance',
+    trialBalanceTemplate,
+    {
+      title: 'Trial Balance (JSON)',
+      description: 'Trial balance computed from posted journal entries dated up to and including the date (ISO format, yyyy-mm-dd for the whole day or yyyy-mm-ddTHH:mm)',
+      mimeType: 'application/json',
+    },
+    async function (uri, variables) {
+      const asOfTime = parseTrialBalanceDate(getTemplateVariable(variables.date));
+      return toJsonContents(uri, { report: toTrialBalanceOutput(await repo.getTrialBalanceAsOf(asOfTime)) });
+    }
+  );
+
+  const subscribedUris = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async function (request) {
+    subscribedUris.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async function (request) {
+    subscribedUris.delete(request.params.uri);
+    return {};
+  });
+
+  async function notifySubscribers(isAffected: (uri: string) => boolean) {
+    for (const uri of subscribedUris) {
+      if (isAffected(uri)) {
+        await server.server.sendResourceUpdated({ uri });
+      }
+    }
+  }
+
+  async function notifyJournalEntriesPosted(journalEntryRefs: number[]) {
+    if (subscribedUris.size === 0) {
+      return;
+    }
+    const entries = await repo.getManyJournalEntriesByRefs(journalEntryRefs);
+    const accountCodes = new Set(entries.flatMap(entry => entry.lines.map(line => line.accountCode)));
+    const earliestEntryTime = Math.min(...entries.map(entry => entry.entryTime));
+
+    await notifySubscribers(function (uri) {
+      if (uri === CHART_OF_ACCOUNTS_URI) {
+        return true;
+      }
+      const accountMatch = accountTemplate.uriTemplate.match(uri);
+      if (accountMatch !== null) {
+        return accountCodes.has(Number(getTemplateVariable(accountMatch.code)));
+      }
+      const journalEntryMatch = journalEntryTemplate.uriTemplate.match(uri);
+      if (journalEntryMatch !== null) {
+        return journalEntryRefs.includes(Number(getTemplateVariable(journalEntryMatch.ref)));
+      }
+      const trialBalanceMatch = trialBalanceTemplate.uriTemplate.match(uri);
+      if (trialBalanceMatch !== null) {
+        const asOfTime = parseAsOfDate(decodeURIComponent(getTemplateVariable(trialBalanceMatch.date) ?? ''));
+        return !isNaN(asOfTime) && asOfTime >= earliestEntryTime;
+      }
+      return false;
+    });
+  }
+
+  async function notifyAccountsChanged(accountCodes: number[]) {
+    // Names, tags, hierarchy and active status show up in the chart, tag lists and trial balances of any date
+    await notifySubscribers(function (uri) {
+      const accountMatch = accountTemplate.uriTemplate.match(uri);
+      if (accountMatch !== null) {
+        return accountCodes.includes(Number(getTemplateVariable(accountMatch.code)));
+      }
+      return uri === CHART_OF_ACCOUNTS_URI
+        || accountTagTemplate.uriTemplate.match(uri) !== null
+        || trialBalanceTemplate.uriTemplate.match(uri) !== null;
+    });
+  }
+
+  async function notifyJournalEntryDraftsChanged(journalEntryRefs: number[]) {
+    await notifySubscribers(function (uri) {
+      const journalEntryMatch = journalEntryTemplate.uriTemplate.match(uri);
+      return journalEntryMatch !== null && journalEntryRefs.includes(Number(getTemplateVariable(journalEntryMatch.ref)));
+    });
+  }
+
+  function ignoreDisconnectedClient() {
+    // The client may have disconnected; nothing else to notify.
+  }
+
+  const removeListeners = [
+    repo.onJournalEntriesPosted(function (journalEntryRefs) {
+      notifyJournalEntriesPosted(journalEntryRefs).catch(ignoreDisconnectedClient);
+    }),
+    repo.onAccountsChanged(function (accountCodes) {
+      notifyAccountsChanged(accountCodes).catch(ignoreDisconnectedClient);
+    }),
+    repo.onJournalEntryDraftsChanged(function (journalEntryRefs) {
+      notifyJournalEntryDraftsChanged(journalEntryRefs).catch(ignoreDisconnectedClient);
+    }),
+  ];
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = function () {
+    for (const removeListener of removeListeners) {
+      removeListener();
+    }
+    subscribedUris.clear();
+    previousOnClose?.();
+  };
+}
@@ -1,4 +1,4 @@
-import { ok, equal, deepEqual, rejects, doesNotReject, throws, doesNotThrow } from 'node:assert/strict';
+import { ok, equal, strictEqual, deepEqual, rejects, doesNotReject, throws, doesNotThrow } from 'node:assert/strict';
 import { afterEach, beforeEach, describe, it, suite } from 'node:test';
 
 import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
@@ -183,6 +183,40 @@ suite('AccountManagementMCPTools', function () {
       equal((deactivatedAccounts[0] as any).is_active, 0);
     });
 
+    it('refuses to deactivate an account with a balance unless it is transferred', async function () {
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-02-01',
+          lines: [
+            { accountCode: 100, amount: 250, type: 'debit' },
+            { accountCode: 300, amount: 250, type: 'credit' },
+          ],
+        },
+      });
+
+      const refused = await client.callTool({
+        name: 'ManageManyAccounts',
+        arguments: { accounts: [{ accountCode: 100, name: 'Cash', normalBalance: 'debit', deactivate: true }] },
+      });
+      const { results: refusedResults } = refused.structuredContent as { results: Array<{ status: string; message: string }> };
+      strictEqual(refusedResults[0].status, 'failed');
+      ok(refusedResults[0].message.includes('Account 100 "Cash" has a non-zero balance of 250'), 'should explain the refusal');
+
+      await client.callTool({
+        name: 'ManageManyAccounts',
+        arguments: { accounts: [{ accountCode: 400, name: 'Bank', normalBalance: 'debit' }] },
+      });
+      const res = await client.callTool({
+        name: 'ManageManyAccounts',
+        arguments: { accounts: [{ accountCode: 100, name: 'Cash', normalBalance: 'debit', deactivate: true, transferBalanceToAccountCode: 400 }] },
+      });
+      const responseText = (res.content[0] as { text: string }).text;
+      ok(responseText.includes('Its balance of $250.00 was transferred to account 400 in journal entry ref'), 'should report the transfer');
+      strictEqual((await repo.getAccountByCode(400))?.balance, 250);
+      strictEqual(await repo.getAccountByCode(100), null);
+    });
+
     it('rejects updates when normal balance mismatches', async function () {
       const res = await client.callTool({
         name: 'ManageManyAccounts',
@@ -328,6 +362,46 @@ suite('AccountManagementMCPTools', function () {
 
       // Verify hierarchical indentation structure (looking for tree characters)
       ok(responseText.includes('├─') || responseText.includes('└─'), 'should have tree structure indicators');
+
+      const { accounts } = res.structuredContent as { accounts: Array<{ accountCode: number; controlAccountCode: number | null }> };
+      deepEqual(accounts.find(account => account.accountCode === 100), {
+        accountCode: 100,
+        name: 'Cash',
+        normalBalance: 'debit',
+        balance: 0,
+        rollUpBalance: 0,
+        controlAccountCode: 1100,
+      });
+      strictEqual(accounts.find(account => account.accountCode === 1000)?.controlAccountCode, null);
+    });
+
+    it('shows control account subtotals and collapses to a depth', async function () {
+      await client.callTool({
+        name: 'ManageManyAccounts',
+        arguments: {
+          accounts: [
+            { accountCode: 1000, name: 'Assets', normalBalance: 'debit' },
+            { accountCode: 100, name: 'Cash', normalBalance: 'debit', controlAccountCode: 1000 },
+          ],
+        },
+      });
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-01-05',
+          lines: [
+            { accountCode: 100, amount: 80, type: 'debit' },
+            { accountCode: 300, amount: 80, type: 'credit' },
+          ],
+        },
+      });
+
+      const res = await client.callTool({ name: 'ViewChartOfAccounts', arguments: { depth: 1 } });
+      const responseText = (res.content[0] as { text: string }).text;
+      ok(responseText.includes('account 1000 "Assets" — (subtotal: $80.00, normal balance: debit)'), 'should show the subtotal');
+      ok(!responseText.includes('account 100 "Cash"'), 'should collapse sub-accounts');
+      const { accounts } = res.structuredContent as { accounts: Array<{ accountCode: number; balance: number; rollUpBalance: number }> };
+      deepEqual(accounts.find(account => account.accountCode === 1000), { accountCode: 1000, name: 'Assets', normalBalance: 'debit', balance: 0, rollUpBalance: 80, controlAccountCode: null });
     });
 
     it('shows account balances with proper currency formatting', async function () {
@@ -496,6 +570,57 @@ suite('AccountManagementMCPTools', function () {
     });
   });
 
+  describe('Tool: RenumberAccount and MergeAccounts', function () {
+    beforeEach(async function () {
+      await client.callTool({
+        name: 'ManageManyAccounts',
+        arguments: {
+          accounts: [
+            { accountCode: 110, name: 'Bank BCA', normalBalance: 'debit' },
+            { accountCode: 120, name: 'BCA Bank', normalBalance: 'debit' },
+          ],
+        },
+      });
+      for (const [accountCode, amount] of [[110, 1500], [120, 500]]) {
+        await client.callTool({
+          name: 'RecordJournalEntry',
+          arguments: {
+            date: '2024-01-10',
+            lines: [
+              { accountCode, amount, type: 'debit' },
+              { accountCode: 200, amount, type: 'credit' },
+            ],
+          },
+        });
+      }
+    });
+
+    it('renumbers an account with posted entries', async function () {
+      const res = await client.callTool({ name: 'RenumberAccount', arguments: { accountCode: 110, newAccountCode: 1110 } });
+      strictEqual(res.isError, undefined);
+      strictEqual((res.content[0] as { text: string }).text, 'Account 110 "Bank BCA" has been renumbered to 1110.');
+      const { change } = res.structuredContent as { change: { changeType: string; oldAccountCode: number; newAccountCode: number } };
+      deepEqual([change.changeType, change.oldAccountCode, change.newAccountCode], ['Renumber', 110, 1110]);
+      strictEqual((await repo.getAccountByCode(1110))?.balance, 1500);
+      strictEqual(await repo.getAccountByCode(110), null);
+    });
+
+    it('merges duplicate accounts and reports the combined balance', async function () {
+      const res = await client.callTool({ name: 'MergeAccounts', arguments: { sourceAccountCodes: [120], targetAccountCode: 110 } });
+      strictEqual(res.isError, undefined);
+      strictEqual((res.content[0] as { text: string }).text, 'Merged account 120 "BCA Bank" into account 110 "Bank BCA". Its balance is now $2,000.00.');
+      strictEqual(await repo.getAccountByCode(120), null);
+      strictEqual((await repo.getManyAccountCodeChanges(110)).length, 1);
+    });
+
+    it('reports why accounts cannot be merged', async function () {
+      const res = await client.callTool({ name: 'MergeAccounts', arguments: { sourceAccountCodes: [200], targetAccountCode: 110 } });
+      strictEqual(res.isError, true);
+      ok((res.content[0] as { text: string }).text.includes('Account 200 "Revenue" has a credit normal balance'));
+      strictEqual((await repo.getAccountByCode(200))?.balance, 2000);
+    });
+  });
+
   describe('Edge Cases and Error Handling', function () {
     it('handles malformed account data gracefully', async function () {
       // Test with invalid account codes
@@ -1,8 +1,14 @@
-import { AccountingRepository, ChartOfAccount } from '@app/data/accounting-repository.js';
+import { type AccountCodeChange, AccountingRepository, ChartOfAccount, type UserConfig } from '@app/data/accounting-repository.js';
 import { AsciiHierarcy, formatCurrency, renderAsciiHierarchy } from '@app/formatter.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import z from 'zod/v3';
 
+type AccountManagementResult = {
+  accountCode: number;
+  status: 'created' | 'updated' | 'unchanged' | 'failed';
+  message: string;
+};
+
 export function defineManageManyAccountsMCPTool(server: McpServer, repo: AccountingRepository) {
   server.registerTool('ManageManyAccounts', {
     title: 'Multi-purpose account management tool',
@@ -13,30 +19,40 @@ export function defineManageManyAccountsMCPTool(server: McpServer, repo: Account
         name: z.string(),
         normalBalance: z.enum(['debit', 'credit']),
         controlAccountCode: z.number().optional().describe('If set, set control account code for chart of account hierarchy. Default is NULL.'),
-        deactivate: z.boolean().optional().describe('If true, deactivate/close the account. Default is false. Balance must be zero to deactivate/close an account.'),
+        deactivate: z.boolean().optional().describe('If true, deactivate/close the account. Default is false. The account must have a zero balance, no active sub-accounts and no journal entry drafts.'),
+        transferBalanceToAccountCode: z.number().optional().describe('When deactivating, post the remaining balance to this account as part of closing instead of failing on a non-zero balance.'),
+      })),
+    },
+    outputSchema: {
+      results: z.array(z.object({
+        accountCode: z.number(),
+        status: z.enum(['created', 'updated', 'unchanged', 'failed']),
+        message: z.string(),
       })),
     },
   }, async function (params) {
     if (params.accounts.length === 0) {
       return {
         content: [{ type: 'text', text: 'No accounts provided, nothing to do.' }],
+        structuredContent: { results: [] },
       };
     }
 
     const userConfig = await repo.getUserConfig();
     const existingAccounts = await repo.getManyAccountsByCodes(params.accounts.map(a => a.accountCode));
 
-    const results: Array<string> = [];
+    const results: Array<AccountManagementResult> = [];
 
     for (const account of params.accounts) {
       const existingAccount = existingAccounts.find(a => a.accountCode === account.accountCode);
       if (existingAccount) {
         if (existingAccount.normalBalance === account.normalBalance) {
           try {
-            await repo.updateAccount(account.accountCode, {
+            const { balanceTransferJournalEntryRef } = await repo.updateAccount(account.accountCode, {
               name: account.name,
               controlCode: account.controlAccountCode,
               deactivate: account.deactivate,
+              transferBalanceToAccountCode: account.transferBalanceToAccountCode,
             });
             const resultTexts: Array<string> = [];
             if (typeof account.name === 'string' && existingAccount.name !== account.name) {
@@ -46,7 +62,10 @@ export function defineManageManyAccountsMCPTool(server: McpServer, repo: Account
               resultTexts.push(`the account's control code has been updated from "${existingAccount.controlAccountCode === null ? 'None' : existingAccount.controlAccountCode}" to "${account.controlAccountCode}"`);
             }
             if (typeof account.deactivate === 'boolean' && existingAccount.isActive !== !account.deactivate) {
-              if (account.deactivate) {
+              if (account.deactivate && balanceTransferJournalEntryRef !== null) {
+                resultTexts.push(`the account has been deactivated/closed. Its balance of ${formatCurrency(existingAccount.balance, userConfig)} was transferred to account ${account.transferBalanceToAccountCode} in journal entry ref ${balanceTransferJournalEntryRef}.`);
+              }
+              else if (account.deactivate) {
                 resultTexts.push(`the account has been deactivated/closed. Final balance was ${formatCurrency(existingAccount.balance ?? 0, userConfig)}.`);
               }
               else {
@@ -54,63 +73,171 @@ export function defineManageManyAccountsMCPTool(server: McpServer, repo: Account
               }
             }
             if (resultTexts.length === 0) {
-              results.push(`account ${account.accountCode} "${account.name}" was found but no changes were made.`);
+              results.push({ accountCode: account.accountCode, status: 'unchanged', message: `account ${account.accountCode} "${account.name}" was found but no changes were made.` });
             }
             else {
-              results.push(`account ${account.accountCode} "${account.name}" has been updated: ${resultTexts.join('; ')}`);
+              results.push({ accountCode: account.accountCode, status: 'updated', message: `account ${account.accountCode} "${account.name}" has been updated: ${resultTexts.join('; ')}` });
             }
           }
           catch (error) {
-            results.push(`error updating account ${account.accountCode} "${account.name}": ${(error as Error).message}`);
+            results.push({ accountCode: account.accountCode, status: 'failed', message: `error updating account ${account.accountCode} "${account.name}": ${(error as Error).message}` });
           }
         }
         else {
-          results.push(`existing account ${account.accountCode} "${account.name}" was found but normal balance mismatch (existing: ${existingAccount.normalBalance}, provided: ${account.normalBalance}). No changes were made.`);
+          results.push({ accountCode: account.accountCode, status: 'failed', message: `existing account ${account.accountCode} "${account.name}" was found but normal balance mismatch (existing: ${existingAccount.normalBalance}, provided: ${account.normalBalance}). No changes were made.` });
         }
       }
       else {
         try {
-          await repo.addAccount(account.accountCode, account.name, account.normalBalance);
-          // Set control account if provided
-          if (typeof account.controlAccountCode === 'number') {
-            await repo.updateAccount(account.accountCode, { controlCode: account.controlAccountCode });
-          }
-          results.push(`new account ${account.accountCode} "${account.name}" has been created with normal balance ${account.normalBalance}.`);
+          await repo.transaction(async function () {
+            await repo.addAccount(account.accountCode, account.name, account.normalBalance);
+            // Set control account if provided
+            if (typeof account.controlAccountCode === 'number') {
+              await repo.updateAccount(account.accountCode, { controlCode: account.controlAccountCode });
+            }
+          });
+          results.push({ accountCode: account.accountCode, status: 'created', message: `new account ${account.accountCode} "${account.name}" has been created with normal balance ${account.normalBalance}.` });
         }
         catch (error) {
-          results.push(`Error creating account ${account.accountCode} "${account.name}": ${(error as Error).message}`);
+          results.push({ accountCode: account.accountCode, status: 'failed', message: `Error creating account ${account.accountCode} "${account.name}": ${(error as Error).message}` });
         }
       }
     }
 
     return {
-      content: [{ type: 'text', text: `# Account Management Result\n- ${results.join('\n- ')}` }],
+      content: [{ type: 'text', text: `# Account Management Result\n- ${results.map(result => result.message).join('\n- ')}` }],
+      structuredContent: { results },
     };
   });
 }
 
+const accountCodeChangeOutputSchema = z.object({
+  id: z.number(),
+  changeType: z.enum(['Renumber', 'Merge']),
+  oldAccountCode: z.number(),
+  oldAccountName: z.string(),
+  newAccountCode: z.number(),
+  changedAt: z.string().describe('ISO date/time'),
+});
+
+function toAccountCodeChangeOutput(change: AccountCodeChange): z.infer<typeof accountCodeChangeOutputSchema> {
+  return { ...change, changedAt: new Date(change.changedAt).toISOString() };
+}
+
+export function defineRenumberAccountMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('RenumberAccount', {
+    title: 'Renumber account',
+    description: 'Move an account to a new, unused account code, e.g. from 1100 to 1110. All journal entry lines including posted ones, tags, report lines and sub-accounts move with it in one transaction, and the mapping is kept as an audit record. To combine two existing accounts use MergeAccounts instead.',
+    inputSchema: {
+      accountCode: z.number(),
+      newAccountCode: z.number(),
+    },
+    outputSchema: {
+      change: accountCodeChangeOutputSchema,
+    },
+  }, async function (params) {
+    let change: AccountCodeChange;
+    try {
+      change = await repo.renumberAccount(params.accountCode, params.newAccountCode);
+    }
+    catch (error) {
+      return { content: [{ type: 'text', text: `Cannot renumber account ${params.accountCode}: ${(error as Error).message}. Nothing was changed.` }], isError: true };
+    }
+    return {
+      content: [{ type: 'text', text: `Account ${change.oldAccountCode} "${change.oldAccountName}" has been renumbered to ${change.newAccountCode}.` }],
+      structuredContent: { change: toAccountCodeChangeOutput(change) },
+    };
+  });
+}
+
+export function defineMergeAccountsMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('MergeAccounts', {
+    title: 'Merge accounts',
+    description: 'Merge duplicate accounts into one target account that keeps its code and name. All accounts must have the same normal balance, and the target cannot be a sub-account of a source. Journal entry lines including posted ones, tags, report lines, sub-accounts and balances move to the target in one transaction, the source accounts are deleted, and each mapping is kept as an audit record.',
+    inputSchema: {
+      sourceAccountCodes: z.array(z.number()).min(1).describe('Accounts to merge and delete.'),
+      targetAccountCode: z.number().describe('Account that remains.'),
+    },
+    outputSchema: {
+      changes: z.array(accountCodeChangeOutputSchema),
+    },
+  }, async function (params) {
+    let changes: AccountCodeChange[];
+    try {
+      changes = await repo.mergeAccounts(params.sourceAccountCodes, params.targetAccountCode);
+    }
+    catch (error) {
+      return { content: [{ type: 'text', text: `Cannot merge accounts into ${params.targetAccountCode}: ${(error as Error).message}. Nothing was changed.` }], isError: true };
+    }
+    const [target] = await repo.getManyAccounts({ accountCodes: [params.targetAccountCode] });
+    const userConfig = await repo.getUserConfig();
+    const mergedText = changes.map(change => `account ${change.oldAccountCode} "${change.oldAccountName}"`).join(', ');
+    return {
+      content: [{ type: 'text', text: `Merged ${mergedText} into account ${target.accountCode} "${target.name}". Its balance is now ${formatCurrency(target.balance, userConfig)}.` }],
+      structuredContent: { changes: changes.map(toAccountCodeChangeOutput) },
+    };
+  });
+}
+
+export function renderChartOfAccounts(roots: ChartOfAccount[], userConfig: UserConfig) {
+  const chartOfAccountToAsciiHierarchy = function (account: ChartOfAccount): AsciiHierarcy {
+    // Control accounts show the subtotal of their descendants, also when the tree is cut above them
+    const balanceText = account.children.length > 0 || account.rollUpBalance !== account.balance
+      ? `subtotal: ${formatCurrency(account.rollUpBalance, userConfig)}`
+      : `balance: ${formatCurrency(account.balance ?? 0, userConfig)}`;
+    return {
+      label: `account ${account.accountCode} "${account.name}" — (${balanceText}, normal balance: ${account.normalBalance})`,
+      children: account.children ? account.children.map(chartOfAccountToAsciiHierarchy) : [],
+    };
+  };
+  return renderAsciiHierarchy({
+    label: '# Chart of Accounts',
+    children: roots.map(chartOfAccountToAsciiHierarchy),
+  });
+}
+
 export function defineViewChartOfAccountsMCPTool(server: McpServer, repo: AccountingRepository) {
   server.registerTool('ViewChartOfAccounts', {
     title: 'Get complete chart of accounts',
-    description: 'This tool will return complete information including code, name, balance, and normal balance for all accounts in a hierarchical structure.',
+    description: 'This tool will return complete information including code, name, balance, and normal balance for all accounts in a hierarchical structure. Control accounts show the subtotal of all of their descendants.',
     inputSchema: {
       showInactive: z.boolean().optional().default(false).describe('If true, include inactive accounts in the chart of accounts. Default is false.'),
+      depth: z.number().int().min(1).optional().describe('Levels of the hierarchy to show, e.g. 1 for top-level accounts only as a summary for management reports. Subtotals still cover all descendants. Default shows all levels.'),
+    },
+    outputSchema: {
+      accounts: z.array(z.object({
+        accountCode: z.number(),
+        name: z.string(),
+        normalBalance: z.enum(['debit', 'credit']),
+        balance: z.number().describe('Unformatted amount in the account currency.'),
+        rollUpBalance: z.number().describe('Balance plus the subtotals of all descendants, in the normal balance of this account.'),
+        controlAccountCode: z.number().nullable(),
+      })).describe('All accounts in depth-first order of the hierarchy.'),
     },
   }, async function (params) {
     const userConfig = await repo.getUserConfig();
-    const chartOfAccountToAsciiHierarchy = function (account: ChartOfAccount): AsciiHierarcy {
-      return {
-        label: `account ${account.accountCode} "${account.name}" — (balance: ${formatCurrency(account.balance ?? 0, userConfig)}, normal balance: ${account.normalBalance})`,
-        children: account.children ? account.children.map(chartOfAccountToAsciiHierarchy) : [],
-      };
+    const roots = await repo.ViewChartOfAccounts({ includeInactive: params.showInactive, depth: params.depth });
+    const asciiHierarchy = renderChartOfAccounts(roots, userConfig);
+    const accounts: Array<{ accountCode: number; name: string; normalBalance: 'debit' | 'credit'; balance: number; rollUpBalance: number; controlAccountCode: number | null }> = [];
+    const flattenChartOfAccount = function (account: ChartOfAccount, controlAccountCode: number | null) {
+      accounts.push({
+        accountCode: account.accountCode,
+        name: account.name,
+        normalBalance: account.normalBalance,
+        balance: account.balance ?? 0,
+        rollUpBalance: account.rollUpBalance,
+        controlAccountCode,
+      });
+      for (const child of account.children ?? []) {
+        flattenChartOfAccount(child, account.accountCode);
+      }
     };
-    const roots = await repo.ViewChartOfAccounts({ includeInactive: params.showInactive });
-    const asciiHierarchy = renderAsciiHierarchy({
-      label: '# Chart of Accounts',
-      children: roots.map(chartOfAccountToAsciiHierarchy),
-    });
+    for (const root of roots) {
+      flattenChartOfAccount(root, null);
+    }
     return {
       content: [{ type: 'text', text: asciiHierarchy }],
+      structuredContent: { accounts },
     };
   });
 }
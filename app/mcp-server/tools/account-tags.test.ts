@@ -1,4 +1,4 @@
-import { ok } from 'node:assert/strict';
+import { ok, strictEqual } from 'node:assert/strict';
 import { afterEach, beforeEach, describe, it, suite } from 'node:test';
 
 import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
@@ -102,6 +102,31 @@ suite('AccountTagsMCPTools', function () {
       ok(responseText.includes('No tagged accounts provided, nothing to do.'), 'should handle empty list');
     });
 
+    it('rejects unknown tags with the closest valid tags', async function () {
+      const res = await client.callTool({
+        name: 'SetManyAccountTags',
+        arguments: {
+          accountTags: [{ accountCode: 100, tag: 'Curent Asset' }],
+        },
+      });
+      strictEqual(res.isError, true);
+      const responseText = (res.content as Array<{ text: string }>)[0].text;
+      ok(responseText.includes('Unknown account tag "Curent Asset"'), 'should name the unknown tag');
+      ok(responseText.includes('Did you mean "Current Asset"'), 'should suggest the closest tag');
+    });
+
+    it('accepts custom tags', async function () {
+      const res = await client.callTool({
+        name: 'SetManyAccountTags',
+        arguments: {
+          accountTags: [{ accountCode: 100, tag: 'Custom:Branch Jakarta' }],
+        },
+      });
+      strictEqual(res.isError, undefined);
+      const tagged = await repo.getAccountsByTag('Custom:Branch Jakarta', 0, 10);
+      strictEqual(tagged[0]?.accountCode, 100);
+    });
+
     it('handles multiple tags for same account', async function () {
       const res = await client.callTool({
         name: 'SetManyAccountTags',
@@ -2,26 +2,36 @@ import { AccountingRepository } from '@app/data/accounting-repository.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import z from 'zod/v3';
 
+const accountTagsOutputSchema = {
+  accountTags: z.array(z.object({
+    accountCode: z.number(),
+    tag: z.string(),
+  })).describe('Account tags that have been applied.'),
+};
+
 export function defineSetManyAccountTagsMCPTool(server: McpServer, repo: AccountingRepository) {
   server.registerTool('SetManyAccountTags', {
     title: 'Set many account tags',
-    description: 'Set tags for multiple accounts. Each account can have multiple tags. Use the account-tags://reference resource to see all valid tag values.',
+    description: 'Set tags for multiple accounts. Each account can have multiple tags. Use the account-tags://reference resource to see all valid tag values. Unknown tags are rejected with the closest valid tags as suggestions.',
     inputSchema: {
       accountTags: z.array(z.object({
         accountCode: z.number(),
-        tag: z.string().describe('Tag is predefined string enum constant. Get valid tags from the account-tags://reference resource.'),
+        tag: z.string().describe('Tag is predefined string enum constant, or a custom tag starting with "Custom:" (e.g. "Custom:Branch Jakarta"). Get valid tags from the account-tags://reference resource.'),
       })),
     },
+    outputSchema: accountTagsOutputSchema,
   }, async function (params) {
     if (params.accountTags.length === 0) {
       const allAccounts = await repo.getManyAccounts({});
       if (allAccounts.length === 0) {
         return {
           content: [{ type: 'text', text: 'No accounts exist in the system. Consider setting up an initial chart of accounts using the ManageManyAccounts tool.' }],
+          structuredContent: { accountTags: [] },
         };
       } else {
         return {
           content: [{ type: 'text', text: 'No tagged accounts provided, nothing to do.' }],
+          structuredContent: { accountTags: [] },
         };
       }
     }
@@ -34,11 +44,13 @@ export function defineSetManyAccountTagsMCPTool(server: McpServer, repo: Account
           type: 'text',
           text: results.join('\n'),
         }],
+        structuredContent: { accountTags: params.accountTags },
       };
     }
     catch (error) {
       return {
         content: [{ type: 'text', text: `Error setting account tags: ${(error as Error).message}` }],
+        isError: true,
       };
     }
   });
@@ -54,10 +66,12 @@ export function defineUnSetManyAccountTagsMCPTool(server: McpServer, repo: Accou
         tag: z.string(),
       })),
     },
+    outputSchema: accountTagsOutputSchema,
   }, async function (params) {
     if (params.accountTags.length === 0) {
       return {
         content: [{ type: 'text', text: 'No tagged accounts provided, nothing to do.' }],
+        structuredContent: { accountTags: [] },
       };
     }
 
@@ -66,11 +80,13 @@ export function defineUnSetManyAccountTagsMCPTool(server: McpServer, repo: Accou
       const results = params.accountTags.map(ta => `Tag "${ta.tag}" removed from account ${ta.accountCode}.`);
       return {
         content: [{ type: 'text', text: results.join('\n') }],
+        structuredContent: { accountTags: params.accountTags },
       };
     }
     catch (error) {
       return {
         content: [{ type: 'text', text: `Error unsetting account tags: ${(error as Error).message}` }],
+        isError: true,
       };
     }
   });
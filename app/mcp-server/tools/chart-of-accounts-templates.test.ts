@@ -0,0 +1,82 @@
+import { deepEqual, ok, strictEqual } from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, suite } from 'node:test';
+
+import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
+import { SqliteAccountingRepository } from '@app/data/sqlite-accounting-repository.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { MemoryTransport } from '@app/mcp-server/mcp-server-test-utils.js';
+
+suite('ChartOfAccountsTemplatesMCPTools', function () {
+  let repo: SqliteAccountingRepository;
+  let client: Client;
+  let server: McpServer;
+
+  beforeEach(async function () {
+    repo = new SqliteAccountingRepository(':memory:');
+    await repo.connect();
+    server = createAccountingMcpServer(repo);
+    const clientTransport = new MemoryTransport();
+    const serverTransport = new MemoryTransport();
+    clientTransport._paired = serverTransport;
+    serverTransport._paired = clientTransport;
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterEach(async function () {
+    await client.close();
+    await server.close();
+    await repo.close();
+  });
+
+  describe('Tool: ApplyChartOfAccountsTemplate', function () {
+    it('applies the template matching the Business Type config', async function () {
+      await repo.setUserConfig({ businessName: 'Warung Bu Sri', businessType: 'UMKM Kuliner', currencyCode: 'IDR', currencyDecimalPlaces: 0 });
+
+      const res = await client.callTool({ name: 'ApplyChartOfAccountsTemplate', arguments: {} });
+      const text = (res.content as Array<{ text: string }>)[0].text;
+      ok(text.includes('Applied template sak-emkm'), 'should name the applied template');
+      ok(text.includes('"Kas"'), 'should show the resulting chart of accounts');
+
+      const { templateId, createdAccountCodes } = res.structuredContent as { templateId: string; createdAccountCodes: number[] };
+      strictEqual(templateId, 'sak-emkm');
+      ok(createdAccountCodes.includes(3200));
+    });
+
+    it('applies an explicit template that supports posting, reporting and closing', async function () {
+      const res = await client.callTool({ name: 'ApplyChartOfAccountsTemplate', arguments: { templateId: 'retail' } });
+      strictEqual(res.isError, undefined);
+
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-03-01',
+          description: 'Cash sale',
+          lines: [
+            { accountCode: 1110, amount: 500, type: 'debit' },
+            { accountCode: 4100, amount: 500, type: 'credit' },
+          ],
+        },
+      });
+
+      const statement = await repo.getIncomeStatement({ beginTime: new Date('2024-01-01').getTime(), endTime: new Date('2025-01-01').getTime() });
+      strictEqual(statement.netIncome, 500);
+      const balanceSheet = await repo.getBalanceSheetAsOf(new Date('2024-12-31').getTime());
+      strictEqual(balanceSheet.lines.find(line => line.accountCode === 1110)?.amount, 500);
+    });
+
+    it('asks for a template when the Business Type config does not match one', async function () {
+      await repo.setUserConfig({ businessName: 'Bahari Charter', businessType: 'Fishing Charter', currencyCode: 'IDR', currencyDecimalPlaces: 0 });
+      const res = await client.callTool({ name: 'ApplyChartOfAccountsTemplate', arguments: {} });
+      strictEqual(res.isError, true);
+      const text = (res.content as Array<{ text: string }>)[0].text;
+      ok(text.includes('No template matches the Business Type config ("Fishing Charter")'));
+      ok(text.includes('- ifrs-sme: Generic IFRS for SMEs'));
+      deepEqual(await repo.getManyAccounts(), []);
+    });
+  });
+});
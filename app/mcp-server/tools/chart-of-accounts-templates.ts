@@ -0,0 +1,75 @@
+import { AccountingRepository, type ChartOfAccountsTemplateResult } from '@app/data/accounting-repository.js';
+import {
+  CHART_OF_ACCOUNTS_TEMPLATES,
+  findChartOfAccountsTemplateForBusinessType,
+  getChartOfAccountsTemplate,
+} from '@app/data/chart-of-accounts-templates.js';
+import { renderChartOfAccounts } from '@app/mcp-server/tools/account-management.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import z from 'zod/v3';
+
+const templateIds = CHART_OF_ACCOUNTS_TEMPLATES.map(template => template.id) as [string, ...string[]];
+
+function renderTemplateList() {
+  return CHART_OF_ACCOUNTS_TEMPLATES
+    .map(template => `- ${template.id}: ${template.name}. ${template.description}`)
+    .join('\n');
+}
+
+export function defineApplyChartOfAccountsTemplateMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('ApplyChartOfAccountsTemplate', {
+    title: 'Apply chart of accounts template',
+    description: `Create a complete starting chart of accounts in one call: accounts with hierarchy, normal balances and all balance sheet, income statement, fiscal year closing and cash flow tags. Existing accounts with the same code are left unchanged. Available templates:\n${renderTemplateList()}`,
+    inputSchema: {
+      templateId: z.enum(templateIds).optional().describe('Template to apply. Default is the template matching the Business Type config.'),
+    },
+    outputSchema: {
+      templateId: z.string(),
+      templateName: z.string(),
+      createdAccountCodes: z.array(z.number()),
+      existingAccountCodes: z.array(z.number()).describe('Accounts that already existed and were left unchanged.'),
+    },
+  }, async function (params) {
+    const userConfig = await repo.getUserConfig();
+    const template = params.templateId !== undefined
+      ? getChartOfAccountsTemplate(params.templateId)
+      : findChartOfAccountsTemplateForBusinessType(userConfig.businessType ?? '');
+    if (template === null) {
+      return {
+        content: [{
+          type: 'text',
+          text: `No template matches the Business Type config (${userConfig.businessType === null ? 'not set' : `"${userConfig.businessType}"`}). Please choose a templateId:\n${renderTemplateList()}`,
+        }],
+        isError: true,
+      };
+    }
+
+    let result: ChartOfAccountsTemplateResult;
+    try {
+      result = await repo.applyChartOfAccountsTemplate(template);
+    }
+    catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to apply template ${template.id}: ${error instanceof Error ? error.message : String(error)}. No accounts were created.` }],
+        isError: true,
+      };
+    }
+
+    const existing = result.existingAccountCodes.length > 0
+      ? ` ${result.existingAccountCodes.length} accounts already existed and were left unchanged: ${result.existingAccountCodes.join(', ')}.`
+      : '';
+    const roots = await repo.ViewChartOfAccounts();
+    return {
+      content: [{
+        type: 'text',
+        text: `Applied template ${template.id} (${template.name}): created ${result.createdAccountCodes.length} accounts.${existing}\n\n${renderChartOfAccounts(roots, userConfig)}`,
+      }],
+      structuredContent: {
+        templateId: template.id,
+        templateName: template.name,
+        createdAccountCodes: result.createdAccountCodes,
+        existingAccountCodes: result.existingAccountCodes,
+      },
+    };
+  });
+}
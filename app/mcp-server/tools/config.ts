@@ -2,7 +2,7 @@ import { AccountingRepository } from '@app/data/accounting-repository.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import z from 'zod/v3';
 
-const ALLOWED_CONFIG_KEYS = [
+export const ALLOWED_CONFIG_KEYS = [
   'Business Name',
   'Business Type',
   'Currency Code',
@@ -11,6 +11,13 @@ const ALLOWED_CONFIG_KEYS = [
   'Fiscal Year Start Month'
 ] as const;
 
+const configsOutputSchema = {
+  configs: z.array(z.object({
+    key: z.string(),
+    value: z.string(),
+  })),
+};
+
 export function defineSetConfigMCPTool(server: McpServer, repo: AccountingRepository) {
   server.registerTool('SetConfig', {
     title: 'Set user configuration',
@@ -21,17 +28,18 @@ export function defineSetConfigMCPTool(server: McpServer, repo: AccountingReposi
         value: z.string(),
       })),
     },
+    outputSchema: configsOutputSchema,
   }, async function (params) {
     try {
       const now = Date.now();
-      const updates = params.configs.map(config => 
-        repo.sql`
-          INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at)
-          VALUES (${config.key}, ${config.value}, ${now}, ${now})
-        `
-      );
-
-      await Promise.all(updates);
+      await repo.transaction(async function () {
+        for (const config of params.configs) {
+          await repo.sql`
+            INSERT OR REPLACE INTO user_config (key, value, created_at, updated_at)
+            VALUES (${config.key}, ${config.value}, ${now}, ${now})
+          `;
+        }
+      });
 
       const updateMessages = params.configs.map(config => 
         `${config.key} = "${config.value}"`
@@ -42,6 +50,7 @@ export function defineSetConfigMCPTool(server: McpServer, repo: AccountingReposi
           type: 'text',
           text: `Configuration updated: ${updateMessages}`
         }],
+        structuredContent: { configs: params.configs },
       };
     } catch (error) {
       return {
@@ -49,6 +58,7 @@ export function defineSetConfigMCPTool(server: McpServer, repo: AccountingReposi
           type: 'text',
           text: `Error updating configuration: ${(error as Error).message}`
         }],
+        isError: true,
       };
     }
   });
@@ -58,6 +68,7 @@ export function defineGetConfigMCPTool(server: McpServer, repo: AccountingReposi
   server.registerTool('GetConfig', {
     title: 'Get user configuration',
     description: 'Retrieve all user configuration settings.',
+    outputSchema: configsOutputSchema,
   }, async function (params) {
     // params is unused for GetConfig as it takes no input
     try {
@@ -73,6 +84,7 @@ export function defineGetConfigMCPTool(server: McpServer, repo: AccountingReposi
             type: 'text',
             text: 'No configuration settings found.'
           }],
+          structuredContent: { configs: [] },
         };
       }
 
@@ -83,6 +95,7 @@ export function defineGetConfigMCPTool(server: McpServer, repo: AccountingReposi
           type: 'text',
           text: `User Configuration:\n${configText}`
         }],
+        structuredContent: { configs: rows.map(row => ({ key: row.key, value: row.value })) },
       };
     } catch (error) {
       return {
@@ -90,6 +103,7 @@ export function defineGetConfigMCPTool(server: McpServer, repo: AccountingReposi
           type: 'text',
           text: `Error retrieving configuration: ${(error as Error).message}`
         }],
+        isError: true,
       };
     }
   });
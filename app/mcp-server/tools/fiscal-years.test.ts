@@ -0,0 +1,201 @@
+import { ok, strictEqual } from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, suite } from 'node:test';
+
+import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
+import { SqliteAccountingRepository } from '@app/data/sqlite-accounting-repository.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { MemoryTransport } from '@app/mcp-server/mcp-server-test-utils.js';
+
+suite('FiscalYearMCPTools', function () {
+  let repo: SqliteAccountingRepository;
+  let client: Client;
+  let clientTransport: MemoryTransport;
+  let server: McpServer;
+  let serverTransport: MemoryTransport;
+
+  beforeEach(async function () {
+    repo = new SqliteAccountingRepository(':memory:');
+    await repo.connect();
+    server = createAccountingMcpServer(repo);
+    clientTransport = new MemoryTransport();
+    serverTransport = new MemoryTransport();
+    clientTransport._paired = serverTransport;
+    serverTransport._paired = clientTransport;
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+
+    await repo.setUserConfig({
+      businessName: 'Test Business',
+      businessType: 'Test',
+      currencyCode: 'USD',
+      currencyDecimalPlaces: 2,
+      locale: 'en-US',
+      fiscalYearStartMonth: 4,
+    });
+
+    await client.callTool({
+      name: 'ManageManyAccounts',
+      arguments: {
+        accounts: [
+          { accountCode: 100, name: 'Cash', normalBalance: 'debit' },
+          { accountCode: 400, name: 'Sales', normalBalance: 'credit' },
+          { accountCode: 300, name: 'Retained Earning', normalBalance: 'credit' },
+        ],
+      },
+    });
+    await client.callTool({
+      name: 'SetManyAccountTags',
+      arguments: {
+        accountTags: [
+          { accountCode: 400, tag: 'Fiscal Year Closing - Revenue' },
+        ],
+      },
+    });
+  });
+
+  afterEach(async function () {
+    await Promise.all([
+      client.close(),
+      server.close(),
+    ]);
+    await repo.close();
+  });
+
+  describe('Tool: DefineFiscalYear and ListFiscalYears', function () {
+    it('defines consecutive fiscal years and lists them', async function () {
+      const firstRes = await client.callTool({
+        name: 'DefineFiscalYear',
+        arguments: { startDate: '2024-04-01' },
+      });
+      const firstText = (firstRes.content[0] as { text: string }).text;
+      strictEqual(firstText, 'Fiscal year FY2025 defined for 2024-04-01 to 2025-03-31.');
+
+      const secondRes = await client.callTool({
+        name: 'DefineFiscalYear',
+        arguments: { name: 'Next Year' },
+      });
+      const secondText = (secondRes.content[0] as { text: string }).text;
+      strictEqual(secondText, 'Fiscal year Next Year defined for 2025-04-01 to 2026-03-31.');
+
+      const listRes = await client.callTool({
+        name: 'ListFiscalYears',
+        arguments: {},
+      });
+      const listText = (listRes.content[0] as { text: string }).text;
+      ok(listText.includes('FY2025'), 'should list the first fiscal year');
+      ok(listText.includes('Next Year'), 'should list the second fiscal year');
+      ok(listText.includes('Open'), 'should show open status');
+    });
+
+    it('defaults the start to the configured fiscal year start month', async function () {
+      const res = await client.callTool({
+        name: 'DefineFiscalYear',
+        arguments: {},
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(/defined for \d{4}-04-01 to \d{4}-03-31\./.test(text), 'should start on the first day of April');
+    });
+
+    it('rejects overlapping fiscal years', async function () {
+      await client.callTool({
+        name: 'DefineFiscalYear',
+        arguments: { startDate: '2024-04-01' },
+      });
+      const res = await client.callTool({
+        name: 'DefineFiscalYear',
+        arguments: { startDate: '2024-10-01', name: 'Overlap' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Fiscal year periods cannot overlap'), 'should report the overlap');
+    });
+  });
+
+  describe('Tool: CloseFiscalYear', function () {
+    beforeEach(async function () {
+      await client.callTool({
+        name: 'DefineFiscalYear',
+        arguments: { startDate: '2024-04-01', name: 'FY2025' },
+      });
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-04-01',
+          description: 'Sales',
+          lines: [
+            { accountCode: 100, amount: 700, type: 'debit' },
+            { accountCode: 400, amount: 700, type: 'credit' },
+          ],
+        },
+      });
+    });
+
+    it('reports blocking issues without closing', async function () {
+      await client.callTool({
+        name: 'DraftJournalEntry',
+        arguments: {
+          date: '2024-05-01',
+          description: 'Pending sales',
+          lines: [
+            { accountCode: 100, amount: 10, type: 'debit' },
+            { accountCode: 400, amount: 10, type: 'credit' },
+          ],
+        },
+      });
+
+      const res = await client.callTool({
+        name: 'CloseFiscalYear',
+        arguments: { name: 'FY2025' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('1 unposted journal entry draft(s)'), 'should report unposted drafts');
+      ok(text.includes('No account is tagged "Fiscal Year Closing - Retained Earning"'), 'should report the missing retained earning tag');
+      ok(text.includes('Net income to be moved to retained earning: $700.00'), 'should report the net income');
+      ok(text.includes('cannot be closed'), 'should not close the fiscal year');
+
+      const fiscalYears = await repo.getManyFiscalYears();
+      strictEqual(fiscalYears[0].isClosed, false);
+    });
+
+    it('closes the fiscal year and posts the closing entry', async function () {
+      await client.callTool({
+        name: 'SetManyAccountTags',
+        arguments: {
+          accountTags: [
+            { accountCode: 300, tag: 'Fiscal Year Closing - Retained Earning' },
+          ],
+        },
+      });
+
+      const preCheckRes = await client.callTool({
+        name: 'CloseFiscalYear',
+        arguments: { name: 'FY2025', preCheckOnly: true },
+      });
+      const preCheckText = (preCheckRes.content[0] as { text: string }).text;
+      ok(preCheckText.includes('Retained earning account: 300'), 'should report the retained earning account');
+      ok(!preCheckText.includes('has been closed'), 'pre-check only should not close');
+
+      const res = await client.callTool({
+        name: 'CloseFiscalYear',
+        arguments: { name: 'FY2025', date: '2025-04-15' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Fiscal year FY2025 has been closed'), 'should close the fiscal year');
+      ok(/Closing journal entry ref \d+ has been posted/.test(text), 'should report the closing entry');
+
+      const retainedEarning = await repo.getAccountByCode(300);
+      strictEqual(retainedEarning?.balance, 700);
+
+      const againRes = await client.callTool({
+        name: 'CloseFiscalYear',
+        arguments: { name: 'FY2025' },
+      });
+      const againText = (againRes.content[0] as { text: string }).text;
+      strictEqual(againText, 'Fiscal year FY2025 is already closed.');
+    });
+  });
+});
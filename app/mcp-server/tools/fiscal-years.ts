@@ -0,0 +1,237 @@
+import { AccountingRepository, type FiscalYear, type FiscalYearClosingPreCheck, type UserConfig } from '@app/data/accounting-repository.js';
+import { formatCurrency, renderAsciiTable } from '@app/formatter.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import z from 'zod/v3';
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Fiscal years are stored as (beginTime, endTime], so the first day starts one millisecond after beginTime.
+ */
+function formatFiscalYearPeriod(beginTime: number, endTime: number) {
+  return `${new Date(beginTime + 1).toISOString().slice(0, 10)} to ${new Date(endTime).toISOString().slice(0, 10)}`;
+}
+
+const fiscalYearOutputSchema = z.object({
+  name: z.string().nullable(),
+  startDate: z.string().describe('First day of the fiscal year (yyyy-mm-dd).'),
+  endDate: z.string().describe('Last day of the fiscal year (yyyy-mm-dd).'),
+  isClosed: z.boolean(),
+  postTime: z.string().nullable().describe('ISO date/time the fiscal year was closed.'),
+  closingJournalEntryRef: z.number().nullable(),
+});
+
+function toFiscalYearOutput(fiscalYear: FiscalYear): z.infer<typeof fiscalYearOutputSchema> {
+  return {
+    name: fiscalYear.name,
+    startDate: new Date(fiscalYear.beginTime + 1).toISOString().slice(0, 10),
+    endDate: new Date(fiscalYear.endTime).toISOString().slice(0, 10),
+    isClosed: fiscalYear.isClosed,
+    postTime: fiscalYear.postTime !== null ? new Date(fiscalYear.postTime).toISOString() : null,
+    closingJournalEntryRef: fiscalYear.closingJournalEntryRef,
+  };
+}
+
+function renderClosingPreCheck(preCheck: FiscalYearClosingPreCheck, userConfig: UserConfig) {
+  const lines = [
+    `Fiscal year ${preCheck.fiscalYear.name} (${formatFiscalYearPeriod(preCheck.fiscalYear.beginTime, preCheck.fiscalYear.endTime)}) closing pre-check:`,
+    preCheck.unpostedJournalEntryRefs.length > 0
+      ? `- BLOCKING: ${preCheck.unpostedJournalEntryRefs.length} unposted journal entry draft(s) in this fiscal year: ${preCheck.unpostedJournalEntryRefs.join(', ')}. Post them with PostJournalEntries or delete them with DeleteJournalEntryDrafts.`
+      : '- No unposted journal entry drafts.',
+    preCheck.retainedEarningAccountCode !== null
+      ? `- Retained earning account: ${preCheck.retainedEarningAccountCode}.`
+      : '- BLOCKING: No account is tagged "Fiscal Year Closing - Retained Earning". Tag one using SetManyAccountTags.',
+    `- Net income to be moved to retained earning: ${formatCurrency(preCheck.netIncome, userConfig)}.`,
+  ];
+  return lines.join('\n');
+}
+
+export function defineDefineFiscalYearMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('DefineFiscalYear', {
+    title: 'Define fiscal year',
+    description: 'Define a fiscal year period. By default the fiscal year starts right after the latest defined fiscal year, or on the first day of the configured "Fiscal Year Start Month" (January if not configured), and lasts 12 months.',
+    inputSchema: {
+      startDate: z.string().optional().describe('First day of the fiscal year in ISO format (yyyy-mm-dd).'),
+      endDate: z.string().optional().describe('Last day of the fiscal year in ISO format (yyyy-mm-dd). Defaults to 12 months after startDate.'),
+      name: z.string().optional().describe('Fiscal year name, e.g. "FY2024". Defaults to "FY" followed by the year of the last day.'),
+    },
+    outputSchema: {
+      fiscalYear: fiscalYearOutputSchema,
+    },
+  }, async function (params) {
+    let startTime: number;
+    if (params.startDate !== undefined) {
+      startTime = new Date(params.startDate).getTime();
+      if (isNaN(startTime)) {
+        return { content: [{ type: 'text', text: 'Invalid startDate format. Please use ISO format (yyyy-mm-dd).' }], isError: true };
+      }
+    }
+    else {
+      const fiscalYears = await repo.getManyFiscalYears();
+      if (fiscalYears.length > 0) {
+        startTime = fiscalYears[fiscalYears.length - 1].endTime + 1;
+      }
+      else {
+        const userConfig = await repo.getUserConfig();
+        const startMonth = (userConfig.fiscalYearStartMonth ?? 1) - 1;
+        const now = new Date();
+        const startYear = now.getUTCMonth() >= startMonth ? now.getUTCFullYear() : now.getUTCFullYear() - 1;
+        startTime = Date.UTC(startYear, startMonth, 1);
+      }
+    }
+
+    let endTime: number;
+    if (params.endDate !== undefined) {
+      const lastDayTime = new Date(params.endDate).getTime();
+      if (isNaN(lastDayTime)) {
+        return { content: [{ type: 'text', text: 'Invalid endDate format. Please use ISO format (yyyy-mm-dd).' }], isError: true };
+      }
+      endTime = lastDayTime + ONE_DAY - 1;
+    }
+    else {
+      const start = new Date(startTime);
+      endTime = Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 12, start.getUTCDate()) - 1;
+    }
+
+    const beginTime = startTime - 1;
+    const name = params.name ?? `FY${new Date(endTime).getUTCFullYear()}`;
+
+    try {
+      await repo.defineFiscalYear({ beginTime, endTime, name });
+    }
+    catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to define fiscal year: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Fiscal year ${name} defined for ${formatFiscalYearPeriod(beginTime, endTime)}.`,
+      }],
+      structuredContent: {
+        fiscalYear: toFiscalYearOutput({ beginTime, endTime, name, postTime: null, closingJournalEntryRef: null, isClosed: false }),
+      },
+    };
+  });
+}
+
+export function defineListFiscalYearsMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('ListFiscalYears', {
+    title: 'List fiscal years',
+    description: 'List all defined fiscal years with their period and closing status.',
+    inputSchema: {},
+    outputSchema: {
+      fiscalYears: z.array(fiscalYearOutputSchema),
+    },
+  }, async function () {
+    const fiscalYears = await repo.getManyFiscalYears();
+    if (fiscalYears.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No fiscal years defined. Use DefineFiscalYear to define one.' }],
+        structuredContent: { fiscalYears: [] },
+      };
+    }
+
+    const headers = ['Name', 'Period', 'Status', 'Closed At', 'Closing Entry'];
+    const rows = fiscalYears.map(fiscalYear => [
+      fiscalYear.name ?? '',
+      formatFiscalYearPeriod(fiscalYear.beginTime, fiscalYear.endTime),
+      fiscalYear.isClosed ? 'Closed' : 'Open',
+      fiscalYear.postTime !== null ? new Date(fiscalYear.postTime).toISOString() : '',
+      fiscalYear.closingJournalEntryRef !== null ? fiscalYear.closingJournalEntryRef.toString() : '',
+    ]);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Fiscal Years\n${renderAsciiTable(headers, rows)}`,
+      }],
+      structuredContent: { fiscalYears: fiscalYears.map(toFiscalYearOutput) },
+    };
+  });
+}
+
+export function defineCloseFiscalYearMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('CloseFiscalYear', {
+    title: 'Close fiscal year',
+    description: 'Close a fiscal year. A pre-check reports unposted drafts, a missing "Fiscal Year Closing - Retained Earning" tag and the net income that will be moved. When nothing blocks, the closing entry zeroes accounts tagged "Fiscal Year Closing - Revenue", "Fiscal Year Closing - Expense" and "Fiscal Year Closing - Dividend" into the retained earning account.',
+    inputSchema: {
+      name: z.string().describe('Name of the fiscal year to close.'),
+      preCheckOnly: z.boolean().optional().describe('Only run the pre-check without closing. Default is false.'),
+      date: z.string().optional().describe('Closing date/time in ISO format (yyyy-mm-dd HH:mm:ss). Default is now.'),
+    },
+    outputSchema: {
+      status: z.enum(['closed', 'already_closed', 'blocked', 'pre_check_only']),
+      fiscalYear: fiscalYearOutputSchema,
+      unpostedJournalEntryRefs: z.array(z.number()),
+      retainedEarningAccountCode: z.number().nullable(),
+      netIncome: z.number().describe('Net income moved to retained earning, unformatted.'),
+    },
+  }, async function (params) {
+    const postTime = params.date !== undefined ? new Date(params.date).getTime() : Date.now();
+    if (isNaN(postTime)) {
+      return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }], isError: true };
+    }
+
+    const userConfig = await repo.getUserConfig();
+    let preCheck: FiscalYearClosingPreCheck;
+    try {
+      preCheck = await repo.getFiscalYearClosingPreCheck(params.name);
+    }
+    catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to close fiscal year: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+
+    const preCheckOutput = {
+      fiscalYear: toFiscalYearOutput(preCheck.fiscalYear),
+      unpostedJournalEntryRefs: preCheck.unpostedJournalEntryRefs,
+      retainedEarningAccountCode: preCheck.retainedEarningAccountCode,
+      netIncome: preCheck.netIncome,
+    };
+
+    if (preCheck.fiscalYear.isClosed) {
+      return {
+        content: [{ type: 'text', text: `Fiscal year ${params.name} is already closed.` }],
+        structuredContent: { status: 'already_closed', ...preCheckOutput },
+      };
+    }
+
+    const report = renderClosingPreCheck(preCheck, userConfig);
+    const isBlocked = preCheck.unpostedJournalEntryRefs.length > 0 || preCheck.retainedEarningAccountCode === null;
+    if (params.preCheckOnly === true || isBlocked) {
+      return {
+        content: [{
+          type: 'text',
+          text: isBlocked ? `${report}\nFiscal year ${params.name} cannot be closed until the blocking issues are resolved.` : report,
+        }],
+        structuredContent: { status: isBlocked ? 'blocked' : 'pre_check_only', ...preCheckOutput },
+      };
+    }
+
+    try {
+      const fiscalYear = await repo.closeFiscalYear(params.name, postTime);
+      return {
+        content: [{
+          type: 'text',
+          text: `${report}\nFiscal year ${params.name} has been closed.`
+            + (fiscalYear.closingJournalEntryRef !== null
+              ? ` Closing journal entry ref ${fiscalYear.closingJournalEntryRef} has been posted.`
+              : ' No closing journal entry was needed.'),
+        }],
+        structuredContent: { ...preCheckOutput, status: 'closed', fiscalYear: toFiscalYearOutput(fiscalYear) },
+      };
+    }
+    catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to close fiscal year: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  });
+}
@@ -1,4 +1,4 @@
-import { ok, equal, deepEqual, rejects, doesNotReject, throws, doesNotThrow } from 'node:assert/strict';
+import { ok, equal, strictEqual, deepEqual, rejects, doesNotReject, throws, doesNotThrow } from 'node:assert/strict';
 import { afterEach, beforeEach, describe, it, suite } from 'node:test';
 
 import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
@@ -84,6 +84,22 @@ suite('JournalEntriesMCPTools', function () {
       assertDefined(refMatch, 'Should extract journal entry reference');
       const journalRef = parseInt(refMatch[1]);
       ok(journalRef > 0, 'Should have a valid journal entry reference');
+      deepEqual(res.structuredContent, { journalEntryRef: journalRef, created: true });
+    });
+
+    it('returns structured errors for invalid input', async function () {
+      const res = await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: 'not a date',
+          lines: [
+            { accountCode: 100, amount: 500, type: 'debit' },
+            { accountCode: 200, amount: 500, type: 'credit' },
+          ],
+        },
+      });
+      strictEqual(res.isError, true);
+      strictEqual(res.structuredContent, undefined);
     });
 
     it('records journal entry with idempotentKey', async function () {
@@ -146,6 +162,25 @@ suite('JournalEntriesMCPTools', function () {
       ok(responseText.includes('Journal entry recorded with ref') || responseText.includes('Error'), 'should handle empty lines gracefully');
     });
 
+    it('does not leave a draft behind when posting fails', async function () {
+      const res = await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-01-01',
+          description: 'Unbalanced entry',
+          lines: [
+            { accountCode: 100, amount: 500, type: 'debit' },
+            { accountCode: 200, amount: 400, type: 'credit' },
+          ],
+        },
+      });
+      const responseText = (res.content[0] as { text: string }).text;
+      ok(responseText.includes('does not balance'), 'should report the posting error');
+
+      const drafts = await repo.getManyJournalEntryDrafts(0, 10);
+      equal(drafts.length, 0, 'should roll back the draft');
+    });
+
     it('returns user-friendly error for non-existent account codes', async function () {
       const res = await client.callTool({
         name: 'RecordJournalEntry',
@@ -326,4 +361,408 @@ suite('JournalEntriesMCPTools', function () {
       ok(responseText.includes('Cannot reverse journal entry'), 'should indicate error');
     });
   });
+
+  describe('Tool: DraftJournalEntry and PostJournalEntries', function () {
+    it('drafts a journal entry without affecting balances until posted', async function () {
+      const draftRes = await client.callTool({
+        name: 'DraftJournalEntry',
+        arguments: {
+          date: '2024-01-01',
+          description: 'Draft entry',
+          lines: [
+            { accountCode: 100, amount: 700, type: 'debit' },
+            { accountCode: 200, amount: 700, type: 'credit' },
+          ],
+        },
+      });
+      const draftText = (draftRes.content[0] as { text: string }).text;
+      ok(draftText.includes('Journal entry draft created with ref'), 'should confirm draft creation');
+      const refMatch = draftText.match(/created with ref (\d+)/);
+      assertDefined(refMatch, 'Should extract journal entry reference');
+      const draftRef = parseInt(refMatch[1]);
+
+      const cashBeforePost = await repo.getAccountByCode(100);
+      equal(cashBeforePost?.balance, 0, 'draft should not affect balance');
+
+      const postRes = await client.callTool({
+        name: 'PostJournalEntries',
+        arguments: { journalEntryRefs: [draftRef] },
+      });
+      const postText = (postRes.content[0] as { text: string }).text;
+      ok(postText.includes(`journal entry ${draftRef} has been posted`), 'should confirm posting');
+
+      const cashAfterPost = await repo.getAccountByCode(100);
+      equal(cashAfterPost?.balance, 700, 'posted entry should affect balance');
+    });
+
+    it('reports per-entry errors when posting', async function () {
+      const draftRes = await client.callTool({
+        name: 'DraftJournalEntry',
+        arguments: {
+          date: '2024-01-01',
+          description: 'Unbalanced draft',
+          lines: [
+            { accountCode: 100, amount: 700, type: 'debit' },
+            { accountCode: 200, amount: 500, type: 'credit' },
+          ],
+        },
+      });
+      const draftText = (draftRes.content[0] as { text: string }).text;
+      const refMatch = draftText.match(/created with ref (\d+)/);
+      assertDefined(refMatch, 'Should extract journal entry reference');
+      const draftRef = parseInt(refMatch[1]);
+
+      const postRes = await client.callTool({
+        name: 'PostJournalEntries',
+        arguments: { journalEntryRefs: [draftRef, 99999] },
+      });
+      const postText = (postRes.content[0] as { text: string }).text;
+      ok(postText.includes(`error posting journal entry ${draftRef}`), 'should report unbalanced entry');
+      ok(postText.includes('does not balance'), 'should explain balance error');
+      ok(postText.includes('error posting journal entry 99999'), 'should report missing entry');
+    });
+
+    it('rejects drafts with non-existent account codes', async function () {
+      const res = await client.callTool({
+        name: 'DraftJournalEntry',
+        arguments: {
+          date: '2024-01-01',
+          lines: [
+            { accountCode: 100, amount: 500, type: 'debit' },
+            { accountCode: 999, amount: 500, type: 'credit' },
+          ],
+        },
+      });
+      const responseText = (res.content[0] as { text: string }).text;
+      ok(responseText.includes('Cannot draft journal entry'), 'should indicate draft cannot be created');
+      ok(responseText.includes('999'), 'should list the missing account code');
+    });
+  });
+
+  describe('Tool: UpdateJournalEntryDraft, ListJournalEntryDrafts and DeleteJournalEntryDrafts', function () {
+    let draftRef: number;
+
+    beforeEach(async function () {
+      const draftRes = await client.callTool({
+        name: 'DraftJournalEntry',
+        arguments: {
+          date: '2024-02-01',
+          description: 'Office rent',
+          lines: [
+            { accountCode: 100, amount: 250, type: 'debit' },
+            { accountCode: 300, amount: 250, type: 'credit' },
+          ],
+        },
+      });
+      const draftText = (draftRes.content[0] as { text: string }).text;
+      const refMatch = draftText.match(/created with ref (\d+)/);
+      assertDefined(refMatch, 'Should extract journal entry reference');
+      draftRef = parseInt(refMatch[1]);
+    });
+
+    it('lists drafts with their lines', async function () {
+      const res = await client.callTool({
+        name: 'ListJournalEntryDrafts',
+        arguments: {},
+      });
+      const responseText = (res.content[0] as { text: string }).text;
+      ok(responseText.includes(`Journal entry ref ${draftRef}`), 'should list the draft');
+      ok(responseText.includes('Office rent'), 'should include the description');
+      ok(responseText.includes('Cash') && responseText.includes('Equity'), 'should include account names');
+      ok(responseText.includes('$250.00'), 'should include formatted amounts');
+    });
+
+    it('updates a draft and replaces its lines', async function () {
+      const res = await client.callTool({
+        name: 'UpdateJournalEntryDraft',
+        arguments: {
+          journalEntryRef: draftRef,
+          description: 'Office rent February',
+          lines: [
+            { accountCode: 100, amount: 300, type: 'debit' },
+            { accountCode: 200, amount: 300, type: 'credit' },
+          ],
+        },
+      });
+      const responseText = (res.content[0] as { text: string }).text;
+      ok(responseText.includes(`Journal entry draft ${draftRef} has been updated`), 'should confirm update');
+
+      const [entry] = await repo.getManyJournalEntriesByRefs([draftRef]);
+      equal(entry.description, 'Office rent February');
+      deepEqual(entry.lines.map(line => [line.accountCode, line.debit, line.credit]), [
+        [100, 300, 0],
+        [200, 0, 300],
+      ]);
+    });
+
+    it('refuses to update a posted entry', async function () {
+      await client.callTool({
+        name: 'PostJournalEntries',
+        arguments: { journalEntryRefs: [draftRef] },
+      });
+      const res = await client.callTool({
+        name: 'UpdateJournalEntryDraft',
+        arguments: { journalEntryRef: draftRef, description: 'Too late' },
+      });
+      const responseText = (res.content[0] as { text: string }).text;
+      ok(responseText.includes('Error updating journal entry draft'), 'should report error');
+      ok(responseText.includes('already posted'), 'should explain entry is posted');
+    });
+
+    it('deletes drafts and skips posted entries', async function () {
+      const recordRes = await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-02-02',
+          lines: [
+            { accountCode: 100, amount: 100, type: 'debit' },
+            { accountCode: 200, amount: 100, type: 'credit' },
+          ],
+        },
+      });
+      const recordText = (recordRes.content[0] as { text: string }).text;
+      const refMatch = recordText.match(/recorded with ref (\d+)/);
+      assertDefined(refMatch, 'Should extract journal entry reference');
+      const postedRef = parseInt(refMatch[1]);
+
+      const res = await client.callTool({
+        name: 'DeleteJournalEntryDrafts',
+        arguments: { journalEntryRefs: [draftRef, postedRef, 99999] },
+      });
+      const responseText = (res.content[0] as { text: string }).text;
+      ok(responseText.includes(`journal entry draft ${draftRef} has been deleted`), 'should delete draft');
+      ok(responseText.includes(`journal entry ${postedRef} is posted and cannot be deleted`), 'should skip posted entry');
+      ok(responseText.includes('journal entry 99999 does not exist'), 'should report missing entry');
+
+      const remaining = await repo.getManyJournalEntriesByRefs([draftRef, postedRef]);
+      deepEqual(remaining.map(entry => entry.ref), [postedRef]);
+
+      const listRes = await client.callTool({
+        name: 'ListJournalEntryDrafts',
+        arguments: {},
+      });
+      const listText = (listRes.content[0] as { text: string }).text;
+      ok(listText.includes('No journal entry drafts found'), 'should have no drafts left');
+    });
+  });
+
+  describe('Tool: SearchJournalEntries', function () {
+    beforeEach(async function () {
+      const entries = [
+        { date: '2024-03-01', description: 'Monthly rent March', amount: 300, accountCode: 300 },
+        { date: '2024-03-05', description: 'Sales', amount: 1000, accountCode: 200 },
+        { date: '2024-04-01', description: 'Monthly rent April', amount: 300, accountCode: 300 },
+      ];
+      for (const entry of entries) {
+        await client.callTool({
+          name: 'RecordJournalEntry',
+          arguments: {
+            date: entry.date,
+            description: entry.description,
+            lines: [
+              { accountCode: 100, amount: entry.amount, type: 'debit' },
+              { accountCode: entry.accountCode, amount: entry.amount, type: 'credit' },
+            ],
+          },
+        });
+      }
+      await client.callTool({
+        name: 'DraftJournalEntry',
+        arguments: {
+          date: '2024-04-02',
+          description: 'Draft rent adjustment',
+          lines: [
+            { accountCode: 100, amount: 5, type: 'debit' },
+            { accountCode: 300, amount: 5, type: 'credit' },
+          ],
+        },
+      });
+    });
+
+    it('filters by note text, date range and status', async function () {
+      const res = await client.callTool({
+        name: 'SearchJournalEntries',
+        arguments: { noteContains: 'RENT', fromDate: '2024-03-01', toDate: '2024-04-30', status: 'posted' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Showing 1-2 of 2 matching entries'), 'should count matching entries');
+      ok(text.includes('Monthly rent April'), 'should include April rent');
+      ok(text.includes('Monthly rent March'), 'should include March rent');
+      ok(!text.includes('Draft rent adjustment'), 'should exclude drafts');
+      ok(text.indexOf('Monthly rent April') < text.indexOf('Monthly rent March'), 'should order newest first');
+    });
+
+    it('filters by account and amount range with pagination', async function () {
+      const res = await client.callTool({
+        name: 'SearchJournalEntries',
+        arguments: { accountCodes: [300], minAmount: 100, maxAmount: 500, limit: 1, offset: 1 },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Showing 2-2 of 2 matching entries'), 'should paginate');
+      ok(text.includes('Monthly rent March'), 'should return the second page');
+      ok(!text.includes('Sales'), 'should exclude entries outside of the account filter');
+
+      const structured = res.structuredContent as { entries: Array<{ description: string; postTime: string | null; lines: Array<{ accountCode: number; debit: number; credit: number }> }>; total: number; offset: number; limit: number };
+      strictEqual(structured.total, 2);
+      strictEqual(structured.offset, 1);
+      strictEqual(structured.limit, 1);
+      strictEqual(structured.entries.length, 1);
+      strictEqual(structured.entries[0].description, 'Monthly rent March');
+      ok(structured.entries[0].postTime !== null, 'should be posted');
+      ok(structured.entries[0].lines.some(line => line.accountCode === 300 && line.credit > 0), 'should include raw line amounts');
+    });
+
+    it('reports when nothing matches', async function () {
+      const res = await client.callTool({
+        name: 'SearchJournalEntries',
+        arguments: { idempotentKey: 'missing-key' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('No journal entries found.'), 'should report no results');
+    });
+  });
+
+  describe('Line description and reference', function () {
+    it('records line memo and reference and finds the entry by reference', async function () {
+      const recordRes = await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-05-01',
+          description: 'Invoice payment',
+          lines: [
+            { accountCode: 100, amount: 120, type: 'debit', description: 'Bank transfer', reference: 'INV-2024-017' },
+            { accountCode: 200, amount: 120, type: 'credit', reference: 'INV-2024-017' },
+          ],
+        },
+      });
+      const recordText = (recordRes.content[0] as { text: string }).text;
+      ok(recordText.includes('Journal entry recorded'), 'should record the entry');
+
+      const searchRes = await client.callTool({
+        name: 'SearchJournalEntries',
+        arguments: { referenceContains: 'inv-2024-017' },
+      });
+      const searchText = (searchRes.content[0] as { text: string }).text;
+      ok(searchText.includes('Showing 1-1 of 1 matching entries'), 'should find the entry by reference');
+      ok(searchText.includes('Memo'), 'should show the memo column');
+      ok(searchText.includes('Bank transfer'), 'should show the line memo');
+
+      const ledgerRes = await client.callTool({
+        name: 'ViewAccountLedger',
+        arguments: { accountCode: 200 },
+      });
+      const ledgerText = (ledgerRes.content[0] as { text: string }).text;
+      ok(ledgerText.includes('INV-2024-017'), 'should show the reference in the ledger');
+    });
+  });
+
+  describe('Journal entry provenance', function () {
+    it('tags entries made through MCP as LLM Generated with the source reference', async function () {
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-06-01',
+          description: 'Agent recorded sale',
+          sourceReference: 'conversation-42',
+          lines: [
+            { accountCode: 100, amount: 80, type: 'debit' },
+            { accountCode: 200, amount: 80, type: 'credit' },
+          ],
+        },
+      });
+      await repo.draftJournalEntry({
+        entryTime: new Date('2024-06-02').getTime(),
+        description: 'Manual sale',
+        lines: [
+          { accountCode: 100, debit: 20, credit: 0 },
+          { accountCode: 200, debit: 0, credit: 20 },
+        ],
+      });
+
+      const searchRes = await client.callTool({
+        name: 'SearchJournalEntries',
+        arguments: { sourceTypes: ['LLM Generated'] },
+      });
+      const searchText = (searchRes.content[0] as { text: string }).text;
+      ok(searchText.includes('Showing 1-1 of 1 matching entries'), 'should only find the agent entry');
+      ok(searchText.includes('Source: LLM Generated (conversation-42), created by User'), 'should show the provenance');
+
+      const referenceRes = await client.callTool({
+        name: 'SearchJournalEntries',
+        arguments: { sourceReference: 'conversation-42' },
+      });
+      const referenceText = (referenceRes.content[0] as { text: string }).text;
+      ok(referenceText.includes('Agent recorded sale'), 'should find the entry by source reference');
+
+      const ledgerRes = await client.callTool({
+        name: 'ViewAccountLedger',
+        arguments: { accountCode: 200, sourceTypes: ['Manual'] },
+      });
+      const ledgerText = (ledgerRes.content[0] as { text: string }).text;
+      ok(ledgerText.includes('Only entries with source: Manual'), 'should show the source filter');
+      ok(!ledgerText.includes('Agent recorded sale'), 'should exclude LLM generated entries');
+    });
+
+    it('tags reversals made through MCP as LLM Generated', async function () {
+      const ref = await repo.draftJournalEntry({
+        entryTime: new Date('2024-06-01').getTime(),
+        lines: [
+          { accountCode: 100, debit: 20, credit: 0 },
+          { accountCode: 200, debit: 0, credit: 20 },
+        ],
+      });
+      await repo.postJournalEntry(ref, new Date('2024-06-01').getTime());
+
+      await client.callTool({
+        name: 'ReverseJournalEntry',
+        arguments: { journalEntryRef: ref, date: '2024-06-05', sourceReference: 'audit-7' },
+      });
+
+      const result = await repo.searchJournalEntries({ sourceTypes: ['LLM Generated'] }, 0, 10);
+      strictEqual(result.total, 1);
+      strictEqual(result.entries[0].reversalOfRef, ref);
+      strictEqual(result.entries[0].sourceReference, 'audit-7');
+    });
+  });
+
+  describe('Tool: ImportOpeningBalances', function () {
+    it('posts the opening entry against the equity account and refuses to run twice', async function () {
+      await repo.setAccountTag(300, 'Balance Sheet - Equity');
+      const res = await client.callTool({
+        name: 'ImportOpeningBalances',
+        arguments: {
+          asOfDate: '2023-12-31',
+          balances: [
+            { accountCode: 100, balance: 1500 },
+            { accountCode: 200, balance: 250 },
+          ],
+          openingBalanceEquityAccountCode: 300,
+        },
+      });
+      strictEqual(res.isError, undefined);
+      const text = (res.content as Array<{ text: string }>)[0].text;
+      ok(text.includes('Opening balances as of 2023-12-31'), 'should show the opening entry');
+      ok(text.includes('Source: System Generated, created by System'), 'should show the provenance');
+
+      const { journalEntryRef, entry } = res.structuredContent as { journalEntryRef: number; entry: { lines: Array<{ accountCode: number; debit: number; credit: number }> } };
+      deepEqual(entry.lines.map(line => [line.accountCode, line.debit, line.credit]), [
+        [100, 1500, 0],
+        [200, 0, 250],
+        [300, 0, 1250],
+      ]);
+      const trialBalance = await repo.getTrialBalanceAsOf(new Date('2024-01-01').getTime());
+      strictEqual(trialBalance.lines.find(line => line.accountCode === 300)?.credit, 1250);
+
+      const again = await client.callTool({
+        name: 'ImportOpeningBalances',
+        arguments: {
+          asOfDate: '2023-12-31',
+          balances: [{ accountCode: 100, balance: 1500 }],
+          openingBalanceEquityAccountCode: 300,
+        },
+      });
+      strictEqual(again.isError, true);
+      ok((again.content as Array<{ text: string }>)[0].text.includes(`already imported in journal entry ${journalEntryRef}`));
+    });
+  });
 });
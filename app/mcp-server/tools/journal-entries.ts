@@ -1,7 +1,103 @@
-import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { AccountingRepository, JournalEntry, UserConfig } from '@app/data/accounting-repository.js';
+import { formatCurrency, renderAsciiTable } from '@app/formatter.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import z from 'zod/v3';
 
+const journalEntryLinesSchema = z.array(z.object({
+  accountCode: z.number(),
+  amount: z.number(),
+  type: z.enum(['debit', 'credit']),
+  description: z.string().optional().describe('Optional memo for this line'),
+  reference: z.string().optional().describe('Optional external reference for this line, e.g. invoice number or receipt ID'),
+}));
+
+type JournalEntryLinesInput = z.infer<typeof journalEntryLinesSchema>;
+
+const sourceReferenceSchema = z.string().optional().describe('Optional provenance reference, e.g. a conversation ID or source document ID');
+
+export const journalEntryOutputSchema = z.object({
+  ref: z.number(),
+  entryTime: z.string().describe('ISO date/time'),
+  description: z.string().nullable(),
+  postTime: z.string().nullable().describe('ISO date/time, null for drafts'),
+  idempotentKey: z.string().nullable(),
+  sourceType: z.string().nullable(),
+  sourceReference: z.string().nullable(),
+  createdBy: z.string().nullable(),
+  reversalOfRef: z.number().nullable(),
+  reversedByRef: z.number().nullable(),
+  lines: z.array(z.object({
+    lineNumber: z.number(),
+    accountCode: z.number(),
+    accountName: z.string(),
+    debit: z.number(),
+    credit: z.number(),
+    description: z.string().nullable(),
+    reference: z.string().nullable(),
+  })),
+});
+
+const journalEntryRefOutputSchema = {
+  journalEntryRef: z.number(),
+  created: z.boolean().describe('False when the idempotentKey was already used and no new entry was created.'),
+};
+
+export function toJournalEntryOutput(entry: JournalEntry): z.infer<typeof journalEntryOutputSchema> {
+  return {
+    ...entry,
+    entryTime: new Date(entry.entryTime).toISOString(),
+    postTime: entry.postTime !== null ? new Date(entry.postTime).toISOString() : null,
+    lines: entry.lines.map(line => ({ ...line })),
+  };
+}
+
+function toJournalEntryLines(lines: JournalEntryLinesInput) {
+  return lines.map(line => ({
+    accountCode: line.accountCode,
+    debit: line.type === 'debit' ? line.amount : 0,
+    credit: line.type === 'credit' ? line.amount : 0,
+    description: line.description ?? null,
+    reference: line.reference ?? null,
+  }));
+}
+
+async function findMissingAccountCodes(repo: AccountingRepository, lines: JournalEntryLinesInput): Promise<number[]> {
+  const uniqueAccountCodes = [...new Set(lines.map(line => line.accountCode))];
+  if (uniqueAccountCodes.length === 0) {
+    return [];
+  }
+  const existingAccounts = await repo.getManyAccountsByCodes(uniqueAccountCodes);
+  const existingAccountCodes = new Set(existingAccounts.map(account => account.accountCode));
+  return uniqueAccountCodes.filter(code => !existingAccountCodes.has(code));
+}
+
+function renderJournalEntry(entry: JournalEntry, userConfig: UserConfig): string {
+  const status = entry.postTime === null ? 'draft' : `posted at ${new Date(entry.postTime).toISOString()}`;
+  const header = `Journal entry ref ${entry.ref} (${new Date(entry.entryTime).toISOString()}, ${status})${entry.description ? `: ${entry.description}` : ''}`;
+  const idempotentKeyText = entry.idempotentKey ? `\nIdempotent key: ${entry.idempotentKey}` : '';
+  const sourceText = entry.sourceType !== null
+    ? `\nSource: ${entry.sourceType}${entry.sourceReference ? ` (${entry.sourceReference})` : ''}${entry.createdBy ? `, created by ${entry.createdBy}` : ''}`
+    : '';
+  const reversalText = (entry.reversalOfRef !== null ? `\nReversal of journal entry ref ${entry.reversalOfRef}` : '')
+    + (entry.reversedByRef !== null ? `\nReversed by journal entry ref ${entry.reversedByRef}` : '');
+  const totalDebit = entry.lines.reduce((sum, line) => sum + line.debit, 0);
+  const totalCredit = entry.lines.reduce((sum, line) => sum + line.credit, 0);
+  // Memo and reference columns are only shown when at least one line has them
+  const hasLineDetails = entry.lines.some(line => line.description !== null || line.reference !== null);
+  const rows = entry.lines.map(line => [
+    line.accountCode.toString(),
+    line.accountName,
+    formatCurrency(line.debit, userConfig),
+    formatCurrency(line.credit, userConfig),
+    ...(hasLineDetails ? [line.description ?? '', line.reference ?? ''] : []),
+  ]);
+  rows.push(['TOTAL', '', formatCurrency(totalDebit, userConfig), formatCurrency(totalCredit, userConfig), ...(hasLineDetails ? ['', ''] : [])]);
+  const headers = ['Account Code', 'Account Name', 'Debit', 'Credit', ...(hasLineDetails ? ['Memo', 'Reference'] : [])];
+  const table = renderAsciiTable(headers, rows);
+  const balanceText = totalDebit === totalCredit ? '' : '\nWarning: this entry does not balance and cannot be posted until it does.';
+  return `${header}${idempotentKeyText}${sourceText}${reversalText}\n${table}${balanceText}`;
+}
+
 export function defineRecordJournalEntryMCPTool(server: McpServer, repo: AccountingRepository) {
   server.registerTool('RecordJournalEntry', {
     title: 'Record journal entry',
@@ -9,73 +105,65 @@ export function defineRecordJournalEntryMCPTool(server: McpServer, repo: Account
     inputSchema: {
       date: z.string().describe('date is in ISO format (yyyy-mm-dd HH:mm:ss)'),
       description: z.string().optional(),
-      lines: z.array(z.object({
-        accountCode: z.number(),
-        amount: z.number(),
-        type: z.enum(['debit', 'credit']),
-      })),
+      lines: journalEntryLinesSchema,
       idempotentKey: z.string().optional().describe('provide optional idempotentKey to prevent duplicate entries'),
+      sourceReference: sourceReferenceSchema,
     },
+    outputSchema: journalEntryRefOutputSchema,
   }, async function (params) {
     try {
       const entryTime = new Date(params.date).getTime();
 
       if (isNaN(entryTime)) {
-        return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }] };
+        return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }], isError: true };
       }
 
       if (params.idempotentKey) {
         const existingJournalRef = await repo.getExistingJournalEntryByIdempotentKey(params.idempotentKey);
         if (existingJournalRef) {
-          return { content: [{ type: 'text', text: `Journal entry idempotency key already used by journal entry ref ${existingJournalRef}. No new entry created.` }] };
+          return {
+            content: [{ type: 'text', text: `Journal entry idempotency key already used by journal entry ref ${existingJournalRef}. No new entry created.` }],
+            structuredContent: { journalEntryRef: existingJournalRef, created: false },
+          };
         }
       }
 
       // Validate that all account codes exist
-      const accountCodes = params.lines.map(line => line.accountCode);
-      const uniqueAccountCodes = [...new Set(accountCodes)];
-      
-      if (uniqueAccountCodes.length > 0) {
-        const existingAccounts = await repo.getManyAccountsByCodes(uniqueAccountCodes);
-        const existingAccountCodes = new Set(existingAccounts.map(account => account.accountCode));
-        
-        const missingAccountCodes = uniqueAccountCodes.filter(code => !existingAccountCodes.has(code));
-        
-        if (missingAccountCodes.length > 0) {
-          const missingCodesText = missingAccountCodes.join(', ');
-          return { 
-            content: [{ 
-              type: 'text', 
-              text: `Cannot record journal entry. The following account codes do not exist: ${missingCodesText}. Please create these accounts first using the account management tools.` 
-            }] 
-          };
-        }
+      const missingAccountCodes = await findMissingAccountCodes(repo, params.lines);
+      if (missingAccountCodes.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Cannot record journal entry. The following account codes do not exist: ${missingAccountCodes.join(', ')}. Please create these accounts first using the account management tools.`
+          }],
+          isError: true,
+        };
       }
 
-      const journalLines = params.lines.map(line => ({
-        accountCode: line.accountCode,
-        debit: line.type === 'debit' ? line.amount : 0,
-        credit: line.type === 'credit' ? line.amount : 0,
-      }));
-
-      const journalEntryRef = await repo.draftJournalEntry({
-        entryTime,
-        description: params.description,
-        lines: journalLines,
-        idempotentKey: params.idempotentKey,
+      // Draft and post atomically so a failed post does not leave a stray draft behind
+      const journalEntryRef = await repo.transaction(async function () {
+        const draftRef = await repo.draftJournalEntry({
+          entryTime,
+          description: params.description,
+          lines: toJournalEntryLines(params.lines),
+          idempotentKey: params.idempotentKey,
+          sourceType: 'LLM Generated',
+          sourceReference: params.sourceReference,
+        });
+        await repo.postJournalEntry(draftRef, entryTime);
+        return draftRef;
       });
 
-      await repo.postJournalEntry(journalEntryRef, entryTime);
-
       return {
         content: [{
           type: 'text',
           text: `Journal entry recorded with ref ${journalEntryRef} for date ${params.date}.`,
         }],
+        structuredContent: { journalEntryRef, created: true },
       };
     }
     catch (error) {
-      return { content: [{ type: 'text', text: `Error creating draft journal entry: ${(error as Error).message}` }] };
+      return { content: [{ type: 'text', text: `Error creating draft journal entry: ${(error as Error).message}` }], isError: true };
     }
   });
 }
@@ -89,46 +177,419 @@ export function defineReverseJournalEntryMCPTool(server: McpServer, repo: Accoun
       date: z.string(),
       description: z.string().optional(),
       idempotentKey: z.string().optional(),
+      sourceReference: sourceReferenceSchema,
+    },
+    outputSchema: {
+      ...journalEntryRefOutputSchema,
+      originalJournalEntryRef: z.number(),
     },
   }, async function (params) {
     try {
       const reversalTime = new Date(params.date).getTime();
 
       if (isNaN(reversalTime)) {
-        return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }] };
+        return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }], isError: true };
       }
 
-      // Check if idempotent key already exists to provide clearer error message
-      if (params.idempotentKey) {
-        const existingJournalRef = await repo.getExistingJournalEntryByIdempotentKey(params.idempotentKey);
-        if (existingJournalRef) {
-          return { content: [{ type: 'text', text: `Reversal idempotency key already used by journal entry ref ${existingJournalRef}. No new reversal created.` }] };
+      const reversalRef = await repo.transaction(async function () {
+        // Check if idempotent key already exists to provide clearer error message
+        if (params.idempotentKey) {
+          const existingJournalRef = await repo.getExistingJournalEntryByIdempotentKey(params.idempotentKey);
+          if (existingJournalRef) {
+            return { existingJournalRef };
+          }
         }
-      }
+        return await repo.reverseJournalEntry(
+          params.journalEntryRef,
+          reversalTime,
+          params.description,
+          params.idempotentKey,
+          { sourceType: 'LLM Generated', sourceReference: params.sourceReference },
+        );
+      });
 
-      const reversalRef = await repo.reverseJournalEntry(
-        params.journalEntryRef,
-        reversalTime,
-        params.description,
-        params.idempotentKey
-      );
+      if (typeof reversalRef === 'object') {
+        return {
+          content: [{ type: 'text', text: `Reversal idempotency key already used by journal entry ref ${reversalRef.existingJournalRef}. No new reversal created.` }],
+          structuredContent: { journalEntryRef: reversalRef.existingJournalRef, created: false, originalJournalEntryRef: params.journalEntryRef },
+        };
+      }
 
       return {
         content: [{
           type: 'text',
           text: `Reversal journal entry recorded with ref ${reversalRef} for original entry ${params.journalEntryRef}.`,
         }],
+        structuredContent: { journalEntryRef: reversalRef, created: true, originalJournalEntryRef: params.journalEntryRef },
       };
     }
     catch (error) {
       const errorMessage = (error as Error).message;
       if (errorMessage.includes('not found') || errorMessage.includes('not posted')) {
-        return { content: [{ type: 'text', text: `Cannot reverse journal entry: ${errorMessage}` }] };
+        return { content: [{ type: 'text', text: `Cannot reverse journal entry: ${errorMessage}` }], isError: true };
       } else if (errorMessage.includes('FOREIGN KEY')) {
-        return { content: [{ type: 'text', text: `Cannot reverse journal entry ${params.journalEntryRef}. One or more account codes from the original entry no longer exist. This may indicate accounts were deleted after the original entry was posted.` }] };
+        return { content: [{ type: 'text', text: `Cannot reverse journal entry ${params.journalEntryRef}. One or more account codes from the original entry no longer exist. This may indicate accounts were deleted after the original entry was posted.` }], isError: true };
       } else {
-        return { content: [{ type: 'text', text: `Error reversing journal entry: ${errorMessage}` }] };
+        return { content: [{ type: 'text', text: `Error reversing journal entry: ${errorMessage}` }], isError: true };
+      }
+    }
+  });
+}
+
+export function defineDraftJournalEntryMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('DraftJournalEntry', {
+    title: 'Draft journal entry',
+    description: 'Create a draft (unposted) journal entry with specified date, description, and lines. Drafts do not affect account balances until posted with PostJournalEntries, so they can be reviewed by a human first.',
+    inputSchema: {
+      date: z.string().describe('date is in ISO format (yyyy-mm-dd HH:mm:ss)'),
+      description: z.string().optional(),
+      lines: journalEntryLinesSchema,
+      idempotentKey: z.string().optional().describe('provide optional idempotentKey to prevent duplicate entries'),
+      sourceReference: sourceReferenceSchema,
+    },
+    outputSchema: journalEntryRefOutputSchema,
+  }, async function (params) {
+    try {
+      const entryTime = new Date(params.date).getTime();
+
+      if (isNaN(entryTime)) {
+        return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }], isError: true };
+      }
+
+      if (params.idempotentKey) {
+        const existingJournalRef = await repo.getExistingJournalEntryByIdempotentKey(params.idempotentKey);
+        if (existingJournalRef) {
+          return {
+            content: [{ type: 'text', text: `Journal entry idempotency key already used by journal entry ref ${existingJournalRef}. No new draft created.` }],
+            structuredContent: { journalEntryRef: existingJournalRef, created: false },
+          };
+        }
       }
+
+      const missingAccountCodes = await findMissingAccountCodes(repo, params.lines);
+      if (missingAccountCodes.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Cannot draft journal entry. The following account codes do not exist: ${missingAccountCodes.join(', ')}. Please create these accounts first using the account management tools.`
+          }],
+          isError: true,
+        };
+      }
+
+      const journalEntryRef = await repo.draftJournalEntry({
+        entryTime,
+        description: params.description,
+        lines: toJournalEntryLines(params.lines),
+        idempotentKey: params.idempotentKey,
+        sourceType: 'LLM Generated',
+        sourceReference: params.sourceReference,
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Journal entry draft created with ref ${journalEntryRef} for date ${params.date}. Use PostJournalEntries to post it once reviewed.`,
+        }],
+        structuredContent: { journalEntryRef, created: true },
+      };
+    }
+    catch (error) {
+      return { content: [{ type: 'text', text: `Error creating draft journal entry: ${(error as Error).message}` }], isError: true };
     }
   });
 }
+
+export function defineUpdateJournalEntryDraftMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('UpdateJournalEntryDraft', {
+    title: 'Update journal entry draft',
+    description: 'Update the date, description, lines, or idempotentKey of a draft (unposted) journal entry. When lines are provided, they replace all existing lines of the draft. Posted journal entries cannot be updated, reverse them instead.',
+    inputSchema: {
+      journalEntryRef: z.number(),
+      date: z.string().optional().describe('date is in ISO format (yyyy-mm-dd HH:mm:ss)'),
+      description: z.string().optional(),
+      lines: journalEntryLinesSchema.optional(),
+      idempotentKey: z.string().optional(),
+    },
+    outputSchema: {
+      journalEntry: journalEntryOutputSchema.describe('The draft after the update.'),
+    },
+  }, async function (params) {
+    try {
+      const entryTime = params.date !== undefined ? new Date(params.date).getTime() : undefined;
+
+      if (entryTime !== undefined && isNaN(entryTime)) {
+        return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }], isError: true };
+      }
+
+      if (params.lines !== undefined) {
+        const missingAccountCodes = await findMissingAccountCodes(repo, params.lines);
+        if (missingAccountCodes.length > 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Cannot update journal entry draft. The following account codes do not exist: ${missingAccountCodes.join(', ')}. Please create these accounts first using the account management tools.`
+            }],
+            isError: true,
+          };
+        }
+      }
+
+      await repo.updateJournalEntry(params.journalEntryRef, {
+        entryTime,
+        description: params.description,
+        lines: params.lines !== undefined ? toJournalEntryLines(params.lines) : undefined,
+        idempotentKey: params.idempotentKey,
+      });
+      const [journalEntry] = await repo.getManyJournalEntriesByRefs([params.journalEntryRef]);
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Journal entry draft ${params.journalEntryRef} has been updated.`,
+        }],
+        structuredContent: { journalEntry: toJournalEntryOutput(journalEntry) },
+      };
+    }
+    catch (error) {
+      return { content: [{ type: 'text', text: `Error updating journal entry draft: ${(error as Error).message}` }], isError: true };
+    }
+  });
+}
+
+export function definePostJournalEntriesMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('PostJournalEntries', {
+    title: 'Post journal entries',
+    description: 'Post multiple draft journal entries so they affect account balances. Each entry must balance and have at least 2 lines. Posted entries can no longer be updated or deleted.',
+    inputSchema: {
+      journalEntryRefs: z.array(z.number()),
+      date: z.string().optional().describe('Post date/time in ISO format (yyyy-mm-dd HH:mm:ss). Default is now.'),
+    },
+    outputSchema: {
+      results: z.array(z.object({
+        journalEntryRef: z.number(),
+        status: z.enum(['posted', 'failed']),
+        message: z.string(),
+      })),
+    },
+  }, async function (params) {
+    if (params.journalEntryRefs.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No journal entry refs provided, nothing to do.' }],
+        structuredContent: { results: [] },
+      };
+    }
+
+    const postTime = params.date !== undefined ? new Date(params.date).getTime() : Date.now();
+    if (isNaN(postTime)) {
+      return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }], isError: true };
+    }
+
+    const results: Array<{ journalEntryRef: number; status: 'posted' | 'failed'; message: string }> = [];
+    for (const journalEntryRef of params.journalEntryRefs) {
+      try {
+        await repo.postJournalEntry(journalEntryRef, postTime);
+        results.push({ journalEntryRef, status: 'posted', message: `journal entry ${journalEntryRef} has been posted.` });
+      }
+      catch (error) {
+        results.push({ journalEntryRef, status: 'failed', message: `error posting journal entry ${journalEntryRef}: ${(error as Error).message}` });
+      }
+    }
+
+    return {
+      content: [{ type: 'text', text: `# Journal Entry Posting Result\n- ${results.map(result => result.message).join('\n- ')}` }],
+      structuredContent: { results },
+    };
+  });
+}
+
+export function defineDeleteJournalEntryDraftsMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('DeleteJournalEntryDrafts', {
+    title: 'Delete journal entry drafts',
+    description: 'Delete multiple draft (unposted) journal entries. Posted journal entries are never deleted, reverse them instead.',
+    inputSchema: {
+      journalEntryRefs: z.array(z.number()),
+    },
+    outputSchema: {
+      results: z.array(z.object({
+        journalEntryRef: z.number(),
+        status: z.enum(['deleted', 'not_found', 'posted']),
+        message: z.string(),
+      })),
+    },
+  }, async function (params) {
+    if (params.journalEntryRefs.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No journal entry refs provided, nothing to do.' }],
+        structuredContent: { results: [] },
+      };
+    }
+
+    try {
+      const entries = await repo.transaction(async function () {
+        const entries = await repo.getManyJournalEntriesByRefs(params.journalEntryRefs);
+        await repo.deleteManyJournalEntryDrafts(entries.filter(entry => entry.postTime === null).map(entry => entry.ref));
+        return entries;
+      });
+
+      const results = params.journalEntryRefs.map(function (journalEntryRef) {
+        const entry = entries.find(e => e.ref === journalEntryRef);
+        if (!entry) {
+          return { journalEntryRef, status: 'not_found' as const, message: `journal entry ${journalEntryRef} does not exist.` };
+        }
+        else if (entry.postTime !== null) {
+          return { journalEntryRef, status: 'posted' as const, message: `journal entry ${journalEntryRef} is posted and cannot be deleted.` };
+        }
+        else {
+          return { journalEntryRef, status: 'deleted' as const, message: `journal entry draft ${journalEntryRef} has been deleted.` };
+        }
+      });
+
+      return {
+        content: [{ type: 'text', text: `# Journal Entry Draft Deletion Result\n- ${results.map(result => result.message).join('\n- ')}` }],
+        structuredContent: { results },
+      };
+    }
+    catch (error) {
+      return { content: [{ type: 'text', text: `Error deleting journal entry drafts: ${(error as Error).message}` }], isError: true };
+    }
+  });
+}
+
+export function defineListJournalEntryDraftsMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('ListJournalEntryDrafts', {
+    title: 'List journal entry drafts',
+    description: 'List draft (unposted) journal entries with their lines, ordered by entry date, for review before posting.',
+    inputSchema: {
+      offset: z.number().optional().default(0),
+      limit: z.number().optional().default(20),
+    },
+    outputSchema: {
+      entries: z.array(journalEntryOutputSchema),
+    },
+  }, async function (params) {
+    const userConfig = await repo.getUserConfig();
+    const drafts = await repo.getManyJournalEntryDrafts(params.offset, params.limit);
+
+    if (drafts.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No journal entry drafts found.' }],
+        structuredContent: { entries: [] },
+      };
+    }
+
+    const renderedDrafts = drafts.map(draft => renderJournalEntry(draft, userConfig));
+
+    return {
+      content: [{ type: 'text', text: `# Journal Entry Drafts\n\n${renderedDrafts.join('\n\n')}` }],
+      structuredContent: { entries: drafts.map(toJournalEntryOutput) },
+    };
+  });
+}
+
+export function defineSearchJournalEntriesMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('SearchJournalEntries', {
+    title: 'Search journal entries',
+    description: 'Search journal entries with their lines, newest first. All provided filters must match. Amount is the total debit of the entry.',
+    inputSchema: {
+      fromDate: z.string().optional().describe('Entries dated on or after this date/time. Format is ISO (yyyy-mm-dd HH:mm:ss).'),
+      toDate: z.string().optional().describe('Entries dated before this date/time. Format is ISO (yyyy-mm-dd HH:mm:ss).'),
+      accountCodes: z.array(z.number()).optional().describe('Entries having at least one line on any of these accounts.'),
+      minAmount: z.number().optional(),
+      maxAmount: z.number().optional(),
+      noteContains: z.string().optional().describe('Case-insensitive text to find in the entry description.'),
+      referenceContains: z.string().optional().describe('Case-insensitive text to find in the line references, e.g. an invoice number.'),
+      sourceTypes: z.array(z.enum(['Manual', 'LLM Generated', 'System Generated'])).optional().describe('Provenance of the entry. Entries made through this MCP server are "LLM Generated".'),
+      sourceReference: z.string().optional().describe('Exact provenance reference, e.g. a conversation ID or source document ID.'),
+      status: z.enum(['posted', 'draft', 'reversed']).optional(),
+      idempotentKey: z.string().optional(),
+      offset: z.number().optional().default(0),
+      limit: z.number().optional().default(20),
+    },
+    outputSchema: {
+      entries: z.array(journalEntryOutputSchema),
+      total: z.number().describe('Number of matching entries across all pages.'),
+      offset: z.number(),
+      limit: z.number(),
+    },
+  }, async function (params) {
+    const beginTime = params.fromDate !== undefined ? new Date(params.fromDate).getTime() : undefined;
+    const endTime = params.toDate !== undefined ? new Date(params.toDate).getTime() : undefined;
+    if ((beginTime !== undefined && isNaN(beginTime)) || (endTime !== undefined && isNaN(endTime))) {
+      return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }], isError: true };
+    }
+
+    const userConfig = await repo.getUserConfig();
+    const result = await repo.searchJournalEntries({
+      beginTime,
+      endTime,
+      accountCodes: params.accountCodes,
+      minAmount: params.minAmount,
+      maxAmount: params.maxAmount,
+      noteContains: params.noteContains,
+      referenceContains: params.referenceContains,
+      sourceTypes: params.sourceTypes,
+      sourceReference: params.sourceReference,
+      status: params.status,
+      idempotentKey: params.idempotentKey,
+    }, params.offset, params.limit);
+
+    if (result.entries.length === 0) {
+      return {
+        content: [{ type: 'text', text: result.total === 0 ? 'No journal entries found.' : `No journal entries found at offset ${params.offset}. Total matching entries: ${result.total}.` }],
+        structuredContent: { entries: [], total: result.total, offset: params.offset, limit: params.limit },
+      };
+    }
+
+    const renderedEntries = result.entries.map(entry => renderJournalEntry(entry, userConfig));
+    const pageText = `Showing ${params.offset + 1}-${params.offset + result.entries.length} of ${result.total} matching entries.`;
+
+    return {
+      content: [{ type: 'text', text: `# Journal Entries\n\n${pageText}\n\n${renderedEntries.join('\n\n')}` }],
+      structuredContent: { entries: result.entries.map(toJournalEntryOutput), total: result.total, offset: params.offset, limit: params.limit },
+    };
+  });
+}
+
+export function defineImportOpeningBalancesMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('ImportOpeningBalances', {
+    title: 'Import opening balances',
+    description: 'Import the balances carried over from previous books as one posted, system generated opening journal entry. The difference between debit and credit balances is posted to the opening balance equity account. Opening balances can only be imported once.',
+    inputSchema: {
+      asOfDate: z.string().describe('Date of the opening balances in ISO format (yyyy-mm-dd HH:mm:ss), usually the day before the first transaction recorded here.'),
+      balances: z.array(z.object({
+        accountCode: z.number(),
+        balance: z.number().describe('Balance on the normal balance side of the account. Use a negative number for a balance on the opposite side.'),
+      })).min(1),
+      openingBalanceEquityAccountCode: z.number().describe('Equity account tagged "Balance Sheet - Equity" that receives the difference, e.g. "Opening Balance Equity".'),
+    },
+    outputSchema: {
+      journalEntryRef: z.number(),
+      entry: journalEntryOutputSchema,
+    },
+  }, async function (params) {
+    const asOfTime = new Date(params.asOfDate).getTime();
+    if (isNaN(asOfTime)) {
+      return { content: [{ type: 'text', text: 'Invalid date format. Please use ISO format (yyyy-mm-dd HH:mm:ss).' }], isError: true };
+    }
+
+    let journalEntryRef: number;
+    try {
+      journalEntryRef = await repo.importOpeningBalances({
+        asOfTime,
+        balances: params.balances.map(line => ({ accountCode: line.accountCode, balance: line.balance })),
+        openingBalanceEquityAccountCode: params.openingBalanceEquityAccountCode,
+      });
+    }
+    catch (error) {
+      return { content: [{ type: 'text', text: `Cannot import opening balances: ${(error as Error).message}` }], isError: true };
+    }
+
+    const userConfig = await repo.getUserConfig();
+    const [entry] = await repo.getManyJournalEntriesByRefs([journalEntryRef]);
+    return {
+      content: [{ type: 'text', text: `Opening balances imported and posted.\n\n${renderJournalEntry(entry, userConfig)}` }],
+      structuredContent: { journalEntryRef, entry: toJournalEntryOutput(entry) },
+    };
+  });
+}
@@ -1,4 +1,4 @@
-import { ok } from 'node:assert/strict';
+import { ok, strictEqual } from 'node:assert/strict';
 import { afterEach, beforeEach, describe, it, suite } from 'node:test';
 
 import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
@@ -281,4 +281,365 @@ suite('ReportingMCPTools', function () {
       }
     });
   });
+
+  describe('Tool: ViewIncomeStatement', function () {
+    beforeEach(async function () {
+      await client.callTool({
+        name: 'ManageManyAccounts',
+        arguments: {
+          accounts: [
+            { accountCode: 400, name: 'Cost of Goods Sold', normalBalance: 'debit' },
+            { accountCode: 500, name: 'Rent Expense', normalBalance: 'debit' },
+          ],
+        },
+      });
+      await client.callTool({
+        name: 'SetManyAccountTags',
+        arguments: {
+          accountTags: [
+            { accountCode: 200, tag: 'Income Statement - Revenue' },
+            { accountCode: 400, tag: 'Income Statement - COGS' },
+            { accountCode: 500, tag: 'Income Statement - Expense' },
+          ],
+        },
+      });
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-02-01',
+          description: 'Sales',
+          lines: [
+            { accountCode: 100, amount: 500, type: 'debit' },
+            { accountCode: 200, amount: 500, type: 'credit' },
+          ],
+        },
+      });
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-02-02',
+          description: 'Cost of sales and rent',
+          lines: [
+            { accountCode: 400, amount: 200, type: 'debit' },
+            { accountCode: 500, amount: 100, type: 'debit' },
+            { accountCode: 100, amount: 300, type: 'credit' },
+          ],
+        },
+      });
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-03-01',
+          description: 'Sales outside of the period',
+          lines: [
+            { accountCode: 100, amount: 50, type: 'debit' },
+            { accountCode: 200, amount: 50, type: 'credit' },
+          ],
+        },
+      });
+    });
+
+    it('shows revenue, gross profit and net income for a date range', async function () {
+      const res = await client.callTool({
+        name: 'ViewIncomeStatement',
+        arguments: { fromDate: '2024-02-01', toDate: '2024-03-01' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Income Statement'), 'should have a title');
+      ok(text.includes('Rent Expense'), 'should list expense accounts');
+      ok(/TOTAL REVENUE\s*\|[^\n]*\$500\.00/.test(text), 'revenue should exclude entries outside of the period');
+      ok(/GROSS PROFIT\s*\|[^\n]*\$300\.00/.test(text), 'gross profit should be revenue minus cost of goods sold');
+      ok(/NET INCOME\s*\|[^\n]*\$200\.00/.test(text), 'net income should subtract operating expenses');
+    });
+
+    it('requires either a fiscal year or a date range', async function () {
+      const res = await client.callTool({
+        name: 'ViewIncomeStatement',
+        arguments: { fromDate: '2024-02-01' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Please provide either fiscalYearName'), 'should explain the required inputs');
+    });
+
+    it('reports unknown fiscal years', async function () {
+      const res = await client.callTool({
+        name: 'ViewIncomeStatement',
+        arguments: { fiscalYearName: 'FY1999' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Fiscal year FY1999 does not exist'), 'should report the missing fiscal year');
+    });
+
+    it('filters the statement by a custom tag', async function () {
+      await client.callTool({
+        name: 'SetManyAccountTags',
+        arguments: { accountTags: [{ accountCode: 500, tag: 'Custom:Store Operations' }] },
+      });
+      const res = await client.callTool({
+        name: 'ViewIncomeStatement',
+        arguments: { fromDate: '2024-02-01', toDate: '2024-03-01', accountTag: 'Custom:Store Operations' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('accounts tagged "Custom:Store Operations"'), 'should mention the tag filter');
+      const { statement } = res.structuredContent as { statement: { lines: Array<{ accountCode: number }>; netIncome: number } };
+      strictEqual(statement.lines.length, 1);
+      strictEqual(statement.lines[0].accountCode, 500);
+      strictEqual(statement.netIncome, -100);
+    });
+  });
+
+  describe('Tool: GenerateCashFlowStatement', function () {
+    beforeEach(async function () {
+      await client.callTool({
+        name: 'SetManyAccountTags',
+        arguments: {
+          accountTags: [
+            { accountCode: 100, tag: 'Cash Flow - Cash Equivalents' },
+            { accountCode: 200, tag: 'Cash Flow - Revenue' },
+          ],
+        },
+      });
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-02-01',
+          description: 'Cash sales',
+          lines: [
+            { accountCode: 100, amount: 500, type: 'debit' },
+            { accountCode: 200, amount: 500, type: 'credit' },
+          ],
+        },
+      });
+    });
+
+    it('generates a statement that reconciles to the change in cash', async function () {
+      const res = await client.callTool({
+        name: 'GenerateCashFlowStatement',
+        arguments: { fromDate: '2024-02-01', toDate: '2024-03-01', name: 'February' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Cash Flow Statement "February"'), 'should include the report name');
+      ok(/NET CASH FROM OPERATING\s*\|[^\n]*\$500\.00/.test(text), 'operating cash should come from net income');
+      ok(/CASH AT BEGINNING OF PERIOD\s*\|[^\n]*\$1,000\.00/.test(text), 'beginning cash should include the initial entry');
+      ok(/CASH AT END OF PERIOD\s*\|[^\n]*\$1,500\.00/.test(text), 'ending cash should include the period movement');
+      ok(text.includes('The statement reconciles'), 'should confirm reconciliation');
+    });
+
+    it('warns about accounts without cash flow tags', async function () {
+      const res = await client.callTool({
+        name: 'GenerateCashFlowStatement',
+        arguments: { fromDate: '2024-01-01', toDate: '2024-03-01' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('does not reconcile'), 'should warn about the reconciliation difference');
+      ok(text.includes('300 Equity'), 'should list the unclassified equity account');
+    });
+  });
+
+  describe('Tool: ViewTrialBalance and ViewBalanceSheet', function () {
+    beforeEach(async function () {
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-04-15',
+          description: 'Additional capital',
+          lines: [
+            { accountCode: 100, amount: 250, type: 'debit' },
+            { accountCode: 300, amount: 250, type: 'credit' },
+          ],
+        },
+      });
+    });
+
+    it('computes the trial balance as of a date without a snapshot', async function () {
+      const res = await client.callTool({
+        name: 'ViewTrialBalance',
+        arguments: { asOfDate: '2024-03-31' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Trial Balance as of 2024-03-31'), 'should show the as-of date');
+      ok(/Cash\s*\|[^\n]*\$1,000\.00/.test(text), 'should exclude entries after the as-of date');
+
+      const { report } = res.structuredContent as { report: { reportType: string; lines: Array<{ accountCode: number; debit: number; credit: number }> } };
+      strictEqual(report.reportType, 'Ledger');
+      const cashLine = report.lines.find(line => line.accountCode === 100);
+      strictEqual(cashLine?.debit, 1000, 'should return the raw amount');
+    });
+
+    it('computes the balance sheet as of a date without a snapshot', async function () {
+      const res = await client.callTool({
+        name: 'ViewBalanceSheet',
+        arguments: { asOfDate: '2024-04-30' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Balance Sheet as of 2024-04-30'), 'should show the as-of date');
+      ok(/TOTAL ASSETS\s*\|[^\n]*\$1,250\.00/.test(text), 'should include entries up to the as-of date');
+    });
+
+    it('includes entries dated later on a date-only as-of date', async function () {
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-04-30T15:00:00Z',
+          description: 'Afternoon capital',
+          lines: [
+            { accountCode: 100, amount: 50, type: 'debit' },
+            { accountCode: 300, amount: 50, type: 'credit' },
+          ],
+        },
+      });
+
+      const trialBalanceRes = await client.callTool({
+        name: 'ViewTrialBalance',
+        arguments: { asOfDate: '2024-04-30' },
+      });
+      const { report: trialBalance } = trialBalanceRes.structuredContent as { report: { reportTime: string; lines: Array<{ accountCode: number; debit: number }> } };
+      strictEqual(trialBalance.reportTime, '2024-04-30T23:59:59.999Z', 'should report as of the end of the day');
+      strictEqual(trialBalance.lines.find(line => line.accountCode === 100)?.debit, 1300);
+
+      const balanceSheetRes = await client.callTool({
+        name: 'ViewBalanceSheet',
+        arguments: { asOfDate: '2024-04-30' },
+      });
+      const { report: balanceSheet } = balanceSheetRes.structuredContent as { report: { lines: Array<{ accountCode: number; amount: number }> } };
+      strictEqual(balanceSheet.lines.find(line => line.accountCode === 100)?.amount, 1300);
+
+      const timedRes = await client.callTool({
+        name: 'ViewBalanceSheet',
+        arguments: { asOfDate: '2024-04-30T14:59:59Z' },
+      });
+      const { report: timedBalanceSheet } = timedRes.structuredContent as { report: { lines: Array<{ accountCode: number; amount: number }> } };
+      strictEqual(timedBalanceSheet.lines.find(line => line.accountCode === 100)?.amount, 1250, 'should keep an explicit time as is');
+    });
+
+    it('shows control account subtotals and collapses to a depth', async function () {
+      await client.callTool({
+        name: 'ManageManyAccounts',
+        arguments: {
+          accounts: [
+            { accountCode: 10, name: 'Current Assets', normalBalance: 'debit' },
+            { accountCode: 100, name: 'Cash', normalBalance: 'debit', controlAccountCode: 10 },
+          ],
+        },
+      });
+
+      const balanceSheetRes = await client.callTool({
+        name: 'ViewBalanceSheet',
+        arguments: { asOfDate: '2024-04-30' },
+      });
+      const balanceSheetText = (balanceSheetRes.content[0] as { text: string }).text;
+      ok(/Current Assets \(subtotal\)\s*\|\s*\$1,250\.00/.test(balanceSheetText), 'should show the control account subtotal');
+      ok(/TOTAL ASSETS\s*\|[^\n]*\$1,250\.00/.test(balanceSheetText), 'should not count the subtotal twice');
+
+      const trialBalanceRes = await client.callTool({
+        name: 'ViewTrialBalance',
+        arguments: { asOfDate: '2024-04-30' },
+      });
+      const trialBalanceText = (trialBalanceRes.content[0] as { text: string }).text;
+      ok(/TOTAL\s*\|[^\n]*\$1,250\.00\s*\|\s*\$1,250\.00/.test(trialBalanceText), 'should total the posting accounts only');
+
+      const summaryRes = await client.callTool({
+        name: 'ViewTrialBalance',
+        arguments: { asOfDate: '2024-04-30', depth: 1 },
+      });
+      const { report } = summaryRes.structuredContent as { report: { lines: Array<{ accountCode: number; debit: number; isSubtotal: boolean }> } };
+      ok(!report.lines.some(line => line.accountCode === 100), 'should fold sub-accounts into their control account');
+      const currentAssetsLine = report.lines.find(line => line.accountCode === 10);
+      strictEqual(currentAssetsLine?.debit, 1250);
+      strictEqual(currentAssetsLine?.isSubtotal, false);
+    });
+
+    it('rejects invalid dates', async function () {
+      const res = await client.callTool({
+        name: 'ViewBalanceSheet',
+        arguments: { asOfDate: 'not a date' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Invalid asOfDate format'), 'should report invalid date');
+    });
+
+    it('rejects unknown tag filters with suggestions', async function () {
+      const res = await client.callTool({
+        name: 'ViewTrialBalance',
+        arguments: { accountTag: 'Balance Sheet - Equty' },
+      });
+      strictEqual(res.isError, true);
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Did you mean "Balance Sheet - Equity"'), 'should suggest the closest tag');
+    });
+  });
+
+  describe('Tool: ViewAccountLedger', function () {
+    it('shows postings with a running balance', async function () {
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-02-01',
+          description: 'Owner withdrawal',
+          lines: [
+            { accountCode: 300, amount: 400, type: 'debit' },
+            { accountCode: 100, amount: 400, type: 'credit' },
+          ],
+        },
+      });
+
+      const res = await client.callTool({
+        name: 'ViewAccountLedger',
+        arguments: { accountCode: 100 },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Account Ledger 100 Cash (debit normal balance'), 'should show the account header');
+      ok(text.includes('Initial setup entry'), 'should show the entry note');
+      ok(/Owner withdrawal[^\n]*\$400\.00\s*\|\s*\$600\.00/.test(text), 'should show the credit and running balance');
+      ok(/CLOSING BALANCE[^\n]*\$600\.00/.test(text), 'should show the closing balance');
+    });
+
+    it('filters postings by a custom tag', async function () {
+      await client.callTool({
+        name: 'ManageManyAccounts',
+        arguments: {
+          accounts: [
+            { accountCode: 150, name: 'Branch Cash', normalBalance: 'debit' },
+            { accountCode: 110, name: 'Cash Jakarta', normalBalance: 'debit', controlAccountCode: 150 },
+            { accountCode: 120, name: 'Cash Bandung', normalBalance: 'debit', controlAccountCode: 150 },
+          ],
+        },
+      });
+      await client.callTool({
+        name: 'SetManyAccountTags',
+        arguments: { accountTags: [{ accountCode: 110, tag: 'Custom:Branch Jakarta' }] },
+      });
+      await client.callTool({
+        name: 'RecordJournalEntry',
+        arguments: {
+          date: '2024-02-01',
+          description: 'Branch float',
+          lines: [
+            { accountCode: 110, amount: 150, type: 'debit' },
+            { accountCode: 120, amount: 250, type: 'debit' },
+            { accountCode: 300, amount: 400, type: 'credit' },
+          ],
+        },
+      });
+
+      const res = await client.callTool({
+        name: 'ViewAccountLedger',
+        arguments: { accountCode: 150, accountTag: 'Custom:Branch Jakarta' },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Only accounts tagged "Custom:Branch Jakarta"'), 'should mention the tag filter');
+      const { ledger } = res.structuredContent as { ledger: { accountCodes: number[]; closingBalance: number } };
+      strictEqual(ledger.accountCodes.join(','), '110');
+      strictEqual(ledger.closingBalance, 150);
+    });
+
+    it('reports unknown accounts', async function () {
+      const res = await client.callTool({
+        name: 'ViewAccountLedger',
+        arguments: { accountCode: 999 },
+      });
+      const text = (res.content[0] as { text: string }).text;
+      ok(text.includes('Account 999 does not exist'), 'should report the missing account');
+    });
+  });
 });
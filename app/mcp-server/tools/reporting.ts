@@ -1,8 +1,156 @@
-import { AccountingRepository } from '@app/data/accounting-repository.js';
+import { assertValidAccountTag } from '@app/data/account-tags.js';
+import {
+  AccountingRepository,
+  type AccountLedger,
+  type BalanceSheetReport,
+  type IncomeStatement,
+  type TrialBalanceReport,
+  type UserConfig,
+} from '@app/data/accounting-repository.js';
 import { formatCurrency, renderAsciiTable } from '@app/formatter.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import z from 'zod/v3';
 
+const accountHierarchyLineShape = {
+  depth: z.number().optional().describe('Level in the control account hierarchy, 0 for top-level accounts. Not set for stored snapshots.'),
+  isSubtotal: z.boolean().optional().describe('True when the line rolls up the sub-account lines shown below it. Subtotals are not added to totals.'),
+};
+
+const accountHierarchyDepthSchema = z.number().int().min(1).optional().describe('Levels of the account hierarchy to show, e.g. 1 for top-level accounts only as a summary for management reports. Deeper accounts fold into the subtotal of their control account. Default shows all levels.');
+
+const trialBalanceOutputSchema = z.object({
+  reportTime: z.string().describe('ISO date/time'),
+  reportType: z.string(),
+  lines: z.array(z.object({
+    accountCode: z.number(),
+    accountName: z.string(),
+    normalBalance: z.enum(['debit', 'credit']),
+    debit: z.number(),
+    credit: z.number(),
+    ...accountHierarchyLineShape,
+  })),
+});
+
+const balanceSheetOutputSchema = z.object({
+  reportTime: z.string().describe('ISO date/time'),
+  reportType: z.string(),
+  lines: z.array(z.object({
+    classification: z.string(),
+    category: z.string(),
+    accountCode: z.number(),
+    accountName: z.string(),
+    amount: z.number(),
+    ...accountHierarchyLineShape,
+  })),
+});
+
+const accountTagFilterSchema = z.string().optional().describe('Only include accounts with this tag, e.g. a custom tag like "Custom:Branch Jakarta". See account-tags://reference.');
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * As-of time for a report date/time, NaN when invalid. A date without a time means the end of that day,
+ * so entries dated later that day are included.
+ */
+export function parseAsOfDate(asOfDate: string) {
+  const time = new Date(asOfDate).getTime();
+  return DATE_ONLY_PATTERN.test(asOfDate) ? time + DAY_MS - 1 : time;
+}
+
+/** Error message for an unknown tag filter, null when the filter is absent or valid. */
+function getAccountTagFilterError(accountTag: string | undefined) {
+  if (accountTag === undefined) {
+    return null;
+  }
+  try {
+    assertValidAccountTag(accountTag);
+    return null;
+  }
+  catch (error) {
+    return (error as Error).message;
+  }
+}
+
+function describeAccountTagFilter(accountTag: string | undefined) {
+  return accountTag !== undefined ? `, accounts tagged "${accountTag}"` : '';
+}
+
+export function toTrialBalanceOutput(report: TrialBalanceReport): z.infer<typeof trialBalanceOutputSchema> {
+  return {
+    reportTime: new Date(report.reportTime).toISOString(),
+    reportType: report.reportType,
+    lines: report.lines.map(line => ({ ...line })),
+  };
+}
+
+function toBalanceSheetOutput(report: BalanceSheetReport): z.infer<typeof balanceSheetOutputSchema> {
+  return {
+    reportTime: new Date(report.reportTime).toISOString(),
+    reportType: report.reportType,
+    lines: report.lines.map(line => ({ ...line })),
+  };
+}
+
+/** Indent sub-accounts under their control account and mark subtotals. */
+function renderHierarchyAccountName(line: { accountName: string; depth?: number; isSubtotal?: boolean }) {
+  return `${'  '.repeat(line.depth ?? 0)}${line.accountName}${line.isSubtotal ? ' (subtotal)' : ''}`;
+}
+
+function renderTrialBalanceTable(report: TrialBalanceReport, userConfig: UserConfig) {
+  const headers = ['Account Code', 'Account Name', 'Normal Balance', 'Debit', 'Credit'];
+  const rows = report.lines.map(line => [
+    line.accountCode.toString(),
+    renderHierarchyAccountName(line),
+    line.normalBalance,
+    formatCurrency(line.debit, userConfig),
+    formatCurrency(line.credit, userConfig),
+  ]);
+  if (report.lines.some(line => line.isSubtotal)) {
+    const postingLines = report.lines.filter(line => !line.isSubtotal);
+    rows.push([
+      'TOTAL',
+      '',
+      '',
+      formatCurrency(postingLines.reduce((sum, line) => sum + line.debit, 0), userConfig),
+      formatCurrency(postingLines.reduce((sum, line) => sum + line.credit, 0), userConfig),
+    ]);
+  }
+  return renderAsciiTable(headers, rows);
+}
+
+export function renderBalanceSheetTable(report: BalanceSheetReport, userConfig: UserConfig) {
+  const headers = ['Classification', 'Category', 'Account Code', 'Account Name', 'Amount'];
+  const rows = report.lines.map(line => [
+    line.classification,
+    line.category,
+    line.accountCode.toString(),
+    renderHierarchyAccountName(line),
+    formatCurrency(line.amount, userConfig),
+  ]);
+
+  // Calculate classification totals, subtotal lines are already covered by their sub-account lines
+  const classificationTotals = new Map<string, number>();
+  for (const line of report.lines.filter(line => !line.isSubtotal)) {
+    const current = classificationTotals.get(line.classification) || 0;
+    classificationTotals.set(line.classification, current + line.amount);
+  }
+
+  // Add total rows for each classification
+  const totalRows: string[][] = [];
+  for (const [classification, total] of classificationTotals) {
+    totalRows.push([
+      `TOTAL ${classification.toUpperCase()}`,
+      '',
+      '',
+      '',
+      formatCurrency(total, userConfig),
+    ]);
+  }
+
+  return renderAsciiTable(headers, [...rows, ...totalRows]);
+}
+
 export function defineGetLatestTrialBalanceMCPTool(server: McpServer, repo: AccountingRepository) {
   server.registerTool('ViewLatestTrialBalance', {
     title: 'Get latest trial balance report',
@@ -10,36 +158,34 @@ export function defineGetLatestTrialBalanceMCPTool(server: McpServer, repo: Acco
     inputSchema: {
       fromDate: z.string().optional(),
     },
+    outputSchema: {
+      report: trialBalanceOutputSchema.nullable().describe('Null when no report has been generated.'),
+    },
   }, async function (params) {
     const userConfig = await repo.getUserConfig();
     const report = await repo.viewLatestTrialBalance(params.fromDate);
     if (!report) {
       return {
         content: [{ type: 'text', text: 'No trial balance reports found. Please create accounts first using ManageManyAccounts, then generate a financial report using GenerateFinancialReport.' }],
+        structuredContent: { report: null },
       };
     }
 
     if (report.lines.length === 0) {
       return {
         content: [{ type: 'text', text: 'Trial balance report exists but no accounts were found. Please create accounts first using ManageManyAccounts to populate the trial balance.' }],
+        structuredContent: { report: toTrialBalanceOutput(report) },
       };
     }
 
-    const headers = ['Account Code', 'Account Name', 'Normal Balance', 'Debit', 'Credit'];
-    const rows = report.lines.map(line => [
-      line.accountCode.toString(),
-      line.accountName,
-      line.normalBalance,
-      formatCurrency(line.debit, userConfig),
-      formatCurrency(line.credit, userConfig),
-    ]);
-    const table = renderAsciiTable(headers, rows);
+    const table = renderTrialBalanceTable(report, userConfig);
 
     return {
       content: [{
         type: 'text',
         text: `Trial Balance Report (${new Date(report.reportTime).toISOString()})\n${table}`,
       }],
+      structuredContent: { report: toTrialBalanceOutput(report) },
     };
   });
 }
@@ -51,11 +197,15 @@ export function defineGetLatestBalanceSheetMCPTool(server: McpServer, repo: Acco
     inputSchema: {
       fromDate: z.string().optional().describe('If provided, fetch the latest balance sheet report as of this date/time. Format is ISO (yyyy-mm-dd HH:mm).'),
     },
+    outputSchema: {
+      report: balanceSheetOutputSchema.nullable().describe('Null when no report has been generated.'),
+    },
   }, async function (params) {
     const formDate = params.fromDate ? new Date(params.fromDate) : null;
     if (params.fromDate && (isNaN(formDate!.getTime()))) {
       return {
         content: [{ type: 'text', text: 'Invalid fromDate format. Please use ISO format (yyyy-mm-dd HH:mm).' }],
+        isError: true,
       };
     }
     const userConfig = await repo.getUserConfig();
@@ -63,51 +213,241 @@ export function defineGetLatestBalanceSheetMCPTool(server: McpServer, repo: Acco
     if (!report) {
       return {
         content: [{ type: 'text', text: 'No balance sheet reports found. Please create accounts first using ManageManyAccounts, tag them for balance sheet reporting using SetManyAccountTags, then generate a financial report using GenerateFinancialReport.' }],
+        structuredContent: { report: null },
       };
     }
 
     if (report.lines.length === 0) {
       return {
         content: [{ type: 'text', text: 'Balance sheet report exists but no balance sheet accounts were found. Please create accounts and tag them for balance sheet reporting using SetManyAccountTags (e.g., "Balance Sheet - Current Asset", "Balance Sheet - Equity").' }],
+        structuredContent: { report: toBalanceSheetOutput(report) },
       };
     }
 
-    const headers = ['Classification', 'Category', 'Account Code', 'Account Name', 'Amount'];
-    const rows = report.lines.map(line => [
-      line.classification,
-      line.category,
-      line.accountCode.toString(),
-      line.accountName,
-      formatCurrency(line.amount, userConfig),
-    ]);
+    const table = renderBalanceSheetTable(report, userConfig);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Balance Sheet Report (${new Date(report.reportTime).toISOString()})\n${table}`,
+      }],
+      structuredContent: { report: toBalanceSheetOutput(report) },
+    };
+  });
+}
 
-    // Calculate classification totals
-    const classificationTotals = new Map<string, number>();
-    for (const line of report.lines) {
-      const current = classificationTotals.get(line.classification) || 0;
-      classificationTotals.set(line.classification, current + line.amount);
+export function defineViewTrialBalanceMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('ViewTrialBalance', {
+    title: 'View trial balance as of a date',
+    description: 'Compute the trial balance as of any date/time from posted journal entries. Control accounts show the subtotal of their descendants. Does not require a GenerateFinancialReport snapshot; stored snapshots remain available through ViewLatestTrialBalance.',
+    inputSchema: {
+      asOfDate: z.string().optional().describe('Include journal entries dated up to and including this date/time. Format is ISO (yyyy-mm-dd HH:mm); a date alone includes the whole day. Default is now.'),
+      accountTag: accountTagFilterSchema,
+      depth: accountHierarchyDepthSchema,
+    },
+    outputSchema: {
+      report: trialBalanceOutputSchema,
+    },
+  }, async function (params) {
+    const asOfTime = params.asOfDate !== undefined ? parseAsOfDate(params.asOfDate) : Date.now();
+    if (isNaN(asOfTime)) {
+      return {
+        content: [{ type: 'text', text: 'Invalid asOfDate format. Please use ISO format (yyyy-mm-dd HH:mm).' }],
+        isError: true,
+      };
+    }
+    const accountTagError = getAccountTagFilterError(params.accountTag);
+    if (accountTagError !== null) {
+      return {
+        content: [{ type: 'text', text: accountTagError }],
+        isError: true,
+      };
+    }
+    const userConfig = await repo.getUserConfig();
+    const report = await repo.getTrialBalanceAsOf(asOfTime, params.accountTag, params.depth);
+    if (report.lines.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: params.accountTag !== undefined
+            ? `No active accounts are tagged "${params.accountTag}". Tag them using SetManyAccountTags.`
+            : 'No accounts were found. Please create accounts first using ManageManyAccounts.',
+        }],
+        structuredContent: { report: toTrialBalanceOutput(report) },
+      };
     }
 
-    // Add total rows for each classification
-    const totalRows: string[][] = [];
-    for (const [classification, total] of classificationTotals) {
-      totalRows.push([
-        `TOTAL ${classification.toUpperCase()}`,
-        '',
-        '',
-        '',
-        formatCurrency(total, userConfig),
-      ]);
+    const table = renderTrialBalanceTable(report, userConfig);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Trial Balance as of ${new Date(report.reportTime).toISOString()}${describeAccountTagFilter(params.accountTag)}\n${table}`,
+      }],
+      structuredContent: { report: toTrialBalanceOutput(report) },
+    };
+  });
+}
+
+export function defineViewBalanceSheetMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('ViewBalanceSheet', {
+    title: 'View balance sheet as of a date',
+    description: 'Compute the balance sheet as of any date/time from posted journal entries. Control accounts show the subtotal of their descendants. Does not require a GenerateFinancialReport snapshot; stored snapshots remain available through ViewLatestBalanceSheet.',
+    inputSchema: {
+      asOfDate: z.string().optional().describe('Include journal entries dated up to and including this date/time. Format is ISO (yyyy-mm-dd HH:mm); a date alone includes the whole day. Default is now.'),
+      accountTag: accountTagFilterSchema,
+      depth: accountHierarchyDepthSchema,
+    },
+    outputSchema: {
+      report: balanceSheetOutputSchema,
+    },
+  }, async function (params) {
+    const asOfTime = params.asOfDate !== undefined ? parseAsOfDate(params.asOfDate) : Date.now();
+    if (isNaN(asOfTime)) {
+      return {
+        content: [{ type: 'text', text: 'Invalid asOfDate format. Please use ISO format (yyyy-mm-dd HH:mm).' }],
+        isError: true,
+      };
+    }
+    const accountTagError = getAccountTagFilterError(params.accountTag);
+    if (accountTagError !== null) {
+      return {
+        content: [{ type: 'text', text: accountTagError }],
+        isError: true,
+      };
+    }
+    const userConfig = await repo.getUserConfig();
+    const report = await repo.getBalanceSheetAsOf(asOfTime, params.accountTag, params.depth);
+    if (report.lines.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No balance sheet accounts were found. Please create accounts and tag them for balance sheet reporting using SetManyAccountTags (e.g., "Balance Sheet - Current Asset", "Balance Sheet - Equity").' }],
+        structuredContent: { report: toBalanceSheetOutput(report) },
+      };
     }
 
-    const allRows = [...rows, ...totalRows];
-    const table = renderAsciiTable(headers, allRows);
+    const table = renderBalanceSheetTable(report, userConfig);
 
     return {
       content: [{
         type: 'text',
-        text: `Balance Sheet Report (${new Date(report.reportTime).toISOString()})\n${table}`,
+        text: `Balance Sheet as of ${new Date(report.reportTime).toISOString()}${describeAccountTagFilter(params.accountTag)}\n${table}`,
       }],
+      structuredContent: { report: toBalanceSheetOutput(report) },
+    };
+  });
+}
+
+export function defineViewAccountLedgerMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('ViewAccountLedger', {
+    title: 'View account ledger',
+    description: 'List posted journal lines of an account with opening balance, running balance and closing balance. A control account rolls up the postings of all of its descendants.',
+    inputSchema: {
+      accountCode: z.number().describe('Account code to view. Control accounts include all descendant accounts.'),
+      fromDate: z.string().optional().describe('Start of the period (inclusive). Format is ISO (yyyy-mm-dd HH:mm). Earlier postings form the opening balance.'),
+      toDate: z.string().optional().describe('End of the period (exclusive). Format is ISO (yyyy-mm-dd HH:mm).'),
+      sourceTypes: z.array(z.enum(['Manual', 'LLM Generated', 'System Generated'])).optional().describe('Only include entries of these sources, e.g. ["LLM Generated"] to audit entries made through this MCP server. Balances then only cover the selected sources.'),
+      accountTag: z.string().optional().describe('Only include the account and descendants with this tag, e.g. a custom tag like "Custom:Branch Jakarta". Balances then only cover the tagged accounts.'),
+    },
+    outputSchema: {
+      ledger: z.object({
+        accountCode: z.number(),
+        accountName: z.string(),
+        normalBalance: z.enum(['debit', 'credit']),
+        accountCodes: z.array(z.number()).describe('The account and all of its descendants.'),
+        sourceTypes: z.array(z.string()).nullable(),
+        accountTag: z.string().nullable(),
+        beginTime: z.string().nullable().describe('ISO date/time'),
+        endTime: z.string().nullable().describe('ISO date/time'),
+        openingBalance: z.number(),
+        lines: z.array(z.object({
+          ref: z.number(),
+          entryTime: z.string().describe('ISO date/time'),
+          note: z.string().nullable(),
+          lineNumber: z.number(),
+          accountCode: z.number(),
+          accountName: z.string(),
+          debit: z.number(),
+          credit: z.number(),
+          description: z.string().nullable(),
+          reference: z.string().nullable(),
+          runningBalance: z.number(),
+        })),
+        totalDebit: z.number(),
+        totalCredit: z.number(),
+        closingBalance: z.number(),
+      }),
+    },
+  }, async function (params) {
+    const beginTime = params.fromDate !== undefined ? new Date(params.fromDate).getTime() : undefined;
+    const endTime = params.toDate !== undefined ? new Date(params.toDate).getTime() : undefined;
+    if ((beginTime !== undefined && isNaN(beginTime)) || (endTime !== undefined && isNaN(endTime))) {
+      return {
+        content: [{ type: 'text', text: 'Invalid fromDate or toDate format. Please use ISO format (yyyy-mm-dd HH:mm).' }],
+        isError: true,
+      };
+    }
+    const accountTagError = getAccountTagFilterError(params.accountTag);
+    if (accountTagError !== null) {
+      return {
+        content: [{ type: 'text', text: accountTagError }],
+        isError: true,
+      };
+    }
+
+    let ledger: AccountLedger;
+    try {
+      ledger = await repo.getAccountLedger({ accountCode: params.accountCode, beginTime, endTime, sourceTypes: params.sourceTypes, accountTag: params.accountTag });
+    }
+    catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to view account ledger: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+
+    const userConfig = await repo.getUserConfig();
+    const headers = ['Date', 'Ref', 'Note', 'Memo', 'Reference', 'Account', 'Debit', 'Credit', 'Balance'];
+    const rows = [
+      ['OPENING BALANCE', '', '', '', '', '', '', '', formatCurrency(ledger.openingBalance, userConfig)],
+      ...ledger.lines.map(line => [
+        new Date(line.entryTime).toISOString(),
+        line.ref.toString(),
+        line.note ?? '',
+        line.description ?? '',
+        line.reference ?? '',
+        `${line.accountCode} ${line.accountName}`,
+        formatCurrency(line.debit, userConfig),
+        formatCurrency(line.credit, userConfig),
+        formatCurrency(line.runningBalance, userConfig),
+      ]),
+      ['CLOSING BALANCE', '', '', '', '', '', formatCurrency(ledger.totalDebit, userConfig), formatCurrency(ledger.totalCredit, userConfig), formatCurrency(ledger.closingBalance, userConfig)],
+    ];
+    const table = renderAsciiTable(headers, rows);
+
+    const period = `${ledger.beginTime !== null ? new Date(ledger.beginTime).toISOString() : 'beginning'} to ${ledger.endTime !== null ? new Date(ledger.endTime).toISOString() : 'now'}`;
+    const rollUp = ledger.accountCodes.length > 1
+      ? `\nIncludes accounts: ${ledger.accountCodes.join(', ')}`
+      : '';
+    const sources = ledger.sourceTypes !== null
+      ? `\nOnly entries with source: ${ledger.sourceTypes.join(', ')}`
+      : '';
+    const tagged = ledger.accountTag !== null
+      ? `\nOnly accounts tagged "${ledger.accountTag}"`
+      : '';
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Account Ledger ${ledger.accountCode} ${ledger.accountName} (${ledger.normalBalance} normal balance, ${period})${rollUp}${sources}${tagged}\n${table}`,
+      }],
+      structuredContent: {
+        ledger: {
+          ...ledger,
+          beginTime: ledger.beginTime !== null ? new Date(ledger.beginTime).toISOString() : null,
+          endTime: ledger.endTime !== null ? new Date(ledger.endTime).toISOString() : null,
+          lines: ledger.lines.map(line => ({ ...line, entryTime: new Date(line.entryTime).toISOString() })),
+        },
+      },
     };
   });
 }
@@ -117,6 +457,10 @@ export function defineGenerateFinancialReportMCPTool(server: McpServer, repo: Ac
     title: 'Generate financial report',
     description: 'Generate Trial Balance and Balance Sheet snapshots for the current date/time.',
     inputSchema: {},
+    outputSchema: {
+      reportId: z.number(),
+      reportTime: z.string().describe('ISO date/time'),
+    },
   }, async function () {
     const reportTime = Date.now();
     const reportId = await repo.GenerateFinancialReport(reportTime);
@@ -125,6 +469,250 @@ export function defineGenerateFinancialReportMCPTool(server: McpServer, repo: Ac
         type: 'text',
         text: `Financial report generated with ID ${reportId} at ${new Date(reportTime).toISOString()}. Trial Balance and Balance Sheet snapshots have been created.`,
       }],
+      structuredContent: { reportId, reportTime: new Date(reportTime).toISOString() },
+    };
+  });
+}
+
+export function defineViewIncomeStatementMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('ViewIncomeStatement', {
+    title: 'View income statement',
+    description: 'View the income statement (revenue, cost of goods sold, gross profit, operating expenses and net income) for a fiscal year or for an arbitrary date range.',
+    inputSchema: {
+      fiscalYearName: z.string().optional().describe('Name of the fiscal year to report on. Takes precedence over fromDate and toDate.'),
+      fromDate: z.string().optional().describe('Start of the period (inclusive). Format is ISO (yyyy-mm-dd HH:mm).'),
+      toDate: z.string().optional().describe('End of the period (exclusive). Format is ISO (yyyy-mm-dd HH:mm).'),
+      accountTag: accountTagFilterSchema,
+    },
+    outputSchema: {
+      statement: z.object({
+        name: z.string().nullable().describe('Fiscal year name, null for an arbitrary date range.'),
+        beginTime: z.string().describe('ISO date/time'),
+        endTime: z.string().describe('ISO date/time'),
+        lines: z.array(z.object({
+          classification: z.string(),
+          category: z.string(),
+          accountCode: z.number(),
+          accountName: z.string(),
+          amount: z.number(),
+        })),
+        revenue: z.number(),
+        contraRevenue: z.number(),
+        netRevenue: z.number(),
+        costOfGoodsSold: z.number(),
+        grossProfit: z.number(),
+        operatingExpenses: z.number(),
+        operatingIncome: z.number(),
+        otherRevenue: z.number(),
+        otherExpenses: z.number(),
+        netIncome: z.number(),
+      }),
+    },
+  }, async function (params) {
+    const accountTagError = getAccountTagFilterError(params.accountTag);
+    if (accountTagError !== null) {
+      return {
+        content: [{ type: 'text', text: accountTagError }],
+        isError: true,
+      };
+    }
+
+    let query: { fiscalYearName?: string; beginTime?: number; endTime?: number; accountTag?: string };
+    if (params.fiscalYearName !== undefined) {
+      query = { fiscalYearName: params.fiscalYearName, accountTag: params.accountTag };
+    }
+    else if (params.fromDate !== undefined && params.toDate !== undefined) {
+      const beginTime = new Date(params.fromDate).getTime();
+      const endTime = new Date(params.toDate).getTime();
+      if (isNaN(beginTime) || isNaN(endTime)) {
+        return {
+          content: [{ type: 'text', text: 'Invalid fromDate or toDate format. Please use ISO format (yyyy-mm-dd HH:mm).' }],
+          isError: true,
+        };
+      }
+      if (beginTime >= endTime) {
+        return {
+          content: [{ type: 'text', text: 'fromDate must be before toDate.' }],
+          isError: true,
+        };
+      }
+      query = { beginTime, endTime, accountTag: params.accountTag };
+    }
+    else {
+      return {
+        content: [{ type: 'text', text: 'Please provide either fiscalYearName, or both fromDate and toDate.' }],
+        isError: true,
+      };
+    }
+
+    let statement: IncomeStatement;
+    try {
+      statement = await repo.getIncomeStatement(query);
+    }
+    catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to generate income statement: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+
+    const statementOutput = {
+      ...statement,
+      beginTime: new Date(statement.beginTime).toISOString(),
+      endTime: new Date(statement.endTime).toISOString(),
+      lines: statement.lines.map(line => ({ ...line })),
+    };
+
+    const userConfig = await repo.getUserConfig();
+    const period = (statement.name !== null
+      ? `Fiscal Year ${statement.name}, ${new Date(statement.beginTime).toISOString()} to ${new Date(statement.endTime).toISOString()}`
+      : `${new Date(statement.beginTime).toISOString()} to ${new Date(statement.endTime).toISOString()}`) + describeAccountTagFilter(params.accountTag);
+
+    if (statement.lines.length === 0) {
+      return {
+        content: [{ type: 'text', text: `Income Statement (${period})\nNo income statement activity found in this period. Make sure revenue and expense accounts are tagged for income statement reporting using SetManyAccountTags (e.g., "Income Statement - Revenue", "Income Statement - Expense").` }],
+        structuredContent: { statement: statementOutput },
+      };
+    }
+
+    const headers = ['Classification', 'Category', 'Account Code', 'Account Name', 'Amount'];
+    const rows = statement.lines.map(line => [
+      line.classification,
+      line.category,
+      line.accountCode.toString(),
+      line.accountName,
+      formatCurrency(line.amount, userConfig),
+    ]);
+
+    const totalRows = [
+      ['TOTAL REVENUE', '', '', '', formatCurrency(statement.revenue, userConfig)],
+      ['TOTAL CONTRA REVENUE', '', '', '', formatCurrency(statement.contraRevenue, userConfig)],
+      ['NET REVENUE', '', '', '', formatCurrency(statement.netRevenue, userConfig)],
+      ['TOTAL COST OF GOODS SOLD', '', '', '', formatCurrency(statement.costOfGoodsSold, userConfig)],
+      ['GROSS PROFIT', '', '', '', formatCurrency(statement.grossProfit, userConfig)],
+      ['TOTAL OPERATING EXPENSES', '', '', '', formatCurrency(statement.operatingExpenses, userConfig)],
+      ['OPERATING INCOME', '', '', '', formatCurrency(statement.operatingIncome, userConfig)],
+      ['TOTAL OTHER REVENUE', '', '', '', formatCurrency(statement.otherRevenue, userConfig)],
+      ['TOTAL OTHER EXPENSES', '', '', '', formatCurrency(statement.otherExpenses, userConfig)],
+      ['NET INCOME', '', '', '', formatCurrency(statement.netIncome, userConfig)],
+    ];
+
+    const table = renderAsciiTable(headers, [...rows, ...totalRows]);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Income Statement (${period})\n${table}`,
+      }],
+      structuredContent: { statement: statementOutput },
+    };
+  });
+}
+
+export function defineGenerateCashFlowStatementMCPTool(server: McpServer, repo: AccountingRepository) {
+  server.registerTool('GenerateCashFlowStatement', {
+    title: 'Generate cash flow statement',
+    description: 'Generate and store an indirect-method cash flow statement for a date range from posted journal entries and "Cash Flow - *" account tags. The statement splits operating, investing and financing activities and reconciles to the change in accounts tagged "Cash Flow - Cash Equivalents".',
+    inputSchema: {
+      fromDate: z.string().describe('Start of the period (inclusive). Format is ISO (yyyy-mm-dd HH:mm).'),
+      toDate: z.string().describe('End of the period (exclusive). Format is ISO (yyyy-mm-dd HH:mm).'),
+      name: z.string().optional().describe('Optional name for the stored report, e.g. "Q1 2024".'),
+    },
+    outputSchema: {
+      statement: z.object({
+        id: z.number(),
+        reportTime: z.string().describe('ISO date/time'),
+        beginTime: z.string().describe('ISO date/time'),
+        endTime: z.string().describe('ISO date/time'),
+        name: z.string().nullable(),
+        lines: z.array(z.object({
+          activityType: z.enum(['Operating', 'Investing', 'Financing']),
+          description: z.string(),
+          amount: z.number(),
+        })),
+        netCashFromOperating: z.number(),
+        netCashFromInvesting: z.number(),
+        netCashFromFinancing: z.number(),
+        netCashChange: z.number(),
+        beginningCash: z.number(),
+        endingCash: z.number(),
+        unclassifiedAccounts: z.array(z.object({
+          accountCode: z.number(),
+          accountName: z.string(),
+          amount: z.number(),
+        })),
+      }),
+      reconciliationDifference: z.number().describe('Zero when the statement reconciles to the change in cash equivalents.'),
+    },
+  }, async function (params) {
+    const beginTime = new Date(params.fromDate).getTime();
+    const endTime = new Date(params.toDate).getTime();
+    if (isNaN(beginTime) || isNaN(endTime)) {
+      return {
+        content: [{ type: 'text', text: 'Invalid fromDate or toDate format. Please use ISO format (yyyy-mm-dd HH:mm).' }],
+        isError: true,
+      };
+    }
+    if (beginTime >= endTime) {
+      return {
+        content: [{ type: 'text', text: 'fromDate must be before toDate.' }],
+        isError: true,
+      };
+    }
+
+    const userConfig = await repo.getUserConfig();
+    const statement = await repo.generateCashFlowStatement({
+      beginTime,
+      endTime,
+      reportTime: Date.now(),
+      name: params.name,
+    });
+
+    const headers = ['Activity', 'Description', 'Amount'];
+    const rows: string[][] = [];
+    const activityTotals: Array<[string, number]> = [
+      ['Operating', statement.netCashFromOperating],
+      ['Investing', statement.netCashFromInvesting],
+      ['Financing', statement.netCashFromFinancing],
+    ];
+    for (const [activityType, total] of activityTotals) {
+      for (const line of statement.lines.filter(line => line.activityType === activityType)) {
+        rows.push([line.activityType, line.description, formatCurrency(line.amount, userConfig)]);
+      }
+      rows.push([`NET CASH FROM ${activityType.toUpperCase()}`, '', formatCurrency(total, userConfig)]);
+    }
+    rows.push(['NET CHANGE IN CASH', '', formatCurrency(statement.netCashChange, userConfig)]);
+    rows.push(['CASH AT BEGINNING OF PERIOD', '', formatCurrency(statement.beginningCash, userConfig)]);
+    rows.push(['CASH AT END OF PERIOD', '', formatCurrency(statement.endingCash, userConfig)]);
+    const table = renderAsciiTable(headers, rows);
+
+    const reconciliationDifference = statement.beginningCash + statement.netCashChange - statement.endingCash;
+    let reconciliation = 'The statement reconciles to the change in cash equivalents.';
+    if (reconciliationDifference !== 0) {
+      const unclassified = statement.unclassifiedAccounts
+        .map(account => `${account.accountCode} ${account.accountName} (${formatCurrency(account.amount, userConfig)})`)
+        .join(', ');
+      reconciliation = `WARNING: The statement does not reconcile to the change in cash equivalents (difference ${formatCurrency(reconciliationDifference, userConfig)}).`
+        + (unclassified.length > 0
+          ? ` These accounts have movements but no cash flow classification tag: ${unclassified}. Tag them using SetManyAccountTags and generate the statement again.`
+          : ' Make sure every cash and cash equivalent account is tagged "Cash Flow - Cash Equivalents".');
+    }
+
+    const period = `${new Date(statement.beginTime).toISOString()} to ${new Date(statement.endTime).toISOString()}`;
+    return {
+      content: [{
+        type: 'text',
+        text: `Cash Flow Statement ${statement.name ? `"${statement.name}" ` : ''}(${period}) generated with ID ${statement.id}\n${table}\n${reconciliation}`,
+      }],
+      structuredContent: {
+        statement: {
+          ...statement,
+          reportTime: new Date(statement.reportTime).toISOString(),
+          beginTime: new Date(statement.beginTime).toISOString(),
+          endTime: new Date(statement.endTime).toISOString(),
+        },
+        reconciliationDifference,
+      },
     };
   });
 }
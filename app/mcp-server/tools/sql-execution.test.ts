@@ -1,4 +1,4 @@
-import { ok } from 'node:assert/strict';
+import { deepEqual, ok, strictEqual } from 'node:assert/strict';
 import { afterEach, beforeEach, describe, it, suite } from 'node:test';
 
 import { createAccountingMcpServer } from '@app/mcp-server/mcp-server.js';
@@ -194,5 +194,110 @@ suite('SqlExecutionMCPTool', function () {
       ok(responseText.includes('42'), 'should handle number parameter');
       ok(responseText.includes('1') || responseText.includes('true'), 'should handle boolean parameter');
     });
+
+    it('paginates results with limit and offset and reports the total row count', async function () {
+      const query = 'WITH RECURSIVE series(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM series WHERE n < 250) SELECT n FROM series;';
+
+      const firstPageRes = await client.callTool({
+        name: 'ExecuteSqlQuery',
+        arguments: { query },
+      });
+      const firstPageText = (firstPageRes.content as Array<{ text: string }>)[0].text;
+      ok(firstPageText.includes('Showing rows 1-100 of 250.'), 'should show the first page with the total');
+      ok(firstPageText.includes('use offset 100 to continue'), 'should tell how to continue');
+      ok(firstPageText.includes('| 100 |') && !firstPageText.includes('| 101 |'), 'should stop at the default limit');
+
+      const lastPageRes = await client.callTool({
+        name: 'ExecuteSqlQuery',
+        arguments: { query, limit: 100, offset: 200 },
+      });
+      const lastPageText = (lastPageRes.content as Array<{ text: string }>)[0].text;
+      ok(lastPageText.includes('Showing rows 201-250 of 250.'), 'should show the last page');
+      ok(!lastPageText.includes('to continue'), 'should not offer another page');
+
+      const structured = lastPageRes.structuredContent as { columns: string[]; rows: Array<{ n: number }>; totalRows: number | null; hasMoreRows: boolean };
+      deepEqual(structured.columns, ['n']);
+      strictEqual(structured.rows.length, 50);
+      strictEqual(structured.rows[0].n, 201);
+      strictEqual(structured.totalRows, 250);
+      strictEqual(structured.hasMoreRows, false);
+    });
+
+    it('caps the row limit and stops runaway recursive queries', async function () {
+      const res = await client.callTool({
+        name: 'ExecuteSqlQuery',
+        arguments: {
+          query: 'WITH RECURSIVE forever(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM forever) SELECT n FROM forever',
+          limit: 100000,
+        },
+      });
+      const responseText = (res.content as Array<{ text: string }>)[0].text;
+      ok(responseText.includes('Showing rows 1-500 of more than 10000.'), 'should cap the rows and bound the count');
+      ok(responseText.includes('exceeds the server cap'), 'should explain the row cap');
+    });
+
+    it('truncates wide cells to maxCellWidth', async function () {
+      const res = await client.callTool({
+        name: 'ExecuteSqlQuery',
+        arguments: {
+          query: 'SELECT ? AS long_text',
+          params: ['abcdefghijklmnopqrstuvwxyz'],
+          maxCellWidth: 10,
+        },
+      });
+      const responseText = (res.content as Array<{ text: string }>)[0].text;
+      ok(responseText.includes('abcdefghi…'), 'should truncate the value');
+      ok(!responseText.includes('abcdefghijk'), 'should not show the full value');
+      ok(responseText.includes('truncated to 10 characters'), 'should explain the truncation');
+    });
+
+    it('rejects statements that modify the database by default', async function () {
+      const res = await client.callTool({
+        name: 'ExecuteSqlQuery',
+        arguments: {
+          query: 'UPDATE accounts SET balance = 1000 WHERE account_code = 100',
+        },
+      });
+      const responseText = (res.content as Array<{ text: string }>)[0].text;
+      ok(responseText.includes('Error executing SQL query'), 'should reject the write');
+      ok(responseText.includes('read-only mode'), 'should explain read-only mode');
+
+      const account = await repo.getAccountByCode(100);
+      ok(account?.balance === 0, 'balance should be unchanged');
+    });
+
+    it('allows statements that modify the database with the admin opt-in', async function () {
+      const writableServer = createAccountingMcpServer(repo, { allowSqlWrites: true });
+      const writableClientTransport = new MemoryTransport();
+      const writableServerTransport = new MemoryTransport();
+      writableClientTransport._paired = writableServerTransport;
+      writableServerTransport._paired = writableClientTransport;
+      const writableClient = new Client({ name: 'writable-test-client', version: '1.0.0' });
+      await Promise.all([
+        writableServer.connect(writableServerTransport),
+        writableClient.connect(writableClientTransport),
+      ]);
+
+      try {
+        const res = await writableClient.callTool({
+          name: 'ExecuteSqlQuery',
+          arguments: {
+            query: 'UPDATE accounts SET name = ? WHERE account_code = 100',
+            params: ['Petty Cash'],
+          },
+        });
+        const responseText = (res.content as Array<{ text: string }>)[0].text;
+        ok(responseText.includes('Query executed successfully'), 'should confirm execution');
+
+        const account = await repo.getAccountByCode(100);
+        ok(account?.name === 'Petty Cash', 'account should be renamed');
+      }
+      finally {
+        await Promise.all([
+          writableClient.close(),
+          writableServer.close(),
+        ]);
+      }
+    });
   });
 });
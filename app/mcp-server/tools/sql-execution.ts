@@ -3,37 +3,161 @@ import { renderAsciiTable } from '@app/formatter.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import z from 'zod/v3';
 
-export function defineExecuteSqlQueryMCPTool(server: McpServer, repo: AccountingRepository) {
+const SQL_DEFAULT_LIMIT = 100;
+const SQL_MAX_ROWS = 500;
+const SQL_DEFAULT_MAX_CELL_WIDTH = 200;
+const SQL_QUERY_TIMEOUT_MS = 5000;
+const SQL_COUNT_SCAN_LIMIT = 10000;
+
+const SELECT_STATEMENT_PATTERN = /^\s*(?:(?:--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)\s*)*(?:SELECT|VALUES)\b/i;
+const WITH_STATEMENT_PATTERN = /^\s*(?:(?:--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)\s*)*WITH\b/i;
+
+export interface ExecuteSqlQueryOptions {
+  /** Allow statements that modify the database. Default is false, which only allows read-only statements. */
+  allowWrites?: boolean;
+}
+
+/**
+ * Pageable statements are wrapped in SELECT * FROM (...) LIMIT/OFFSET so only one page is ever read.
+ * WITH can also start a write, which cannot be wrapped, so it is only paged when writes are not allowed.
+ */
+function isPageableStatement(statement: string, allowWrites: boolean) {
+  return SELECT_STATEMENT_PATTERN.test(statement) || (!allowWrites && WITH_STATEMENT_PATTERN.test(statement));
+}
+
+function truncateCell(value: unknown, maxCellWidth: number) {
+  const text = String(value);
+  return text.length > maxCellWidth ? `${text.slice(0, Math.max(maxCellWidth - 1, 0))}…` : text;
+}
+
+export function defineExecuteSqlQueryMCPTool(server: McpServer, repo: AccountingRepository, options: ExecuteSqlQueryOptions = {}) {
+  const allowWrites = options.allowWrites === true;
   server.registerTool('ExecuteSqlQuery', {
     title: 'Execute SQL query',
-    description: 'Execute a raw SQLite query against the accounting database. The sqlite-accounting-schema://schema resource must be provided as context/reference when generating queries to ensure correct table structure and column names.',
+    description: (allowWrites
+      ? 'Execute a raw SQLite query against the accounting database. Writes bypass every accounting rule, prefer the dedicated tools to change data.'
+      : 'Execute a read-only SQLite query (SELECT, WITH, VALUES or EXPLAIN) against the accounting database. Statements that modify data are rejected, use the dedicated tools to change data.')
+      + ` Results are paginated with limit and offset, at most ${SQL_MAX_ROWS} rows per call, and read queries on a local database are stopped after ${SQL_QUERY_TIMEOUT_MS / 1000} seconds.`
+      + ' The sqlite-accounting-schema://schema resource must be provided as context/reference when generating queries to ensure correct table structure and column names.',
     inputSchema: {
       query: z.string(),
       params: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+      limit: z.number().int().positive().optional().describe(`Maximum number of rows to return. Default is ${SQL_DEFAULT_LIMIT}, capped at ${SQL_MAX_ROWS}.`),
+      offset: z.number().int().nonnegative().optional().describe('Number of rows to skip. Default is 0.'),
+      maxCellWidth: z.number().int().positive().optional().describe(`Maximum characters shown per cell, longer values are truncated. Default is ${SQL_DEFAULT_MAX_CELL_WIDTH}.`),
+    },
+    outputSchema: {
+      columns: z.array(z.string()),
+      rows: z.array(z.record(z.unknown())).describe('Rows of this page with untruncated values.'),
+      offset: z.number(),
+      limit: z.number().describe('Effective limit after applying the server row cap.'),
+      totalRows: z.number().nullable().describe('Total row count when it is cheap to compute, capped at the count scan limit.'),
+      hasMoreRows: z.boolean(),
     },
   }, async function (params) {
+    const requestedLimit = params.limit ?? SQL_DEFAULT_LIMIT;
+    const limit = Math.min(requestedLimit, SQL_MAX_ROWS);
+    const offset = params.offset ?? 0;
+    const maxCellWidth = params.maxCellWidth ?? SQL_DEFAULT_MAX_CELL_WIDTH;
+    const queryParams = params.params ?? [];
+    const statement = params.query.trim().replace(/;\s*$/, '');
+
     try {
-      const results = await repo.rawSql(params.query, params.params);
-      
-      if (results.length === 0) {
+      let pageRows: Array<Record<string, unknown>>;
+      let hasMoreRows: boolean;
+      let totalRows: number | undefined;
+      if (isPageableStatement(statement, allowWrites)) {
+        const fetchedRows = await repo.readOnlySql<Record<string, unknown>>(
+          `SELECT * FROM (\n${statement}\n) LIMIT ? OFFSET ?`,
+          [...queryParams, limit + 1, offset],
+          { timeoutMs: SQL_QUERY_TIMEOUT_MS },
+        );
+        hasMoreRows = fetchedRows.length > limit;
+        pageRows = fetchedRows.slice(0, limit);
+        if (!hasMoreRows && (pageRows.length > 0 || offset === 0)) {
+          totalRows = offset + pageRows.length;
+        }
+        else {
+          try {
+            const [{ total }] = await repo.readOnlySql<{ total: number }>(
+              `SELECT COUNT(*) AS total FROM (SELECT 1 FROM (\n${statement}\n) LIMIT ?)`,
+              [...queryParams, SQL_COUNT_SCAN_LIMIT + 1],
+              { timeoutMs: SQL_QUERY_TIMEOUT_MS },
+            );
+            totalRows = Number(total);
+          }
+          catch {
+            // The total is only reported when it is cheap to compute.
+          }
+        }
+      }
+      else {
+        const results = allowWrites
+          ? await repo.rawSql<Record<string, unknown>>(params.query, params.params)
+          : await repo.readOnlySql<Record<string, unknown>>(params.query, params.params, { timeoutMs: SQL_QUERY_TIMEOUT_MS });
+        totalRows = results.length;
+        pageRows = results.slice(offset, offset + limit);
+        hasMoreRows = offset + limit < results.length;
+      }
+
+      const totalText = totalRows === undefined
+        ? ''
+        : totalRows > SQL_COUNT_SCAN_LIMIT
+          ? ` of more than ${SQL_COUNT_SCAN_LIMIT}`
+          : ` of ${totalRows}`;
+
+      const structuredContent = {
+        columns: pageRows.length > 0 ? Object.keys(pageRows[0]) : [],
+        rows: pageRows,
+        offset,
+        limit,
+        totalRows: totalRows ?? null,
+        hasMoreRows,
+      };
+
+      if (pageRows.length === 0) {
         return {
           content: [{
             type: 'text',
-            text: 'Query executed successfully, but returned no results.',
+            text: offset === 0
+              ? 'Query executed successfully, but returned no results.'
+              : `Query executed successfully, but returned no rows at offset ${offset}${totalRows !== undefined ? ` (total rows: ${totalRows})` : ''}.`,
           }],
+          structuredContent,
         };
       }
 
+      const notices: string[] = [];
+      if (requestedLimit > SQL_MAX_ROWS) {
+        notices.push(`Requested limit ${requestedLimit} exceeds the server cap, at most ${SQL_MAX_ROWS} rows are returned per call.`);
+      }
+      if (hasMoreRows) {
+        notices.push(`Results truncated. More rows are available, use offset ${offset + pageRows.length} to continue.`);
+      }
+
       // Format results as ASCII table
-      const headers = Object.keys(results[0]);
-      const rows = results.map(row => Object.values(row).map(val => String(val)));
+      let hasTruncatedCells = false;
+      const headers = Object.keys(pageRows[0]);
+      const rows = pageRows.map(row => Object.values(row).map(function (val) {
+        const cell = truncateCell(val, maxCellWidth);
+        hasTruncatedCells ||= cell.length !== String(val).length;
+        return cell;
+      }));
       const table = renderAsciiTable(headers, rows);
-      
+      if (hasTruncatedCells) {
+        notices.push(`Some values were truncated to ${maxCellWidth} characters, raise maxCellWidth to see more.`);
+      }
+
       return {
         content: [{
           type: 'text',
-          text: `Query executed successfully. Results:\n${table}`,
+          text: [
+            `Query executed successfully. Showing rows ${offset + 1}-${offset + pageRows.length}${totalText}.`,
+            ...notices,
+            table,
+          ].join('\n'),
         }],
+        structuredContent,
       };
     }
     catch (error) {
@@ -42,6 +166,7 @@ export function defineExecuteSqlQueryMCPTool(server: McpServer, repo: Accounting
           type: 'text',
           text: `Error executing SQL query: ${(error as Error).message}`,
         }],
+        isError: true,
       };
     }
   });